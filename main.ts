@@ -4,16 +4,28 @@ import {
 	PluginSettingTab,
 	Setting,
 	Modal,
+	Notice,
 	ButtonComponent,
+	DropdownComponent,
+	TextAreaComponent,
 	MarkdownView,
 	MarkdownRenderer,
 	AbstractInputSuggest,
 	Component,
 	TFile,
+	TFolder,
 	getAllTags,
+	CachedMetadata,
 	ItemView,
 	WorkspaceLeaf,
 	SettingDefinitionItem,
+	moment,
+	normalizePath,
+	parseLinktext,
+	parseYaml,
+	stringifyYaml,
+	resolveSubpath,
+	BasesConfigFile,
 } from 'obsidian';
 
 // --- Enums ---
@@ -25,12 +37,20 @@ enum RuleType {
 	Property = 'property',
 	Multi = 'multi',
 	Dataview = 'dataview',
+	FileName = 'file-name',
+	Links = 'links',
+	FileDate = 'file-date',
+	Content = 'content',
+	Datacore = 'datacore',
+	Bases = 'bases',
 }
 
 /** Defines the source of the content for a rule (e.g., direct text input or a markdown file). */
 enum ContentSource {
 	Text = 'text',
 	File = 'file',
+	Property = 'property',
+	Snippet = 'snippet',
 }
 
 /** Defines where the dynamic content should be rendered within the Markdown view (e.g., header or footer). */
@@ -43,20 +63,57 @@ enum RenderLocation {
 
 type SectionHeaderPlacement = 'top' | 'bottom';
 
+/** Defines how a folder condition's path is interpreted: as a folder, a glob pattern, or a regular expression. */
+type PathMatchMode = 'folder' | 'glob' | 'regex';
+
+/** Defines how a file name condition compares the note's name against its pattern. */
+type FileNameMatchMode = 'exact' | 'prefix' | 'suffix' | 'regex' | 'date-format';
+
+/** Defines how a link condition relates the note to the link graph. */
+type LinkRelation = 'links-to' | 'linked-from' | 'has-backlinks' | 'has-no-outgoing-links';
+
+/** Defines which file timestamp a file date condition checks. */
+type FileDateField = 'created' | 'modified';
+
+/** Defines how a file date condition compares the file timestamp. */
+type FileDateOperator = 'before' | 'after' | 'within-last-days' | 'older-than-days';
+
+/** Defines what a note content condition looks for inside the note. */
+type ContentCheck = 'has-heading' | 'body-contains' | 'body-regex' | 'has-open-tasks' | 'all-tasks-complete' | 'word-count-above';
+
+/** The kinds of single conditions available in a 'Multi' rule. */
+type SubConditionType = 'folder' | 'tag' | 'property' | 'file-name' | 'links' | 'file-date' | 'content';
+
+/** Defines how a property condition compares a frontmatter value against the expected value. */
+type PropertyOperator =
+	| 'equals'
+	| 'not-equals'
+	| 'contains'
+	| 'starts-with'
+	| 'regex'
+	| 'greater-than'
+	| 'less-than'
+	| 'between'
+	| 'date-before'
+	| 'date-after'
+	| 'date-within-last-days';
+
 // --- Interfaces ---
 
 /**
  * Represents a single condition for a 'Multi' rule type.
  */
 interface SubCondition {
-	/** The type of condition (folder, tag, or property). */
-	type: 'folder' | 'tag' | 'property';
+	/** The type of condition (folder, tag, property, or file name). */
+	type: SubConditionType;
 	/** Whether this condition should be negated (not met). Defaults to false. */
 	negated?: boolean;
 	/** For 'folder' type: path to the folder. */
 	path?: string;
 	/** For 'folder' type: whether to match subfolders. */
 	recursive?: boolean;
+	/** For 'folder' type: how the path is interpreted. Defaults to 'folder'. */
+	pathMatchMode?: PathMatchMode;
 	/** For 'tag' type: the tag name (without '#'). */
 	tag?: string;
 	/** For 'tag' type: whether to match subtags. */
@@ -65,14 +122,58 @@ interface SubCondition {
 	propertyName?: string;
 	/** For 'property' type: the value the frontmatter property should have. */
 	propertyValue?: string;
+	/** For 'property' type: how the value is compared. Defaults to 'equals'. */
+	propertyOperator?: PropertyOperator;
+	/** For 'property' type with the 'between' operator: the upper bound. */
+	propertyValueMax?: string;
+	/** For 'file-name' type: how the file name is compared. */
+	fileNameMode?: FileNameMatchMode;
+	/** For 'file-name' type: the name, prefix, suffix, regex or date format to match. */
+	fileNamePattern?: string;
+	/** For 'file-name' type: comma-separated file extensions to restrict matching to. */
+	fileExtension?: string;
+	/** For 'links' type: how the note relates to the link graph. */
+	linkRelation?: LinkRelation;
+	/** For 'links' type: the path of the target note for 'links-to' and 'linked-from'. */
+	linkTarget?: string;
+	/** For 'file-date' type: whether the creation or modification time is checked. */
+	dateField?: FileDateField;
+	/** For 'file-date' type: how the timestamp is compared. */
+	dateOperator?: FileDateOperator;
+	/** For 'file-date' type: a date for 'before'/'after', or a number of days. */
+	dateValue?: string;
+	/** For 'content' type: what to look for inside the note. */
+	contentCheck?: ContentCheck;
+	/** For 'content' type: the heading, text, regex or word count to check for. */
+	contentValue?: string;
+}
+
+/**
+ * Represents a nested group of conditions for a 'Multi' rule type.
+ * A group combines its children with its own any/all logic and may contain further groups.
+ */
+interface ConditionGroup {
+	/** Identifies this node as a group rather than a single condition. */
+	type: 'group';
+	/** Whether the result of this group should be negated. Defaults to false. */
+	negated?: boolean;
+	/** Specifies whether ANY or ALL children must be met. Defaults to 'any'. */
+	logic?: 'any' | 'all';
+	/** The conditions and nested groups contained in this group. */
+	conditions: ConditionNode[];
 }
 
+/** A node in a 'Multi' rule's condition tree: either a single condition or a nested group. */
+type ConditionNode = SubCondition | ConditionGroup;
+
 /**
  * Represents a rule for injecting dynamic content into Markdown views.
  * Each rule specifies matching criteria (type: folder/tag/property), content source (text/file),
  * the content itself, and where it should be rendered (header/footer).
  */
 interface Rule {
+	/** A persistent unique identifier, used to key sidebar tabs and rendered elements. Assigned by `normalizeRule`. */
+	id: string;
 	/** A descriptive name for this rule. */
 	name?: string;
 	/** Whether this rule is currently active. */
@@ -85,26 +186,64 @@ interface Rule {
 	path?: string;
 	/** For 'tag' type: the tag name (without '#'). */
 	tag?: string;
-	/** For 'folder' type: whether to match subfolders. Defaults to true. Ignored if path is "". */
+	/** For 'folder' type: whether to match subfolders. Defaults to true. Ignored if path is "" or a pattern is used. */
 	recursive?: boolean;
+	/** For 'folder' type: how the path is interpreted. Glob and regex patterns are matched against the full file path. Defaults to 'folder'. */
+	pathMatchMode?: PathMatchMode;
 	/** For 'tag' type: whether to match subtags (e.g., 'tag' matches 'tag/subtag'). Defaults to false. */
 	includeSubtags?: boolean;
 	/** For 'property' type: the name of the frontmatter property. */
 	propertyName?: string;
 	/** For 'property' type: the value the frontmatter property should have. */
 	propertyValue?: string;
-	/** For 'multi' type: an array of sub-conditions. */
-	conditions?: SubCondition[];
-	/** For 'multi' type: specifies whether ANY or ALL conditions must be met. Defaults to 'any'. */
+	/** For 'property' type: how the value is compared. Defaults to 'equals'. */
+	propertyOperator?: PropertyOperator;
+	/** For 'property' type with the 'between' operator: the upper bound. */
+	propertyValueMax?: string;
+	/** For 'file-name' type: how the note's base name (without extension) is compared. Defaults to 'exact'. */
+	fileNameMode?: FileNameMatchMode;
+	/** For 'file-name' type: the name, prefix, suffix, regex or moment.js date format to match. */
+	fileNamePattern?: string;
+	/** For 'file-name' type: comma-separated file extensions (e.g. "md, canvas"). Empty for any extension. */
+	fileExtension?: string;
+	/** For 'links' type: how the note relates to the link graph. Defaults to 'links-to'. */
+	linkRelation?: LinkRelation;
+	/** For 'links' type: the path of the target note for 'links-to' and 'linked-from'. */
+	linkTarget?: string;
+	/** For 'file-date' type: whether the file's creation or modification time is checked. Defaults to 'modified'. */
+	dateField?: FileDateField;
+	/** For 'file-date' type: how the timestamp is compared. Defaults to 'older-than-days'. */
+	dateOperator?: FileDateOperator;
+	/** For 'file-date' type: a date (YYYY-MM-DD or "today") for 'before'/'after', or a number of days otherwise. */
+	dateValue?: string;
+	/** For 'content' type: what to look for inside the note. Defaults to 'has-heading'. */
+	contentCheck?: ContentCheck;
+	/** For 'content' type: the heading text, body text, body regex or word count. Unused for task checks. */
+	contentValue?: string;
+	/** For 'multi' type: the top-level conditions and condition groups. */
+	conditions?: ConditionNode[];
+	/** For 'multi' type: specifies whether ANY or ALL top-level conditions must be met. Defaults to 'any'. */
 	multiConditionLogic?: 'any' | 'all';
 	/** For 'dataview' type: the Dataview query to use for matching files. */
 	dataviewQuery?: string;
+	/** For 'datacore' type: the Datacore query to use for matching files. */
+	datacoreQuery?: string;
+	/** For 'bases' type: the path of the `.base` file whose filters decide which notes match. */
+	baseFilePath?: string;
+	/** For 'bases' type: the name of a view in the base whose filters also apply. Empty to use only the base's global filters. */
+	baseViewName?: string;
 	/** The source from which to get the content (direct text or a file). */
 	contentSource: ContentSource;
 	/** Direct text content if contentSource is 'text'. */
 	footerText: string; // Retained name for compatibility, though it can be header or footer content.
 	/** Path to a .md file if contentSource is 'file'. */
 	footerFilePath?: string; // Retained name for compatibility.
+	/** For 'property' content source: the frontmatter key of the target note that holds a content file link or inline Markdown. */
+	contentPropertyName?: string;
+	/** For 'snippet' content source: the name of the snippet from the snippet library. */
+	snippetName?: string;
+	/** Whether to run the content through Templater for the target note before rendering. Defaults to false. */
+	useTemplater?: boolean;
 	/** Specifies whether to render in the header or footer. */
 	renderLocation: RenderLocation;
 	/** For 'sidebar' location: whether to show in a separate tab. */
@@ -129,12 +268,24 @@ interface Rule {
 	showInCanvas?: boolean;
 }
 
+/**
+ * A named piece of Markdown content that rules can use and other content can embed.
+ */
+interface ContentSnippet {
+	/** The unique name used to reference the snippet. */
+	name: string;
+	/** The Markdown content of the snippet. */
+	content: string;
+}
+
 /**
  * Defines the settings structure for the VirtualFooter plugin.
  * Contains an array of rules that dictate content injection.
  */
 interface VirtualFooterSettings {
 	rules: Rule[];
+	/** Reusable content snippets shared by rules. */
+	snippets?: ContentSnippet[];
 	/** Whether to refresh the view on file open. Defaults to false. */
 	refreshOnFileOpen?: boolean;
 	/** Whether to render content in source mode. Defaults to false. */
@@ -162,11 +313,71 @@ interface HTMLElementWithComponent extends HTMLElement {
 	observer?: MutationObserver;
 }
 
+/**
+ * Information about a single file that is shared by all condition checks while evaluating rules against it.
+ */
+interface RuleMatchContext {
+	/** The file being matched. */
+	file: TFile;
+	/** The metadata cache entry for the file, if available. */
+	fileCache: CachedMetadata | null;
+	/** The file's tags (without '#'), or null if they were not loaded. */
+	fileTags: string[] | null;
+	/** The note's text without frontmatter, or null if no enabled rule checks the note body. */
+	bodyText: string | null;
+}
+
+/**
+ * One step of a rule's evaluation against a note, as shown by the match explainer.
+ */
+interface MatchTraceStep {
+	/** What was checked, e.g. "Folder in Projects (recursive)". Negation is part of the label. */
+	label: string;
+	/** The result of the step, after negation. */
+	matched: boolean;
+	/** Additional information, such as the outcome of a query. */
+	detail?: string;
+	/** The steps within a multi-condition rule or condition group. */
+	children: MatchTraceStep[];
+}
+
+/**
+ * How a rule was evaluated against a note, as shown by the match explainer.
+ */
+interface RuleExplanation {
+	rule: Rule;
+	index: number;
+	/** Whether the rule applies to the note. Disabled rules never apply. */
+	matched: boolean;
+	/** The evaluation steps. Empty for disabled rules. */
+	steps: MatchTraceStep[];
+	/** Where the content comes from and whether it could be loaded, or null if the rule doesn't apply. */
+	contentStatus: string | null;
+	/** The places where the rule's visibility settings hide its content. */
+	hiddenIn: string[];
+}
+
+/** The file format rules are exported to. */
+type RuleExportFormat = 'json' | 'yaml';
+
+/** How an imported rule is handled when a rule with the same ID already exists. */
+type RuleImportConflictMode = 'skip' | 'replace' | 'duplicate';
+
+/**
+ * Rules read from an export, migrated to the current format and normalized.
+ */
+interface RuleImport {
+	rules: Rule[];
+	/** Snippets included in the export because the exported rules use them. */
+	snippets: ContentSnippet[];
+}
+
 // --- Constants ---
 
 /** Default settings for the plugin, used when no settings are found or for new rules. */
 const DEFAULT_SETTINGS: VirtualFooterSettings = {
 	rules: [{
+		id: '', // Assigned when the rule is normalized
 		name: 'Default Rule',
 		enabled: true,
 		type: RuleType.Folder,
@@ -188,6 +399,7 @@ const DEFAULT_SETTINGS: VirtualFooterSettings = {
 		showInEmbed: true,
 		showInCanvas: true,
 	}],
+	snippets: [], // No snippets by default
 	refreshOnFileOpen: false, // Default to false
 	renderInSourceMode: false, // Default to false
 	refreshOnMetadataChange: false, // Default to false
@@ -222,9 +434,109 @@ const SELECTOR_PREVIEW_FOOTER_AREA = '.mod-footer'; // Target for reading mode f
 const SELECTOR_EMBEDDED_BACKLINKS = '.embedded-backlinks'; // Target for positioning above backlinks
 const SELECTOR_METADATA_CONTAINER = '.metadata-container'; // Target for positioning above properties
 
+/** Display labels for property operators, in the order they are offered in the rule editor. */
+const PROPERTY_OPERATOR_LABELS: Record<PropertyOperator, string> = {
+	'equals': 'equals',
+	'not-equals': 'does not equal',
+	'contains': 'contains',
+	'starts-with': 'starts with',
+	'regex': 'matches regex',
+	'greater-than': 'greater than',
+	'less-than': 'less than',
+	'between': 'between',
+	'date-before': 'date before',
+	'date-after': 'date after',
+	'date-within-last-days': 'date within last N days',
+};
+
+/** Display labels for file name match modes. */
+const FILE_NAME_MATCH_MODE_LABELS: Record<FileNameMatchMode, string> = {
+	'exact': 'is',
+	'prefix': 'starts with',
+	'suffix': 'ends with',
+	'regex': 'matches regex',
+	'date-format': 'is a date in format',
+};
+
+/** Display labels for link relations. */
+const LINK_RELATION_LABELS: Record<LinkRelation, string> = {
+	'links-to': 'links to',
+	'linked-from': 'is linked from',
+	'has-backlinks': 'has any backlinks',
+	'has-no-outgoing-links': 'has no outgoing links',
+};
+
+/** Display labels for file date operators. */
+const FILE_DATE_OPERATOR_LABELS: Record<FileDateOperator, string> = {
+	'before': 'before',
+	'after': 'after',
+	'within-last-days': 'within last N days',
+	'older-than-days': 'older than N days',
+};
+
+/** Display labels for note content checks. */
+const CONTENT_CHECK_LABELS: Record<ContentCheck, string> = {
+	'has-heading': 'has heading',
+	'body-contains': 'body contains',
+	'body-regex': 'body matches regex',
+	'has-open-tasks': 'has unchecked tasks',
+	'all-tasks-complete': 'has all tasks complete',
+	'word-count-above': 'word count above',
+};
+
+/** Content checks that need the note file to be read, rather than only its cached metadata. */
+const BODY_CONTENT_CHECKS: ReadonlySet<ContentCheck> = new Set(['body-contains', 'body-regex', 'word-count-above']);
+
+/** Matches Dataview query syntax that refers to the file the query runs from: `this`, `[[]]` and `[[#heading]]`. */
+const DATAVIEW_ORIGIN_PATTERN = /\bthis\b|\[\[\]\]|\[\[#/;
+
+/** Matches template variables such as {{owner}}, {{file.created:YYYY-MM-DD}} or {{owner|Unassigned}}, and escaped \{{ sequences. */
+const TEMPLATE_VARIABLE_PATTERN = /\\\{\{|\{\{\s*([^#/{}\s][^{}]*?)\s*\}\}/g;
+
+/** The moment.js format used for dates in templates when no format is given. */
+const TEMPLATE_DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** Matches the block tags {{#if ...}}, {{#each ...}}, {{else}}, {{/if}} and {{/each}}, and escaped \{{ sequences. */
+const TEMPLATE_BLOCK_PATTERN = /\\\{\{|\{\{\s*(#if|#each|else|\/if|\/each)(?:\s+([^{}]*?))?\s*\}\}/g;
+
+/** Operators usable in {{#if}} conditions, and the property operators they evaluate with. */
+const TEMPLATE_CONDITION_OPERATORS: Record<string, PropertyOperator> = {
+	'==': 'equals',
+	'!=': 'not-equals',
+	'>': 'greater-than',
+	'<': 'less-than',
+	'contains': 'contains',
+	'startsWith': 'starts-with',
+	'matches': 'regex',
+	'before': 'date-before',
+	'after': 'date-after',
+};
+
+/** Matches snippet embeds {{> name}} and escaped \{{ sequences. */
+const SNIPPET_EMBED_PATTERN = /\\\{\{|\{\{>\s*([^{}]+?)\s*\}\}/g;
+
+/** Version of the rule export format, written to every export so that later versions can migrate it. */
+const RULE_EXPORT_VERSION = 1;
+
+/** Templater's RunMode.DynamicProcessor, which evaluates a template without writing it to a file. */
+const TEMPLATER_DYNAMIC_PROCESSOR_RUN_MODE = 4;
+/** Matches a Templater tag, such as `<% tp.file.title %>` or `<%* ... %>`. */
+const TEMPLATER_TAG_PATTERN = /<%[\s\S]*?%>/g;
+
+/** How often open notes are re-checked for file date rules whose result may change over time. */
+const FILE_DATE_REFRESH_INTERVAL_MS = 60 * 1000;
+
 const VIRTUAL_CONTENT_VIEW_TYPE = 'virtual-content-view';
+const RULE_EXPLAINER_VIEW_TYPE = 'virtual-content-rule-explainer';
 const VIRTUAL_CONTENT_SEPARATE_VIEW_TYPE_PREFIX = 'virtual-content-separate-view-';
 
+/** Rule IDs are used in view types and CSS selectors, so they are restricted to characters that need no escaping. */
+const RULE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function generateRuleId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
 function normalizeBoolean(value: unknown, fallback: boolean): boolean {
 	if (typeof value === 'boolean') return value;
 	if (typeof value === 'number') return value !== 0;
@@ -236,1859 +548,2751 @@ function normalizeBoolean(value: unknown, fallback: boolean): boolean {
 	return fallback;
 }
 
-// --- Utility Classes ---
+function normalizePathMatchMode(value: unknown): PathMatchMode {
+	return value === 'glob' || value === 'regex' ? value : 'folder';
+}
 
 /**
- * A suggestion provider for input fields, offering autocompletion from a given set of strings.
+ * Switches a folder condition to another path matching mode. A folder path becomes a glob pattern matching
+ * the same notes, and other paths are cleared, since they mean something else in the new mode.
+ * @param condition The folder condition to update.
+ * @param mode The new path matching mode.
  */
-export class MultiSuggest extends AbstractInputSuggest<string> {
-	/**
-	 * Creates an instance of MultiSuggest.
-	 * @param inputEl The HTML input element to attach the suggester to.
-	 * @param content The set of strings to use as suggestions.
-	 * @param onSelectCb Callback function executed when a suggestion is selected.
-	 * @param app The Obsidian App instance.
-	 */
-	constructor(
-		private inputEl: HTMLInputElement,
-		private content: Set<string>,
-		private onSelectCb: (value: string) => void,
-		app: App
-	) {
-		super(app, inputEl);
+function setPathMatchMode(condition: { path?: string, recursive?: boolean, pathMatchMode?: PathMatchMode }, mode: PathMatchMode): void {
+	const previousMode = condition.pathMatchMode || 'folder';
+	if (previousMode === mode) {
+		return;
 	}
-
-	/**
-	 * Filters the content set to find suggestions matching the input string.
-	 * @param inputStr The current string in the input field.
-	 * @returns An array of matching suggestion strings.
-	 */
-	getSuggestions(inputStr: string): string[] {
-		const lowerCaseInputStr = inputStr.toLocaleLowerCase();
-		return [...this.content].filter((contentItem) =>
-			contentItem.toLocaleLowerCase().includes(lowerCaseInputStr)
-		);
+	if (previousMode === 'folder' && mode === 'glob') {
+		const folder = (condition.path || '').replace(/^\/+|\/+$/g, '');
+		// An empty folder path matches every note, whether or not subfolders are included
+		const notes = condition.recursive === false && condition.path ? '*' : '**';
+		condition.path = folder ? `${folder}/${notes}` : notes;
+	} else {
+		condition.path = '';
 	}
+	condition.pathMatchMode = mode;
+}
 
-	/**
-	 * Renders a single suggestion item in the suggestion list.
-	 * @param content The suggestion string to render.
-	 * @param el The HTMLElement to render the suggestion into.
-	 */
-	renderSuggestion(content: string, el: HTMLElement): void {
-		el.setText(content);
+/**
+ * Converts a glob pattern into an anchored regular expression.
+ * Supports `**` (any number of folders), `*` and `?` (within a single path segment),
+ * `{a,b}` alternatives and `[...]` character classes (negated with `[!...]`), which never match `/`.
+ * @param pattern The glob pattern.
+ * @returns The equivalent regular expression source.
+ */
+function globToRegExpSource(pattern: string): string {
+	let source = '';
+	let braceDepth = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*') {
+			if (pattern[i + 1] === '*') {
+				if (pattern[i + 2] === '/') {
+					source += '(?:.*/)?'; // "**/" also matches zero folders
+					i += 2;
+				} else {
+					source += '.*';
+					i += 1;
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '[') {
+			let classStart = i + 1;
+			const negated = pattern[classStart] === '!' || pattern[classStart] === '^';
+			if (negated) classStart++;
+			// A "]" straight after the opening bracket is a member of the class, not its end
+			const closingIndex = pattern.indexOf(']', pattern[classStart] === ']' ? classStart + 1 : classStart);
+			if (closingIndex === -1) {
+				source += '\\[';
+			} else {
+				const members = pattern.substring(classStart, closingIndex).replace(/[\\\]^]/g, '\\$&');
+				source += negated ? `[^${members}/]` : `(?!/)[${members}]`;
+				i = closingIndex;
+			}
+		} else if (char === '{') {
+			braceDepth++;
+			source += '(?:';
+		} else if (char === '}' && braceDepth > 0) {
+			braceDepth--;
+			source += ')';
+		} else if (char === ',' && braceDepth > 0) {
+			source += '|';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
 	}
+	return `^${source}$`;
+}
 
-	/**
-	 * Handles the selection of a suggestion.
-	 * @param content The selected suggestion string.
-	 * @param _evt The mouse or keyboard event that triggered the selection.
-	 */
-	selectSuggestion(content: string, _evt: MouseEvent | KeyboardEvent): void {
-		this.onSelectCb(content);
-		this.inputEl.value = content; // Update input field with selected value
-		this.inputEl.blur(); // Remove focus from input
-		this.close(); // Close the suggestion popover
+/**
+ * Compiles (and caches) a glob or regex path pattern.
+ * @param pattern The pattern text.
+ * @param mode Whether the pattern is a glob or a regular expression.
+ * @returns The compiled expression, or null if the pattern is invalid.
+ */
+function compilePathPattern(pattern: string, mode: 'glob' | 'regex'): RegExp | null {
+	return compileRegExp(mode === 'glob' ? globToRegExpSource(pattern) : pattern);
+}
+
+function normalizeFileNameMatchMode(value: unknown): FileNameMatchMode {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FILE_NAME_MATCH_MODE_LABELS, value)
+		? value as FileNameMatchMode
+		: 'exact';
+}
+
+function normalizeLinkRelation(value: unknown): LinkRelation {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LINK_RELATION_LABELS, value)
+		? value as LinkRelation
+		: 'links-to';
+}
+
+function normalizeFileDateOperator(value: unknown): FileDateOperator {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FILE_DATE_OPERATOR_LABELS, value)
+		? value as FileDateOperator
+		: 'older-than-days';
+}
+
+function normalizeContentCheck(value: unknown): ContentCheck {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONTENT_CHECK_LABELS, value)
+		? value as ContentCheck
+		: 'has-heading';
+}
+
+function normalizePropertyOperator(value: unknown): PropertyOperator {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROPERTY_OPERATOR_LABELS, value)
+		? value as PropertyOperator
+		: 'equals';
+}
+
+/**
+ * Parses a frontmatter or rule value as a date. Accepts ISO dates and the keyword "today".
+ * @param value The value to parse.
+ * @returns The parsed date, or null if the value is not a valid date.
+ */
+function parsePropertyDate(value: unknown): ReturnType<typeof moment> | null {
+	if (typeof value !== 'string' && typeof value !== 'number') return null;
+	const text = String(value).trim();
+	if (!text) return null;
+	if (text.toLowerCase() === 'today') return moment().startOf('day');
+	const parsed = moment(text, [moment.ISO_8601, 'YYYY-MM-DD'], true);
+	return parsed.isValid() ? parsed : null;
+}
+
+function parsePropertyNumber(value: unknown): number | null {
+	if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+	if (typeof value !== 'string' || value.trim() === '') return null;
+	const parsed = Number(value.trim());
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** The number of compiled expressions kept in `compiledRegExps`; the oldest are dropped first. */
+const MAX_COMPILED_REGEXPS = 200;
+const compiledRegExps: Map<string, RegExp | null> = new Map();
+/** Invalid expressions that have already been logged, so each is only reported once. */
+const reportedInvalidRegExps: Set<string> = new Set();
+
+/**
+ * Compiles a regular expression, reusing the result for the same source and flags.
+ * @param source The expression source.
+ * @param flags The expression flags.
+ * @returns The compiled expression, or null if the source is invalid.
+ */
+function compileRegExp(source: string, flags = ''): RegExp | null {
+	const cacheKey = `${flags}/${source}`;
+	if (compiledRegExps.has(cacheKey)) {
+		return compiledRegExps.get(cacheKey) ?? null;
+	}
+	let compiled: RegExp | null = null;
+	try {
+		compiled = new RegExp(source, flags);
+	} catch {
+		// Reported by the caller through warnInvalidRegExp
 	}
+	if (compiledRegExps.size >= MAX_COMPILED_REGEXPS) {
+		compiledRegExps.delete(compiledRegExps.keys().next().value as string);
+	}
+	compiledRegExps.set(cacheKey, compiled);
+	return compiled;
 }
 
-// --- Sidebar View Class ---
+/**
+ * Logs a warning about an invalid pattern the first time it is seen.
+ * @param message The warning, which also identifies the pattern.
+ */
+function warnInvalidRegExp(message: string): void {
+	if (reportedInvalidRegExps.has(message)) return;
+	reportedInvalidRegExps.add(message);
+	console.warn(`VirtualFooter: ${message}`);
+}
 
-export class VirtualContentView extends ItemView {
-	plugin: VirtualFooterPlugin;
-	viewContent: HTMLElement | null = null;
-	component: Component = new Component();
-	private contentProvider: () => { content: string, sourcePath: string } | null;
-	private viewId: string;
-	private tabName: string;
+/**
+ * A parsed piece of rule content: plain text (which may contain variables), or a conditional or repeated block.
+ */
+type TemplateNode =
+	| { kind: 'text', text: string }
+	| { kind: 'if', condition: string, then: TemplateNode[], otherwise: TemplateNode[] }
+	| { kind: 'each', name: string, body: TemplateNode[] };
 
-	constructor(leaf: WorkspaceLeaf, plugin: VirtualFooterPlugin, viewId: string, tabName: string, contentProvider: () => { content: string, sourcePath: string } | null) {
-		super(leaf);
-		this.plugin = plugin;
-		this.viewId = viewId;
-		this.tabName = tabName;
-		this.contentProvider = contentProvider;
+/**
+ * Finds the snippets that rules use, either as their content source or through {{> name}} embeds, including snippets embedded by those snippets.
+ * @param rules The rules.
+ * @param snippets The snippet library.
+ * @returns The used snippets, in library order.
+ */
+function collectUsedSnippets(rules: Rule[], snippets: ContentSnippet[]): ContentSnippet[] {
+	const usedNames = new Set<string>();
+	const visit = (content: string): void => {
+		for (const [, name] of content.matchAll(SNIPPET_EMBED_PATTERN)) {
+			if (name !== undefined) {
+				visitSnippet(name);
+			}
+		}
+	};
+	const visitSnippet = (name: string): void => {
+		const snippet = snippets.find(candidate => candidate.name === name);
+		if (snippet && !usedNames.has(name)) {
+			usedNames.add(name);
+			visit(snippet.content);
+		}
+	};
+	for (const rule of rules) {
+		if (rule.contentSource === ContentSource.Snippet && rule.snippetName) {
+			visitSnippet(rule.snippetName);
+		}
+		visit(rule.footerText || '');
 	}
+	return snippets.filter(snippet => usedNames.has(snippet.name));
+}
 
-	getViewType() {
-		return this.viewId;
+/**
+ * Reads exported rules from JSON or YAML text.
+ * Accepts an export, the plugin's own data.json, or a plain list of rules.
+ * @param text The text to read.
+ * @returns The raw rules, not yet migrated, and the included snippets.
+ * @throws An error describing why no rules could be read.
+ */
+function parseRuleExportText(text: string): { rules: Record<string, unknown>[], snippets: ContentSnippet[] } {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		try {
+			data = parseYaml(text);
+		} catch (error) {
+			throw new Error(`The text is neither valid JSON nor YAML: ${error instanceof Error ? error.message : String(error)}`);
+		}
 	}
 
-	getDisplayText() {
-		return this.tabName;
+	const container = (Array.isArray(data) ? { rules: data } : data) as Record<string, unknown> | null;
+	if (!container || typeof container !== 'object' || !Array.isArray(container.rules)) {
+		throw new Error('The text does not contain a list of rules.');
 	}
+	const isRecord = (value: unknown): value is Record<string, unknown> =>
+		!!value && typeof value === 'object' && !Array.isArray(value);
+	return {
+		rules: container.rules.filter(isRecord),
+		snippets: (Array.isArray(container.snippets) ? container.snippets : [])
+			.filter(isRecord)
+			.filter(snippet => typeof snippet.name === 'string')
+			.map(snippet => ({
+				name: snippet.name as string,
+				content: typeof snippet.content === 'string' ? snippet.content : '',
+			})),
+	};
+}
 
-	getIcon() {
-		return 'text-select';
+/**
+ * Checks whether content embeds a snippet with {{> name}}. Escaped embeds don't count.
+ */
+function contentEmbedsSnippet(content: string, name: string): boolean {
+	for (const [, embeddedName] of content.matchAll(SNIPPET_EMBED_PATTERN)) {
+		if (embeddedName === name) {
+			return true;
+		}
 	}
+	return false;
+}
 
-	protected async onOpen(): Promise<void> {
-		this.component = new Component();
-		this.component.load();
+/**
+ * Points the {{> name}} embeds of a renamed snippet at its new name. Escaped embeds are left as written.
+ * @param content The content containing the embeds.
+ * @param oldName The snippet's previous name.
+ * @param newName The snippet's new name.
+ * @returns The updated content.
+ */
+function renameSnippetEmbeds(content: string, oldName: string, newName: string): string {
+	if (!content.includes('{{>')) {
+		return content;
+	}
+	return content.replace(SNIPPET_EMBED_PATTERN, (match, name: string | undefined) => name === oldName ? `{{> ${newName}}}` : match);
+}
 
-		const container = this.containerEl.children[1];
-		container.empty();
-		this.viewContent = container.createDiv({ cls: 'virtual-content-sidebar-view' });
-		this.update();
+/**
+ * Replaces {{> name}} embeds with the content of the named snippets, recursively.
+ * Missing snippets and embed cycles are replaced by an HTML comment instead of the content.
+ * @param content The content to expand.
+ * @param snippets The snippet library.
+ * @param stack The names of the snippets currently being expanded, outermost first.
+ * @returns The content with all embeds expanded.
+ */
+function expandSnippetEmbeds(content: string, snippets: ContentSnippet[], stack: string[] = []): string {
+	if (!content.includes('{{>')) {
+		return content;
 	}
+	return content.replace(SNIPPET_EMBED_PATTERN, (match, name: string | undefined) => {
+		if (name === undefined) {
+			return match; // Keep escaped \{{ for the template renderer
+		}
+		if (stack.includes(name)) {
+			const cycle = [...stack.slice(stack.indexOf(name)), name].join(' → ');
+			console.warn(`VirtualFooter: Snippet cycle detected: ${cycle}`);
+			return `<!-- Snippet cycle: ${cycle} -->`;
+		}
+		const snippet = snippets.find(candidate => candidate.name === name);
+		if (!snippet) {
+			console.warn(`VirtualFooter: Snippet not found: ${name}`);
+			return `<!-- Snippet not found: ${name} -->`;
+		}
+		return expandSnippetEmbeds(snippet.content, snippets, [...stack, name]);
+	});
+}
 
+/**
+ * Parses rule content into text and {{#if}} / {{#each}} blocks. Blocks can be nested.
+ * Unclosed blocks end at the end of the content, and unmatched closing tags are kept as text.
+ * @param content The rule content.
+ * @returns The parsed nodes.
+ */
+function parseContentTemplate(content: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	// The open blocks, innermost last, with the node list that text is currently added to
+	const stack: Array<{ block: Extract<TemplateNode, { kind: 'if' | 'each' }> | null, target: TemplateNode[] }> = [{ block: null, target: root }];
+	const addText = (text: string) => {
+		if (!text) return;
+		const target = stack[stack.length - 1].target;
+		const last = target[target.length - 1];
+		if (last?.kind === 'text') {
+			last.text += text;
+		} else {
+			target.push({ kind: 'text', text });
+		}
+	};
+
+	let lastIndex = 0;
+	for (const match of content.matchAll(TEMPLATE_BLOCK_PATTERN)) {
+		const matchIndex = match.index ?? 0;
+		addText(content.slice(lastIndex, matchIndex));
+		lastIndex = matchIndex + match[0].length;
+
+		const [tag, keyword, argument] = match;
+		const current = stack[stack.length - 1];
+		if (keyword === undefined) {
+			addText(tag); // Escaped, resolved when variables are expanded
+		} else if (keyword === '#if' || keyword === '#each') {
+			const block: Extract<TemplateNode, { kind: 'if' | 'each' }> = keyword === '#if'
+				? { kind: 'if', condition: argument ?? '', then: [], otherwise: [] }
+				: { kind: 'each', name: argument ?? '', body: [] };
+			current.target.push(block);
+			stack.push({ block, target: block.kind === 'if' ? block.then : block.body });
+		} else if (keyword === 'else' && current.block?.kind === 'if') {
+			current.target = current.block.otherwise;
+		} else if ((keyword === '/if' && current.block?.kind === 'if') || (keyword === '/each' && current.block?.kind === 'each')) {
+			stack.pop();
+		} else {
+			addText(tag);
+		}
+	}
+	addText(content.slice(lastIndex));
+	return root;
+}
 
+/**
+ * Parses an {{#if}} condition such as `status == "done"`, `!archived` or `due before today` into a property condition.
+ * A bare property name checks that the note has the property.
+ * @param expression The condition text.
+ * @returns The property condition and whether it is negated, or null if the condition cannot be parsed.
+ */
+function parseTemplateCondition(expression: string): { negated: boolean, propertyName: string, propertyOperator: PropertyOperator, propertyValue: string } | null {
+	const match = /^(!\s*)?([^\s!=<>]+)(?:\s*(==|!=|>|<|\s(?:contains|startsWith|matches|before|after)\s)\s*(.+))?$/.exec(expression.trim());
+	if (!match) return null;
+	const [, negation, propertyName, operator, rawValue] = match;
+	const value = (rawValue ?? '').trim();
+	const unquoted = /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+	return {
+		negated: negation !== undefined,
+		propertyName,
+		propertyOperator: operator ? TEMPLATE_CONDITION_OPERATORS[operator.trim()] : 'equals',
+		propertyValue: unquoted,
+	};
+}
 
-	protected async onClose(): Promise<void> {
-		this.component.unload();
+/**
+ * Follows a path of keys into nested objects.
+ * @returns The value at the path, or undefined if any step is missing or not an object.
+ */
+function getNestedValue(value: unknown, keys: string[]): unknown {
+	for (const key of keys) {
+		if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+		value = (value as Record<string, unknown>)[key];
 	}
+	return value;
+}
 
-	update() {
-		if (!this.viewContent) return;
+/** Matches fenced code blocks, which end at a closing fence of the same kind or at the end of the content. */
+const TEMPLATE_CODE_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[^\n]*[\s\S]*?(?:\n {0,3}\1[`~]*[ \t]*(?=\n|$)|(?![\s\S]))/gm;
+/** Matches inline code spans and Templater tags. */
+const TEMPLATE_INLINE_CODE_PATTERN = /(`+)(?!`)[\s\S]*?[^`]\1(?!`)|<%[\s\S]*?%>/g;
 
-		// Clean up previous content and component
-		this.viewContent.empty();
-		this.component.unload();
-		this.component = new Component();
-		this.component.load();
+/**
+ * Replaces code blocks, inline code and Templater tags with placeholders, so that template syntax inside them is left as written.
+ * @param content The rule content.
+ * @returns The content with placeholders, and a function that puts the original text back into rendered content.
+ */
+function maskTemplateCode(content: string): { masked: string, restore: (text: string) => string } {
+	const regions: string[] = [];
+	const toPlaceholder = (text: string) => `\uE000${regions.push(text) - 1}\uE001`;
+	const masked = content
+		.replace(TEMPLATE_CODE_FENCE_PATTERN, toPlaceholder)
+		.replace(TEMPLATE_INLINE_CODE_PATTERN, toPlaceholder);
+	return {
+		masked,
+		restore: (text: string) => text.replace(/\uE000(\d+)\uE001/g, (match, index: string) => regions[Number(index)] ?? match),
+	};
+}
 
-		const data = this.contentProvider();
-		if (data && data.content && data.content.trim() !== '') {
-			void MarkdownRenderer.render(this.app, data.content, this.viewContent, data.sourcePath, this.component);
-			this.plugin.attachInternalLinkHandlers(this.viewContent, data.sourcePath, this.component);
-		} else {
-			this.viewContent.createEl('p', {
-				text: 'No virtual content to display for the current note.',
-				cls: 'virtual-content-sidebar-empty'
-			});
-		}
+/**
+ * Converts a template variable's value to text. Dates are formatted with the given moment.js format,
+ * lists are joined with commas, and missing values become an empty string.
+ * @param value The value of the variable.
+ * @param format An optional moment.js format for date values.
+ * @returns The text to insert into the content.
+ */
+function formatTemplateValue(value: unknown, format: string): string {
+	if (value === null || value === undefined) return '';
+	if (moment.isMoment(value)) return value.format(format || TEMPLATE_DEFAULT_DATE_FORMAT);
+	if (format) {
+		const date = parsePropertyDate(value);
+		if (date) return date.format(format);
 	}
+	if (Array.isArray(value)) return value.map(item => formatTemplateValue(item, format)).filter(text => text !== '').join(', ');
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
 }
 
-// --- Main Plugin Class ---
+/**
+ * Lists the conditions of a rule: the rule itself for single-condition rules, with its rule type as the condition type,
+ * or all conditions of a multi-condition rule, including those in nested groups.
+ * Query-based rules (Dataview, Datacore, Bases) have no conditions.
+ */
+function getRuleConditions(rule: Rule): SubCondition[] {
+	if (rule.type === RuleType.Multi) {
+		const flatten = (conditions: ConditionNode[]): SubCondition[] => conditions.flatMap(condition =>
+			condition.type === 'group' ? flatten(condition.conditions) : [condition]);
+		return flatten(rule.conditions ?? []);
+	}
+	if (rule.type === RuleType.Dataview || rule.type === RuleType.Datacore || rule.type === RuleType.Bases) return [];
+	return [{ ...rule, type: rule.type as SubConditionType }];
+}
 
 /**
- * VirtualFooterPlugin dynamically injects content into the header or footer of Markdown views
- * based on configurable rules.
+ * Like `getRuleConditions`, but leaves out negated conditions, including those negated by an enclosing group.
+ * Negation within a negated group cancels out, so such conditions are kept.
  */
-export default class VirtualFooterPlugin extends Plugin {
-	settings: VirtualFooterSettings = DEFAULT_SETTINGS;
-	/** Stores pending content injections for preview mode, awaiting DOM availability. */
-	private pendingPreviewInjections: WeakMap<MarkdownView, { 
-		headerDiv?: HTMLElementWithComponent, 
-		footerDiv?: HTMLElementWithComponent,
-		headerAbovePropertiesDiv?: HTMLElementWithComponent,
-		footerAboveBacklinksDiv?: HTMLElementWithComponent,
-		filePath?: string
-	}> = new WeakMap();
-	/** Manages MutationObservers for views in preview mode to detect when injection targets are ready. */
-	private previewObservers: WeakMap<MarkdownView, MutationObserver> = new WeakMap();
-	private initialLayoutReadyProcessed = false;
-	private lastSidebarContent: { content: string, sourcePath: string } | null = null;
-	private lastSeparateTabContents: Map<string, { content: string, sourcePath: string }> = new Map();
-	private lastHoveredLink: HTMLElement | null = null;
-	private popoverObserver: MutationObserver | null = null;
-	private canvasObserver: MutationObserver | null = null;
-	private sectionHeaderScrollRefreshTimeout: number | null = null;
-	private embedObservers: WeakMap<MarkdownView, MutationObserver> = new WeakMap();
-	private embedRefreshTimeouts: WeakMap<MarkdownView, number> = new WeakMap();
-	private embedLastScanByView: WeakMap<MarkdownView, { filePath: string; time: number }> = new WeakMap();
-	private footerPaddingObservers: WeakMap<MarkdownView, ResizeObserver> = new WeakMap();
-	private livePreviewFooterStyleApplied: WeakMap<MarkdownView, boolean> = new WeakMap();
-	private canvasRefreshTimeout: number | null = null;
-	private canvasRefreshInProgress = false;
-	private canvasInteractionHandler: ((event: Event) => void) | null = null;
+function getNonNegatedRuleConditions(rule: Rule): SubCondition[] {
+	if (rule.type === RuleType.Multi) {
+		const flatten = (conditions: ConditionNode[], negated: boolean): SubCondition[] => conditions.flatMap(condition => {
+			const conditionNegated = negated !== !!condition.negated;
+			if (condition.type === 'group') return flatten(condition.conditions, conditionNegated);
+			return conditionNegated ? [] : [condition];
+		});
+		return flatten(rule.conditions ?? [], false);
+	}
+	return rule.negated ? [] : getRuleConditions(rule);
+}
 
-	private getActiveFileForVirtualContent(): TFile | null {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView) as { file?: unknown } | undefined;
-		if (activeView?.file instanceof TFile) {
-			return activeView.file;
-		}
+/**
+ * Checks whether a rule has a condition satisfying the predicate, either as the rule itself or within its sub-conditions.
+ */
+function ruleHasCondition(rule: Rule, predicate: (condition: SubCondition) => boolean): boolean {
+	return getRuleConditions(rule).some(predicate);
+}
 
-		const workspaceFile = this.app.workspace.getActiveFile();
-		return workspaceFile instanceof TFile ? workspaceFile : null;
+/**
+ * Describes a single condition in a few words, e.g. "Folder in Projects (recursive)". Negation is included in the description.
+ */
+function summarizeCondition(condition: SubCondition): string {
+	switch (condition.type) {
+		case 'folder': {
+			if (condition.pathMatchMode === 'glob' || condition.pathMatchMode === 'regex') {
+				const negation = condition.negated ? 'not matching' : 'matching';
+				return `Path ${negation} ${condition.pathMatchMode} ${condition.path?.trim() || '(empty)'}`;
+			}
+			const path = condition.path?.trim() || 'all files';
+			const negation = condition.negated ? 'not in' : 'in';
+			const recursive = condition.path === '' ? '' : (condition.recursive ? ' (recursive)' : '');
+			return `Folder ${negation} ${path}${recursive}`;
+		}
+		case 'tag': {
+			const tag = condition.tag?.trim() || 'tag';
+			const negation = condition.negated ? 'not tagged' : 'tagged';
+			const subtags = condition.includeSubtags ? ' (include subtags)' : '';
+			return `Tag ${negation} #${tag}${subtags}`;
+		}
+		case 'property': {
+			const name = condition.propertyName?.trim() || 'property';
+			const negation = condition.negated ? 'not' : 'has';
+			const operator = condition.propertyOperator || 'equals';
+			let value = '';
+			if (operator === 'between') {
+				value = ` between ${condition.propertyValue?.trim() || '?'} and ${condition.propertyValueMax?.trim() || '?'}`;
+			} else if (operator === 'equals') {
+				value = condition.propertyValue?.trim() ? ` = ${condition.propertyValue.trim()}` : '';
+			} else {
+				value = ` ${PROPERTY_OPERATOR_LABELS[operator]} ${condition.propertyValue?.trim() ?? ''}`.trimEnd();
+			}
+			return `Property ${negation} ${name}${value}`;
+		}
+		case 'file-name': {
+			const negation = condition.negated ? 'not ' : '';
+			const mode = FILE_NAME_MATCH_MODE_LABELS[condition.fileNameMode || 'exact'];
+			const pattern = condition.fileNamePattern?.trim() ? ` ${negation}${mode} ${condition.fileNamePattern.trim()}` : '';
+			const extension = condition.fileExtension?.trim() ? ` (${negation}.${condition.fileExtension.trim()})` : '';
+			return `File name${pattern}${extension}`;
+		}
+		case 'links': {
+			const negation = condition.negated ? 'not ' : '';
+			const relation = condition.linkRelation || 'links-to';
+			const target = (relation === 'links-to' || relation === 'linked-from') ? ` ${condition.linkTarget?.trim() || 'note'}` : '';
+			return `Note ${negation}${LINK_RELATION_LABELS[relation]}${target}`;
+		}
+		case 'file-date': {
+			const negation = condition.negated ? 'not ' : '';
+			const field = condition.dateField === 'created' ? 'Created' : 'Modified';
+			const operator = condition.dateOperator || 'older-than-days';
+			const value = condition.dateValue?.trim() || '?';
+			const comparison = operator === 'within-last-days'
+				? `within last ${value} days`
+				: operator === 'older-than-days' ? `more than ${value} days ago` : `${operator} ${value}`;
+			return `${field} ${negation}${comparison}`;
+		}
+		case 'content': {
+			const negation = condition.negated ? 'not ' : '';
+			const check = condition.contentCheck || 'has-heading';
+			const value = condition.contentValue?.trim() ? ` ${condition.contentValue.trim()}` : '';
+			return `Note ${negation}${CONTENT_CHECK_LABELS[check]}${value}`;
+		}
+		default:
+			return 'Condition';
 	}
+}
 
-	private getActiveDocument(): Document {
-		return activeDocument;
+/**
+ * Describes what a rule matches in a few words, for the rules list and the match explainer.
+ */
+function summarizeRule(rule: Rule): string {
+	switch (rule.type) {
+		case RuleType.Multi: {
+			const logic = rule.multiConditionLogic === 'all' ? 'all' : 'any';
+			const count = countConditions(rule.conditions ?? []);
+			return `Multi (${logic}, ${count} condition${count === 1 ? '' : 's'})`;
+		}
+		case RuleType.Dataview: {
+			return rule.negated ? 'Not in Dataview query' : 'Dataview query';
+		}
+		case RuleType.Datacore: {
+			return rule.negated ? 'Not in Datacore query' : 'Datacore query';
+		}
+		case RuleType.Bases: {
+			const condition = rule.negated ? 'Not in' : 'In';
+			const base = rule.baseFilePath?.trim() || 'base';
+			const view = rule.baseViewName?.trim() ? ` (${rule.baseViewName.trim()})` : '';
+			return `${condition} ${base}${view}`;
+		}
+		default:
+			return summarizeCondition({ ...rule, type: rule.type as SubConditionType });
 	}
+}
 
-	private async processSidebarContentForFilePath(filePath: string): Promise<void> {
-		const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
-		const contentSeparator = "\n\n";
-		let combinedSidebarText = "";
-		this.lastSeparateTabContents.clear();
+/**
+ * Counts the conditions of a multi-condition rule, including those in nested groups.
+ */
+function countConditions(conditions: ConditionNode[]): number {
+	return conditions.reduce((count, condition) =>
+		count + (condition.type === 'group' ? countConditions(condition.conditions) : 1), 0);
+}
 
-		for (const { rule, contentText, index } of applicableRulesWithContent) {
-			if (!contentText || contentText.trim() === "" || rule.renderLocation !== RenderLocation.Sidebar) {
-				continue;
-			}
+/** Rule and condition fields that hold a vault path and follow renames. */
+type PathReferenceKey = 'path' | 'linkTarget' | 'footerFilePath' | 'baseFilePath';
 
-			if (rule.showInSeparateTab) {
-				const viewId = this.getSeparateViewId(index);
-				const existingContent = this.lastSeparateTabContents.get(viewId)?.content || "";
-				this.lastSeparateTabContents.set(viewId, {
-					content: (existingContent ? existingContent + contentSeparator : "") + contentText,
-					sourcePath: filePath
-				});
+/** What each path reference field points to, for validation messages. */
+const PATH_REFERENCE_LABELS: Record<PathReferenceKey, string> = {
+	path: 'Folder',
+	linkTarget: 'Link target note',
+	footerFilePath: 'Content file',
+	baseFilePath: 'Base file',
+};
+
+/**
+ * Lists the fields of a rule and its conditions that refer to a file or folder in the vault.
+ * Folder conditions using glob or regex patterns are skipped, since their path is not a literal path.
+ */
+function getRulePathReferences(rule: Rule): Array<{ owner: Partial<Record<PathReferenceKey, string>>, key: PathReferenceKey }> {
+	const references: Array<{ owner: Partial<Record<PathReferenceKey, string>>, key: PathReferenceKey }> = [];
+	const addConditionReferences = (condition: Rule | SubCondition) => {
+		if (condition.type === 'folder' && (condition.pathMatchMode ?? 'folder') === 'folder' && condition.path && condition.path !== '/') {
+			references.push({ owner: condition, key: 'path' });
+		}
+		if (condition.type === 'links' && condition.linkTarget) {
+			references.push({ owner: condition, key: 'linkTarget' });
+		}
+	};
+	if (rule.type === RuleType.Multi) {
+		const addGroupReferences = (conditions: ConditionNode[]): void => conditions.forEach(condition => {
+			if (condition.type === 'group') {
+				addGroupReferences(condition.conditions);
 			} else {
-				combinedSidebarText += (combinedSidebarText ? contentSeparator : "") + contentText;
+				addConditionReferences(condition);
 			}
-		}
+		});
+		addGroupReferences(rule.conditions ?? []);
+	} else {
+		addConditionReferences(rule);
+	}
+	if (rule.type === RuleType.Bases && rule.baseFilePath) {
+		references.push({ owner: rule, key: 'baseFilePath' });
+	}
+	if (rule.contentSource === ContentSource.File && rule.footerFilePath) {
+		references.push({ owner: rule, key: 'footerFilePath' });
+	}
+	return references;
+}
 
-		this.lastSidebarContent = { content: combinedSidebarText, sourcePath: filePath };
-		this.updateAllSidebarViews();
+/**
+ * Rewrites a path reference after a file or folder was renamed. Paths inside a renamed folder
+ * and heading or block references (`#...`) after a renamed file are kept.
+ * @param reference The path reference from a rule.
+ * @param oldPath The path before the rename.
+ * @param newPath The path after the rename.
+ * @returns The updated reference, or null if the reference does not point to or into the renamed path.
+ */
+function renamePathReference(reference: string, oldPath: string, newPath: string): string | null {
+	if (reference === oldPath) {
+		return newPath;
+	}
+	if (reference.startsWith(oldPath + '/') || reference.startsWith(oldPath + '#')) {
+		return newPath + reference.slice(oldPath.length);
 	}
+	return null;
+}
 
-	private async processNonMarkdownActiveFile(): Promise<void> {
-		const activeFile = this.getActiveFileForVirtualContent();
-		if (!activeFile) {
-			if (!this.settings.refreshOnFileOpen || this.app.workspace.getLeavesOfType('markdown').length === 0) {
-				this.lastSidebarContent = null;
-				this.lastSeparateTabContents.clear();
-				this.updateAllSidebarViews();
+/**
+ * Updates a link target written as link text, such as `Note` or `[[Folder/Note#Heading|Alias]]`, after the note it links to was renamed.
+ * Link text is written without the `.md` extension, either as the note's path or as its name alone.
+ * @param reference The link target.
+ * @param oldPath The note's path before the rename.
+ * @param newPath The note's path after the rename.
+ * @returns The updated link target, or null if it doesn't link to the renamed note.
+ */
+function renameLinkTextReference(reference: string, oldPath: string, newPath: string): string | null {
+	const match = /^(\s*(?:\[\[)?)([^#|\]]*)(.*)$/.exec(reference);
+	if (!match) {
+		return null;
+	}
+	const [, prefix, linkpath, suffix] = match;
+	const stripExtension = (path: string) => path.replace(/\.md$/i, '');
+	const baseName = (path: string) => stripExtension(path.split('/').pop() ?? path);
+	const trimmedLinkpath = linkpath.trim();
+	if (trimmedLinkpath === stripExtension(oldPath)) {
+		return prefix + stripExtension(newPath) + suffix;
+	}
+	if (!trimmedLinkpath.includes('/') && trimmedLinkpath === baseName(oldPath)) {
+		return prefix + baseName(newPath) + suffix;
+	}
+	return null;
+}
+
+// --- Bases Filter Evaluation ---
+
+/**
+ * A parsed Bases filter expression, such as `file.inFolder("Projects")` or `status != "done"`.
+ */
+type BasesExpression =
+	| { kind: 'literal', value: string | number | boolean | null }
+	| { kind: 'identifier', name: string }
+	| { kind: 'member', object: BasesExpression, name: string }
+	| { kind: 'call', callee: BasesExpression, args: BasesExpression[] }
+	| { kind: 'unary', operator: '!' | '-', operand: BasesExpression }
+	| { kind: 'binary', operator: string, left: BasesExpression, right: BasesExpression };
+
+type BasesToken = { type: 'string' | 'number' | 'identifier' | 'operator', value: string };
+
+/** Operators understood by the Bases expression tokenizer, longest first. */
+const BASES_OPERATORS = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!', '+', '-', '(', ')', ',', '.'];
+
+/** Marks the `file` object of a Bases expression, whose properties are resolved against the note being matched. */
+const BASES_FILE_REFERENCE = Symbol('file');
+
+/**
+ * The information about a note that Bases filter expressions can reference.
+ */
+interface BasesFilterEnvironment {
+	/** The note being matched. */
+	file: TFile;
+	/** The note's frontmatter, if any. */
+	frontmatter: Record<string, unknown> | undefined;
+	/** The note's tags, with '#'. */
+	tags: string[];
+	/** The paths of the files the note links to. */
+	links: string[];
+	/** Resolves a link or path to a file. */
+	resolveLink: (value: string) => TFile | null;
+}
+
+function tokenizeBasesExpression(source: string): BasesToken[] {
+	const tokens: BasesToken[] = [];
+	let index = 0;
+	while (index < source.length) {
+		const char = source[index];
+		if (/\s/.test(char)) {
+			index++;
+		} else if (char === '"' || char === "'") {
+			let value = '';
+			index++;
+			while (index < source.length && source[index] !== char) {
+				value += source[index] === '\\' && index + 1 < source.length ? source[++index] : source[index];
+				index++;
 			}
-			return;
+			if (index >= source.length) throw new Error(`Unterminated string in "${source}"`);
+			index++;
+			tokens.push({ type: 'string', value });
+		} else if (/\d/.test(char)) {
+			const value = /^\d+(\.\d+)?/.exec(source.slice(index))?.[0] ?? char;
+			tokens.push({ type: 'number', value });
+			index += value.length;
+		} else if (/[A-Za-z_$]/.test(char)) {
+			const value = /^[\w$]+/.exec(source.slice(index))?.[0] ?? char;
+			tokens.push({ type: 'identifier', value });
+			index += value.length;
+		} else {
+			const operator = BASES_OPERATORS.find(op => source.startsWith(op, index));
+			if (!operator) throw new Error(`Unsupported character "${char}" in "${source}"`);
+			tokens.push({ type: 'operator', value: operator });
+			index += operator.length;
 		}
+	}
+	return tokens;
+}
 
-		await this.processSidebarContentForFilePath(activeFile.path);
+/**
+ * A recursive-descent parser for the subset of the Bases expression language used in filters:
+ * `||`, `&&`, comparisons, `+` and `-`, `!`, member access, method calls and literals.
+ */
+class BasesExpressionParser {
+	private position = 0;
+
+	constructor(private tokens: BasesToken[], private source: string) { }
+
+	parse(): BasesExpression {
+		const expression = this.parseOr();
+		if (this.position < this.tokens.length) {
+			throw new Error(`Unexpected "${this.tokens[this.position].value}" in "${this.source}"`);
+		}
+		return expression;
 	}
 
-	private logEmbedCanvasDebug(message: string, data?: Record<string, unknown>): void {
-		if (!this.settings.debugEmbedCanvas) {
-			return;
+	private parseOr(): BasesExpression {
+		let left = this.parseAnd();
+		while (this.matchOperator('||')) {
+			left = { kind: 'binary', operator: '||', left, right: this.parseAnd() };
 		}
-		if (data) {
-			console.debug(`VirtualContent: ${message}`, data);
-		} else {
-			console.debug(`VirtualContent: ${message}`);
+		return left;
+	}
+
+	private parseAnd(): BasesExpression {
+		let left = this.parseComparison();
+		while (this.matchOperator('&&')) {
+			left = { kind: 'binary', operator: '&&', left, right: this.parseComparison() };
 		}
+		return left;
 	}
 
-	/**
-	 * Called when the plugin is loaded.
-	 */
-	async onload() {
-			await this.loadSettings();
-			this.addSettingTab(new VirtualFooterSettingTab(this.app, this));
+	private parseComparison(): BasesExpression {
+		const left = this.parseAdditive();
+		for (const operator of ['==', '!=', '>=', '<=', '>', '<']) {
+			if (this.matchOperator(operator)) {
+				return { kind: 'binary', operator, left, right: this.parseAdditive() };
+			}
+		}
+		return left;
+	}
 
-		this.registerView(
-			VIRTUAL_CONTENT_VIEW_TYPE,
-			(leaf) => new VirtualContentView(leaf, this, VIRTUAL_CONTENT_VIEW_TYPE, 'Virtual Content', () => this.getLastSidebarContent())
-		);
+	private parseAdditive(): BasesExpression {
+		let left = this.parseUnary();
+		for (;;) {
+			if (this.matchOperator('+')) {
+				left = { kind: 'binary', operator: '+', left, right: this.parseUnary() };
+			} else if (this.matchOperator('-')) {
+				left = { kind: 'binary', operator: '-', left, right: this.parseUnary() };
+			} else {
+				return left;
+			}
+		}
+	}
 
-		this.registerDynamicViews();
+	private parseUnary(): BasesExpression {
+		if (this.matchOperator('!')) return { kind: 'unary', operator: '!', operand: this.parseUnary() };
+		if (this.matchOperator('-')) return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+		return this.parsePostfix();
+	}
 
-		this.addRibbonIcon('text-select', 'Open virtual content in sidebar', () => {
-			void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
-		});
+	private parsePostfix(): BasesExpression {
+		let expression = this.parsePrimary();
+		for (;;) {
+			if (this.matchOperator('.')) {
+				const token = this.tokens[this.position++];
+				if (token?.type !== 'identifier') throw new Error(`Expected a name after "." in "${this.source}"`);
+				expression = { kind: 'member', object: expression, name: token.value };
+			} else if (this.matchOperator('(')) {
+				const args: BasesExpression[] = [];
+				if (!this.matchOperator(')')) {
+					do {
+						args.push(this.parseOr());
+					} while (this.matchOperator(','));
+					this.expectOperator(')');
+				}
+				expression = { kind: 'call', callee: expression, args };
+			} else {
+				return expression;
+			}
+		}
+	}
 
-		this.addCommand({
-			id: 'open-virtual-content-sidebar',
-			name: 'Open in sidebar',
-			callback: () => {
-				void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
-			},
-		});
+	private parsePrimary(): BasesExpression {
+		const token = this.tokens[this.position++];
+		if (!token) throw new Error(`Unexpected end of "${this.source}"`);
+		if (token.type === 'string') return { kind: 'literal', value: token.value };
+		if (token.type === 'number') return { kind: 'literal', value: Number(token.value) };
+		if (token.type === 'identifier') {
+			if (token.value === 'true' || token.value === 'false') return { kind: 'literal', value: token.value === 'true' };
+			if (token.value === 'null') return { kind: 'literal', value: null };
+			return { kind: 'identifier', name: token.value };
+		}
+		if (token.value === '(') {
+			const expression = this.parseOr();
+			this.expectOperator(')');
+			return expression;
+		}
+		throw new Error(`Unexpected "${token.value}" in "${this.source}"`);
+	}
 
-		this.addCommand({
-			id: 'open-all-virtual-content-sidebar-tabs',
-			name: 'Open all sidebar tabs',
-			callback: () => {
-				void this.activateAllSidebarViews();
-			},
-		});
+	private matchOperator(operator: string): boolean {
+		const token = this.tokens[this.position];
+		if (token?.type === 'operator' && token.value === operator) {
+			this.position++;
+			return true;
+		}
+		return false;
+	}
 
-		const activeDocument = this.getActiveDocument();
+	private expectOperator(operator: string): void {
+		if (!this.matchOperator(operator)) throw new Error(`Expected "${operator}" in "${this.source}"`);
+	}
+}
 
-		// Define event handlers
-		const handleViewUpdate = () => {
-			// Always trigger an update if the layout is ready.
-			// Used for file-open and layout-change.
-			if (this.initialLayoutReadyProcessed) {
-				this.handleActiveViewChange();
-			}
-		};
+const parsedBasesExpressions: Map<string, BasesExpression> = new Map();
 
-		const handleFocusChange = () => {
-			// This is the "focus change" or "switching files" part, conditional on the setting.
-			// Used for active-leaf-change.
-			if (this.settings.refreshOnFileOpen && this.initialLayoutReadyProcessed) {
-				this.handleActiveViewChange();
-			}
-		};
+/**
+ * Evaluates a filter from a `.base` file against a note.
+ * Filters are either expression strings or `and` / `or` / `not` groups of filters.
+ * @param filter The filter to evaluate.
+ * @param env The note to evaluate against.
+ * @returns True if the note passes the filter.
+ * @throws If the filter uses syntax or functions that are not supported.
+ */
+function evaluateBasesFilter(filter: unknown, env: BasesFilterEnvironment): boolean {
+	if (typeof filter === 'string') {
+		let expression = parsedBasesExpressions.get(filter);
+		if (!expression) {
+			expression = new BasesExpressionParser(tokenizeBasesExpression(filter), filter).parse();
+			parsedBasesExpressions.set(filter, expression);
+		}
+		return isBasesValueTruthy(evaluateBasesExpression(expression, env));
+	}
+	if (filter && typeof filter === 'object') {
+		const group = filter as Record<string, unknown>;
+		if (Array.isArray(group.and)) return group.and.every(child => evaluateBasesFilter(child, env));
+		if (Array.isArray(group.or)) return group.or.some(child => evaluateBasesFilter(child, env));
+		if (Array.isArray(group.not)) return !group.not.some(child => evaluateBasesFilter(child, env));
+	}
+	throw new Error(`Unsupported filter: ${JSON.stringify(filter)}`);
+}
 
-		// Register event listeners
-		this.registerEvent(
-			this.app.workspace.on('file-open', handleViewUpdate)
-		);
-		this.registerEvent(
-			this.app.workspace.on('layout-change', handleViewUpdate)
-		);
-		this.registerEvent(
-			this.app.workspace.on('active-leaf-change', handleFocusChange)
-		);
+function evaluateBasesExpression(expression: BasesExpression, env: BasesFilterEnvironment): unknown {
+	switch (expression.kind) {
+		case 'literal':
+			return expression.value;
+		case 'identifier':
+			if (expression.name === 'file') return BASES_FILE_REFERENCE;
+			if (expression.name === 'note') return env.frontmatter ?? {};
+			if (expression.name === 'this' || expression.name === 'formula') {
+				throw new Error(`"${expression.name}" is not supported in Virtual Content rules`);
+			}
+			return env.frontmatter?.[expression.name] ?? null;
+		case 'member':
+			return getBasesMember(evaluateBasesExpression(expression.object, env), expression.name, env);
+		case 'call':
+			return callBasesFunction(expression, env);
+		case 'unary': {
+			const operand = evaluateBasesExpression(expression.operand, env);
+			if (expression.operator === '!') return !isBasesValueTruthy(operand);
+			const number = parsePropertyNumber(operand);
+			if (number === null) throw new Error(`Cannot negate ${String(operand)}`);
+			return -number;
+		}
+		case 'binary': {
+			if (expression.operator === '&&') {
+				return isBasesValueTruthy(evaluateBasesExpression(expression.left, env)) && isBasesValueTruthy(evaluateBasesExpression(expression.right, env));
+			}
+			if (expression.operator === '||') {
+				return isBasesValueTruthy(evaluateBasesExpression(expression.left, env)) || isBasesValueTruthy(evaluateBasesExpression(expression.right, env));
+			}
+			const left = evaluateBasesExpression(expression.left, env);
+			const right = evaluateBasesExpression(expression.right, env);
+			if (expression.operator === '+' || expression.operator === '-') return addBasesValues(left, right, expression.operator === '-' ? -1 : 1);
+			if (expression.operator === '==') return basesValuesEqual(left, right);
+			if (expression.operator === '!=') return !basesValuesEqual(left, right);
+			const comparison = compareBasesValues(left, right);
+			if (comparison === null) return false;
+			switch (expression.operator) {
+				case '>': return comparison > 0;
+				case '<': return comparison < 0;
+				case '>=': return comparison >= 0;
+				case '<=': return comparison <= 0;
+			}
+			throw new Error(`Unsupported operator "${expression.operator}"`);
+		}
+	}
+}
 
-		// Listen for metadata changes on the current file
-		this.registerEvent(
-			this.app.metadataCache.on('changed', (file) => {
-				// Only refresh if the metadata change setting is enabled
-				if (this.settings.refreshOnMetadataChange && this.initialLayoutReadyProcessed) {
-					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-					// Only refresh if the changed file is the currently active one
-					if (activeView && activeView.file && file.path === activeView.file.path) {
-						this.handleActiveViewChange();
-					}
-				}
-			})
-		);
+function getBasesMember(object: unknown, name: string, env: BasesFilterEnvironment): unknown {
+	if (object === BASES_FILE_REFERENCE) {
+		const file = env.file;
+		switch (name) {
+			case 'name': return file.name;
+			case 'basename': return file.basename;
+			case 'path': return file.path;
+			case 'folder': return file.parent?.path ?? '';
+			case 'ext': return file.extension;
+			case 'size': return file.stat.size;
+			case 'ctime': return file.stat.ctime;
+			case 'mtime': return file.stat.mtime;
+			case 'tags': return env.tags;
+			case 'links': return env.links;
+			case 'properties': return env.frontmatter ?? {};
+		}
+		throw new Error(`"file.${name}" is not supported in Virtual Content rules`);
+	}
+	if (name === 'length' && (typeof object === 'string' || Array.isArray(object))) return object.length;
+	if (object && typeof object === 'object' && !Array.isArray(object)) {
+		return (object as Record<string, unknown>)[name] ?? null;
+	}
+	return null;
+}
 
-		// Listen for hover events to detect when popovers are created
-		this.registerDomEvent(activeDocument, 'mouseover', (event: MouseEvent) => {
-			const target = event.target as HTMLElement;
-			// Check if the target is a link that could trigger a popover
-			if (target.matches('a.internal-link, .internal-link a, [data-href]')) {
-				// Store the last hovered link for popover file path extraction
-				this.lastHoveredLink = target;
-				// Delay to allow popover to be created
-				window.setTimeout(() => { void this.processPopoverViews(); }, 100);
+function callBasesFunction(expression: Extract<BasesExpression, { kind: 'call' }>, env: BasesFilterEnvironment): unknown {
+	const args = expression.args.map(arg => evaluateBasesExpression(arg, env));
+	const { callee } = expression;
+
+	// Global functions
+	if (callee.kind === 'identifier') {
+		switch (callee.name) {
+			case 'link': return String(args[0] ?? '');
+			case 'date': {
+				const date = parsePropertyDate(args[0]);
+				return date ? date.valueOf() : null;
 			}
-		});
+			case 'today': return moment().startOf('day').valueOf();
+			case 'now': return Date.now();
+			case 'number': return parsePropertyNumber(args[0]);
+			case 'list': return Array.isArray(args[0]) ? args[0] : [args[0]];
+		}
+		throw new Error(`Function "${callee.name}()" is not supported in Virtual Content rules`);
+	}
+	if (callee.kind !== 'member') throw new Error('Only functions and methods can be called');
 
-		const handleSectionCollapseClick = (event: MouseEvent) => {
-			const target = event.target as HTMLElement;
-			const collapseIndicator = target.closest('.heading-collapse-indicator, .cm-fold-indicator, .collapse-indicator');
-			const sectionHeaderTarget = collapseIndicator ? this.getConfiguredSectionHeaderCollapseTarget(collapseIndicator) : null;
-			if (
-				collapseIndicator?.closest('.markdown-preview-view') &&
-				sectionHeaderTarget
-			) {
-				window.setTimeout(() => {
-					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-					if (activeView) {
-						void this.refreshSectionHeaderContent(activeView, true, sectionHeaderTarget);
-					}
-				}, 150);
-			}
-		};
-		activeDocument.addEventListener('click', handleSectionCollapseClick, true);
-		this.register(() => activeDocument.removeEventListener('click', handleSectionCollapseClick, true));
+	const object = evaluateBasesExpression(callee.object, env);
 
-		this.registerDomEvent(activeDocument, 'scroll', (event: Event) => {
-			const target = event.target as HTMLElement;
-			if (!target.closest?.('.markdown-preview-view')) {
-				return;
+	// Methods of the file being matched
+	if (object === BASES_FILE_REFERENCE) {
+		switch (callee.name) {
+			case 'inFolder': {
+				const folder = String(args[0] ?? '').replace(/^\/+|\/+$/g, '');
+				return folder === '' || env.file.path.startsWith(folder + '/');
 			}
-			if (this.sectionHeaderScrollRefreshTimeout !== null) {
-				window.clearTimeout(this.sectionHeaderScrollRefreshTimeout);
-			}
-			this.sectionHeaderScrollRefreshTimeout = window.setTimeout(() => {
-				this.sectionHeaderScrollRefreshTimeout = null;
-				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (activeView) {
-					void this.refreshSectionHeaderContent(activeView, false);
-				}
-			}, 250);
-		}, true);
-
-		// Listen for clicks to detect when popovers might switch to editing mode
-		this.registerDomEvent(activeDocument, 'click', (event: MouseEvent) => {
-			const target = event.target as HTMLElement;
-			// Check if the click is within a popover
-			const popover = target.closest('.popover.hover-popover');
-			if (popover) {
-				//console.log("VirtualContent: Click detected in popover, checking for mode change");
-				// Delay to allow any mode changes to complete
-				window.setTimeout(() => { void this.processPopoverViews(); }, 150);
-			}
-		});
-
-		// Also listen for DOM mutations to catch dynamically created popovers
-		this.popoverObserver = new MutationObserver((mutations) => {
-			for (const mutation of mutations) {
-				if (mutation.type === 'childList') {
-					mutation.addedNodes.forEach(node => {
-						if (node.instanceOf(HTMLElement)) {
-							// Check if a popover was added
-							if (node.classList.contains('popover') && node.classList.contains('hover-popover')) {
-								//console.log("VirtualContent: Popover created, processing views");
-								// Small delay to ensure the popover content is fully loaded
-								window.setTimeout(() => { void this.processPopoverViews(); }, 50);
-							}
-							// Also check for popovers added within other elements
-							const popovers = node.querySelectorAll('.popover.hover-popover');
-							if (popovers.length > 0) {
-								//console.log("VirtualContent: Popover(s) found in added content, processing views");
-								window.setTimeout(() => { void this.processPopoverViews(); }, 50);
-							}
-						}
+			case 'hasTag':
+				return args.some(arg => {
+					const tag = String(arg).replace(/^#/, '').toLowerCase();
+					return env.tags.some(fileTag => {
+						const normalized = fileTag.replace(/^#/, '').toLowerCase();
+						return normalized === tag || normalized.startsWith(tag + '/');
 					});
-				}
-				// Listen for attribute changes that might indicate mode switching in popovers
-				if (mutation.type === 'attributes' && mutation.target.instanceOf(HTMLElement)) {
-					const target = mutation.target;
-					// Check if this is a popover that gained or lost the is-editing class
-					if (target.classList.contains('popover') && target.classList.contains('hover-popover')) {
-						if (mutation.attributeName === 'class') {
-							//console.log(`VirtualContent: Popover mode changed, is-editing: ${target.classList.contains('is-editing')}`);
-							//setTimeout(() => {this.processPopoverViews();}, 100); // Slightly longer delay for mode changes
-						}
-					}
-				}
+				});
+			case 'hasLink': {
+				const target = env.resolveLink(String(args[0] ?? ''));
+				return target !== null && env.links.includes(target.path);
 			}
-		});
-
-		// Observe the entire document for popover creation
-		if (this.popoverObserver) {
-			this.popoverObserver.observe(activeDocument.body, {
-				childList: true,
-				subtree: true
-			});
+			case 'hasProperty':
+				return env.frontmatter !== undefined && Object.prototype.hasOwnProperty.call(env.frontmatter, String(args[0]));
 		}
+		throw new Error(`"file.${callee.name}()" is not supported in Virtual Content rules`);
+	}
 
-		if (this.settings.enableCanvasRendering) {
-			// Observe the document for canvas node updates
-			this.canvasObserver = new MutationObserver((mutations) => {
-				for (const mutation of mutations) {
-					if (mutation.type === 'childList') {
-						const addedOrRemovedNodes = [...mutation.addedNodes, ...mutation.removedNodes];
-						const hasCanvasNodeChange = addedOrRemovedNodes.some((node) => {
-							return node.instanceOf(HTMLElement) && (node.classList.contains('canvas-node') || node.querySelector('.canvas-node'));
-						});
-						if (hasCanvasNodeChange) {
-							this.queueCanvasEmbedRefresh();
-						}
-					}
-					if (mutation.type === 'attributes' && mutation.target.instanceOf(HTMLElement)) {
-						const target = mutation.target;
-						if (target.classList.contains('canvas-node')) {
-							this.queueCanvasEmbedRefresh();
-						}
-					}
-				}
-			});
+	// Methods of strings and lists
+	const values = Array.isArray(object) ? object : null;
+	const text = object === null || object === undefined ? '' : String(object);
+	switch (callee.name) {
+		case 'contains':
+			return values ? values.some(value => basesValuesEqual(value, args[0])) : text.includes(String(args[0] ?? ''));
+		case 'containsAll':
+			return args.every(arg => values ? values.some(value => basesValuesEqual(value, arg)) : text.includes(String(arg)));
+		case 'containsAny':
+			return args.some(arg => values ? values.some(value => basesValuesEqual(value, arg)) : text.includes(String(arg)));
+		case 'startsWith':
+			return text.startsWith(String(args[0] ?? ''));
+		case 'endsWith':
+			return text.endsWith(String(args[0] ?? ''));
+		case 'isEmpty':
+			return values ? values.length === 0 : text === '';
+		case 'lower':
+			return text.toLowerCase();
+		case 'trim':
+			return text.trim();
+		case 'toString':
+			return text;
+	}
+	throw new Error(`Method "${callee.name}()" is not supported in Virtual Content rules`);
+}
 
-			if (this.canvasObserver) {
-				this.canvasObserver.observe(activeDocument.body, {
-					childList: true,
-					subtree: true,
-					attributes: true,
-					attributeFilter: ['class', 'data-path', 'data-href', 'data-src', 'src']
-				});
-			}
+/**
+ * Adds or subtracts numbers, or a duration such as "7d" or "2 weeks" to or from a date.
+ * Dates are represented as millisecond timestamps.
+ */
+function addBasesValues(left: unknown, right: unknown, sign: 1 | -1): number {
+	const leftNumber = parsePropertyNumber(left) ?? parsePropertyDate(left)?.valueOf() ?? null;
+	if (leftNumber === null) throw new Error(`Cannot add to ${String(left)}`);
+	const rightNumber = parsePropertyNumber(right);
+	if (rightNumber !== null) return leftNumber + sign * rightNumber;
+
+	const durationMatch = typeof right === 'string' ? /^\s*(\d+)\s*([a-zA-Z]+)\s*$/.exec(right) : null;
+	const duration = durationMatch
+		? moment.duration(Number(durationMatch[1]), durationMatch[2] as moment.unitOfTime.DurationConstructor)
+		: null;
+	if (!duration || !duration.isValid() || duration.asMilliseconds() === 0) throw new Error(`Invalid duration ${String(right)}`);
+	return leftNumber + sign * duration.asMilliseconds();
+}
 
-			this.canvasInteractionHandler = (event: Event) => {
-				const target = event.target as HTMLElement | null;
-				if (target?.closest?.('.canvas')) {
-					this.queueCanvasEmbedRefresh();
-				}
-			};
-			this.registerDomEvent(activeDocument, 'wheel', this.canvasInteractionHandler, true);
-			this.registerDomEvent(activeDocument, 'pointerup', this.canvasInteractionHandler, true);
-		}
+function isBasesValueTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return Boolean(value);
+}
 
-		// Initial processing for any currently active view, once layout is ready
-		this.app.workspace.onLayoutReady(() => {
-			if (!this.initialLayoutReadyProcessed) {
-				this.handleActiveViewChange(); // Process the initially open view
-				this.initialLayoutReadyProcessed = true;
-			}
-		});
+/** Reduces a link such as "[[Note|Alias]]" to its target so links compare equal to plain names. */
+function normalizeBasesText(value: unknown): string {
+	const text = String(value).trim();
+	const linkMatch = /^\[\[([^\]|#]+)[^\]]*\]\]$/.exec(text);
+	return linkMatch ? linkMatch[1].trim() : text;
+}
+
+function basesValuesEqual(left: unknown, right: unknown): boolean {
+	if (left === null || left === undefined || right === null || right === undefined) {
+		return (left ?? null) === (right ?? null);
 	}
+	if (typeof left === 'boolean' || typeof right === 'boolean') return String(left) === String(right);
+	if (typeof left === 'number' || typeof right === 'number') return compareBasesValues(left, right) === 0;
+	return normalizeBasesText(left) === normalizeBasesText(right);
+}
 
-	/**
-	 * Called when the plugin is unloaded.
-	 * Cleans up all injected content and observers.
-	 */
-	onunload() {
-		this.popoverObserver?.disconnect();
-		this.canvasObserver?.disconnect();
-		this.clearAllViewsDynamicContent();
+/**
+ * Compares two values as numbers, or as dates when one side is a date string.
+ * @returns A negative, zero or positive number, or null if the values cannot be ordered.
+ */
+function compareBasesValues(left: unknown, right: unknown): number | null {
+	const leftNumber = parsePropertyNumber(left);
+	const rightNumber = parsePropertyNumber(right);
+	if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
 
-		// Clean up any remaining DOM elements and components directly
-		const activeDocument = this.getActiveDocument();
-		activeDocument.querySelectorAll(`.${CSS_DYNAMIC_CONTENT_ELEMENT}`).forEach(el => {
-			const componentHolder = el as HTMLElementWithComponent;
-			if (componentHolder.component) {
-				componentHolder.component.unload();
-			}
-			el.remove();
-		});
+	const leftDate = typeof left === 'number' ? left : parsePropertyDate(left)?.valueOf();
+	const rightDate = typeof right === 'number' ? right : parsePropertyDate(right)?.valueOf();
+	if (leftDate !== undefined && rightDate !== undefined) return leftDate - rightDate;
 
-		// Remove custom CSS classes applied for styling
-		activeDocument.querySelectorAll(`.${CSS_VIRTUAL_FOOTER_CM_PADDING}`).forEach(el => el.classList.remove(CSS_VIRTUAL_FOOTER_CM_PADDING));
-		activeDocument.querySelectorAll(`.${CSS_VIRTUAL_FOOTER_REMOVE_FLEX}`).forEach(el => el.classList.remove(CSS_VIRTUAL_FOOTER_REMOVE_FLEX));
+	if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right);
+	return null;
+}
 
-		// WeakMaps will be garbage collected, but explicit clearing is good practice if needed.
-		// Observers and pending injections are cleared per-view in `removeDynamicContentFromView`.
-		this.previewObservers = new WeakMap();
-		this.pendingPreviewInjections = new WeakMap();
-		this.embedObservers = new WeakMap();
-		this.embedRefreshTimeouts = new WeakMap();
-		if (this.canvasRefreshTimeout !== null) {
-			window.clearTimeout(this.canvasRefreshTimeout);
-		}
-		this.canvasRefreshTimeout = null;
-		this.canvasRefreshInProgress = false;
-		this.canvasInteractionHandler = null;
+// --- Utility Classes ---
+
+/**
+ * A suggestion provider for input fields, offering autocompletion from a given set of strings.
+ */
+export class MultiSuggest extends AbstractInputSuggest<string> {
+	/**
+	 * Creates an instance of MultiSuggest.
+	 * @param inputEl The HTML input element to attach the suggester to.
+	 * @param content The set of strings to use as suggestions.
+	 * @param onSelectCb Callback function executed when a suggestion is selected.
+	 * @param app The Obsidian App instance.
+	 */
+	constructor(
+		private inputEl: HTMLInputElement,
+		private content: Set<string>,
+		private onSelectCb: (value: string) => void,
+		app: App
+	) {
+		super(app, inputEl);
 	}
 
 	/**
-	 * Handles changes to the active Markdown view, triggering content processing.
+	 * Filters the content set to find suggestions matching the input string.
+	 * @param inputStr The current string in the input field.
+	 * @returns An array of matching suggestion strings.
 	 */
-	private handleActiveViewChange = () => {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView?.file) {
-			void this._processView(activeView);
-			return;
-		}
-		void this.processNonMarkdownActiveFile();
+	getSuggestions(inputStr: string): string[] {
+		const lowerCaseInputStr = inputStr.toLocaleLowerCase();
+		return [...this.content].filter((contentItem) =>
+			contentItem.toLocaleLowerCase().includes(lowerCaseInputStr)
+		);
 	}
 
 	/**
-	 * Checks if a MarkdownView is displayed within a popover (hover preview).
-	 * @param view The MarkdownView to check.
-	 * @returns True if the view is in a popover, false otherwise.
+	 * Renders a single suggestion item in the suggestion list.
+	 * @param content The suggestion string to render.
+	 * @param el The HTMLElement to render the suggestion into.
 	 */
-	private isInPopover(view: MarkdownView): boolean {
-		// Check if the view's container element is within a popover
-		let element: HTMLElement | null = view.containerEl;
-		
-		// Debug: Log the container element and its classes
-		//console.log("VirtualContent: Checking popover for view container:", view.containerEl.className);
-		
-		while (element) {
-			// Check for popover classes
-			if (element.classList.contains('popover') && element.classList.contains('hover-popover')) {
-				//console.log("VirtualContent: Found popover via direct popover classes");
-				return true;
-			}
-			// Also check for markdown-embed class which indicates an embedded view (often in popovers)
-			if (element.classList.contains('markdown-embed')) {
-				// console.log("VirtualContent: Found markdown-embed, checking for parent popover");
-				// If it's a markdown-embed, check if it's inside a popover
-				let parent = element.parentElement;
-				while (parent) {
-					if (parent.classList.contains('popover') && parent.classList.contains('hover-popover')) {
-						// console.log("VirtualContent: Found popover via markdown-embed parent");
-						return true;
-					}
-					parent = parent.parentElement;
-				}
-			}
-			element = element.parentElement;
-		}
-		//console.log("VirtualContent: Not a popover view");
-		return false;
+	renderSuggestion(content: string, el: HTMLElement): void {
+		el.setText(content);
 	}
 
 	/**
-	 * Processes any popover views that might be open but haven't been processed yet.
+	 * Handles the selection of a suggestion.
+	 * @param content The selected suggestion string.
+	 * @param _evt The mouse or keyboard event that triggered the selection.
 	 */
-	private processPopoverViews(): void {
-		// Find all popover elements in the DOM
-		const activeDocument = this.getActiveDocument();
-		const popovers = activeDocument.querySelectorAll('.popover.hover-popover');
-		
-		popovers.forEach(popover => {
-			// Look for markdown views within each popover
-			const markdownEmbed = popover.querySelector('.markdown-embed');
-			if (markdownEmbed) {
-				//console.log("VirtualContent: Found markdown-embed in popover, processing directly");
-				// Process the popover content directly
-				this.processPopoverDirectly(popover as HTMLElement);
-			}
-		});
+	selectSuggestion(content: string, _evt: MouseEvent | KeyboardEvent): void {
+		this.onSelectCb(content);
+		this.inputEl.value = content; // Update input field with selected value
+		this.inputEl.blur(); // Remove focus from input
+		this.close(); // Close the suggestion popover
 	}
+}
 
-	private queueEmbedRefresh(view: MarkdownView): void {
-		if (!this.settings.enableEmbedRendering) {
-			return;
-		}
-		const existingTimeout = this.embedRefreshTimeouts.get(view);
-		if (existingTimeout) {
-			window.clearTimeout(existingTimeout);
-		}
-		const currentPath = view.file?.path;
-		if (currentPath) {
-			const lastScan = this.embedLastScanByView.get(view);
-			if (lastScan && lastScan.filePath === currentPath && Date.now() - lastScan.time < 750) {
-				return;
+/**
+ * An enabled rule prepared for matching.
+ */
+interface CompiledRule {
+	rule: Rule;
+	/** The rule's position in the settings. */
+	index: number;
+	/** Whether the rule's result for a file only changes when the file itself, the vault's files or the rules change. */
+	cacheable: boolean;
+	/** Whether evaluating the rule needs the note body to be read. */
+	needsBodyText: boolean;
+}
+
+/**
+ * The enabled rules, bucketed by the folder, tag or property a file must have for them to apply,
+ * so that matching a file only evaluates the rules that could apply to it.
+ * Rules that cannot be bucketed, such as negated or multi-condition rules, are evaluated for every file.
+ * Also caches which cacheable rules matched each file until the file or the vault changes.
+ */
+class CompiledRuleIndex {
+	/** Whether any rule needs the file's tags. */
+	readonly needsTags: boolean;
+	private unbucketed: CompiledRule[] = [];
+	private byFolder: Map<string, CompiledRule[]> = new Map();
+	private byTag: Map<string, CompiledRule[]> = new Map();
+	private byProperty: Map<string, CompiledRule[]> = new Map();
+	private matchCache: Map<string, CompiledRule[]> = new Map();
+
+	constructor(rules: Rule[]) {
+		const enabledRules = rules
+			.map((rule, index) => ({ rule, index }))
+			.filter(({ rule }) => rule.enabled);
+
+		this.needsTags = enabledRules.some(({ rule }) => ruleHasCondition(rule, condition => condition.type === 'tag'));
+
+		for (const { rule, index } of enabledRules) {
+			const compiled: CompiledRule = {
+				rule,
+				index,
+				cacheable: CompiledRuleIndex.isCacheable(rule),
+				needsBodyText: ruleHasCondition(rule, condition =>
+					condition.type === 'content' && BODY_CONTENT_CHECKS.has(condition.contentCheck || 'has-heading')),
+			};
+
+			if (rule.negated) {
+				this.unbucketed.push(compiled);
+			} else if (rule.type === RuleType.Folder && (rule.pathMatchMode || 'folder') === 'folder' && rule.path) {
+				// Rules for "/" apply to the root folder, which has the key ''
+				const folderKey = rule.path === '/' ? '' : rule.path.replace(/\/$/, '');
+				CompiledRuleIndex.addToBucket(this.byFolder, folderKey, compiled);
+			} else if (rule.type === RuleType.Tag && rule.tag) {
+				CompiledRuleIndex.addToBucket(this.byTag, rule.tag, compiled);
+			} else if (rule.type === RuleType.Property && rule.propertyName && rule.propertyOperator !== 'not-equals') {
+				CompiledRuleIndex.addToBucket(this.byProperty, rule.propertyName, compiled);
+			} else {
+				this.unbucketed.push(compiled);
 			}
 		}
-		const timeout = window.setTimeout(() => {
-			this.embedRefreshTimeouts.delete(view);
-			void this.processEmbedsInView(view);
-		}, 250);
-		this.embedRefreshTimeouts.set(view, timeout);
 	}
 
-	private queueCanvasEmbedRefresh(): void {
-		if (!this.settings.enableCanvasRendering) {
-			return;
-		}
-		if (!this.isCanvasActive()) {
-			return;
+	/**
+	 * Gets the rules that could apply to a file, in rule order.
+	 * @param file The file being matched.
+	 * @param fileTags The file's tags (without '#'), or null if no rule needs them.
+	 * @param frontmatter The file's frontmatter, if any.
+	 * @returns The candidate rules.
+	 */
+	getCandidates(file: TFile, fileTags: string[] | null, frontmatter: Record<string, unknown> | undefined): CompiledRule[] {
+		const candidates = new Set<CompiledRule>(this.unbucketed);
+		const addAll = (bucket: CompiledRule[] | undefined) => bucket?.forEach(compiled => candidates.add(compiled));
+
+		// Folder rules apply to files in the folder or any of its subfolders
+		for (let folder = file.parent; folder; folder = folder.parent) {
+			addAll(this.byFolder.get(folder.isRoot() ? '' : folder.path));
+		}
+		// Tag rules apply to files with the tag or one of its subtags
+		for (const tag of fileTags ?? []) {
+			const segments = tag.split('/');
+			for (let length = 1; length <= segments.length; length++) {
+				addAll(this.byTag.get(segments.slice(0, length).join('/')));
+			}
 		}
-		if (this.canvasRefreshTimeout !== null) {
-			return;
+		// Property rules apply to files that have the property
+		for (const propertyName of Object.keys(frontmatter ?? {})) {
+			addAll(this.byProperty.get(propertyName));
 		}
-		this.canvasRefreshTimeout = window.setTimeout(() => {
-			this.canvasRefreshTimeout = null;
-			if (this.canvasRefreshInProgress) {
-				return;
-			}
-			this.canvasRefreshInProgress = true;
-			void this.processCanvasEmbeds().then(() => {
-				this.canvasRefreshInProgress = false;
-			}, () => {
-				this.canvasRefreshInProgress = false;
-			});
-		}, 250);
+
+		return Array.from(candidates).sort((a, b) => a.index - b.index);
 	}
 
-	private ensureEmbedObserver(view: MarkdownView): void {
-		if (!this.settings.enableEmbedRendering) {
-			return;
-		}
-		if (this.embedObservers.has(view)) {
-			return;
-		}
-		const observer = new MutationObserver((_mutations) => {
-			this.queueEmbedRefresh(view);
-		});
-		observer.observe(view.containerEl, { childList: true, subtree: true });
-		this.embedObservers.set(view, observer);
+	getCachedMatches(filePath: string): CompiledRule[] | undefined {
+		return this.matchCache.get(filePath);
 	}
 
-	private isEmbedInCanvas(embed: HTMLElement): boolean {
-		return !!embed.closest('.canvas, .canvas-node, .canvas-node-container, .canvas-node-content');
+	setCachedMatches(filePath: string, matches: CompiledRule[]): void {
+		this.matchCache.set(filePath, matches);
 	}
 
-	private extractEmbedFilePath(embed: HTMLElement): string | null {
-		const canvasNode = embed.closest('.canvas-node');
-		if (canvasNode) {
-			const canvasPath = this.extractCanvasNodePath(canvasNode as HTMLElement);
-			if (canvasPath) {
-				this.logEmbedCanvasDebug('Canvas node path resolved', {
-					canvasPath
-				});
-				return canvasPath;
-			}
+	invalidateFile(filePath: string): void {
+		this.matchCache.delete(filePath);
+	}
+
+	invalidateAll(): void {
+		this.matchCache.clear();
+	}
+
+	/**
+	 * Checks whether a rule's result only depends on the file and the vault's files, and not on
+	 * the current time, other notes' links, or external query engines.
+	 */
+	private static isCacheable(rule: Rule): boolean {
+		if (rule.type === RuleType.Dataview || rule.type === RuleType.Datacore || rule.type === RuleType.Bases) {
+			return false;
 		}
+		return !ruleHasCondition(rule, condition =>
+			condition.type === 'file-date'
+			|| condition.type === 'links'
+			|| (condition.type === 'property' && (condition.propertyOperator || 'equals').startsWith('date-')));
+	}
 
-		const embedContainer = embed.closest<HTMLElement>('.markdown-embed');
-		const scopedContainer = embedContainer || embed;
-		const embedLink = scopedContainer.querySelector<HTMLAnchorElement>('.markdown-embed-link a.internal-link[data-href]');
-		const embedLinkHref = embedLink?.dataset?.href;
-		const rawCandidates = [
-			scopedContainer.getAttribute('data-path'),
-			scopedContainer.getAttribute('data-src'),
-			scopedContainer.getAttribute('src'),
-			scopedContainer.getAttribute('data-href'),
-			scopedContainer.dataset?.path,
-			scopedContainer.dataset?.src,
-			scopedContainer.dataset?.href,
-			embedLinkHref,
-		];
-		const resolved = this.resolveFirstPathCandidate(rawCandidates);
-		if (!resolved) {
-			this.logEmbedCanvasDebug('Embed candidates not resolved', {
-				embedClass: scopedContainer.className,
-				candidates: rawCandidates.filter(Boolean)
-			});
+	private static addToBucket(buckets: Map<string, CompiledRule[]>, key: string, compiled: CompiledRule): void {
+		const bucket = buckets.get(key);
+		if (bucket) {
+			bucket.push(compiled);
+		} else {
+			buckets.set(key, [compiled]);
 		}
-		return resolved;
 	}
+}
 
-	private extractCanvasNodePath(canvasNode: HTMLElement): string | null {
-		const rawCandidates = [
-			canvasNode.getAttribute('data-path'),
-			canvasNode.getAttribute('data-href'),
-			canvasNode.getAttribute('data-src'),
-			canvasNode.getAttribute('data-file'),
-			canvasNode.getAttribute('data-file-path'),
-			canvasNode.getAttribute('data-filepath'),
-			canvasNode.dataset?.path,
-			canvasNode.dataset?.href,
-			canvasNode.dataset?.src,
-			canvasNode.dataset?.file,
-			canvasNode.dataset?.filePath,
-			canvasNode.dataset?.filepath,
-		];
+/**
+ * A suggestion provider for content file paths. Suggests Markdown files, and once a path is followed
+ * by '#', the headings and block IDs in that file.
+ */
+class ContentFileSuggest extends AbstractInputSuggest<string> {
+	/**
+	 * Creates an instance of ContentFileSuggest.
+	 * @param inputEl The HTML input element to attach the suggester to.
+	 * @param plugin The plugin instance, used to resolve content files.
+	 * @param filePaths The Markdown file paths to suggest.
+	 * @param onSelectCb Callback function executed when a suggestion is selected.
+	 */
+	constructor(
+		private inputEl: HTMLInputElement,
+		private plugin: VirtualFooterPlugin,
+		private filePaths: Set<string>,
+		private onSelectCb: (value: string) => void
+	) {
+		super(plugin.app, inputEl);
+	}
 
-		const linkCandidate = canvasNode.querySelector<HTMLAnchorElement>('.canvas-node-title a.internal-link[data-href]');
-		if (linkCandidate?.dataset?.href) {
-			rawCandidates.push(linkCandidate.dataset.href);
+	getSuggestions(inputStr: string): string[] {
+		const hashIndex = inputStr.indexOf('#');
+		if (hashIndex < 0) {
+			const lowerCaseInputStr = inputStr.toLocaleLowerCase();
+			return [...this.filePaths].filter(path => path.toLocaleLowerCase().includes(lowerCaseInputStr));
 		}
 
-		const titleEl = canvasNode.querySelector<HTMLElement>('.canvas-node-title, .canvas-node-header, .canvas-node-label');
-		const titleText = titleEl?.textContent?.trim();
-		if (titleText) {
-			rawCandidates.push(titleText);
-		}
+		const filePath = inputStr.slice(0, hashIndex);
+		const lowerCaseReference = inputStr.slice(hashIndex + 1).toLocaleLowerCase();
+		const { file } = this.plugin.resolveContentFile(filePath);
+		const fileCache = file ? this.plugin.app.metadataCache.getFileCache(file) : null;
+		if (!fileCache) return [];
 
-		const resolved = this.resolveFirstPathCandidate(rawCandidates);
-		if (!resolved) {
-			const attrDump: Record<string, string> = {};
-			Array.from(canvasNode.attributes).forEach(attr => {
-				attrDump[attr.name] = attr.value;
-			});
-			this.logEmbedCanvasDebug('Canvas node path not resolved', {
-				canvasNodeClass: canvasNode.className,
-				attributes: attrDump,
-				candidates: rawCandidates.filter(Boolean)
-			});
+		const references = [
+			...(fileCache.headings ?? []).map(heading => heading.heading),
+			...Object.keys(fileCache.blocks ?? {}).map(id => `^${id}`),
+		];
+		return references
+			.filter(reference => reference.toLocaleLowerCase().includes(lowerCaseReference))
+			.map(reference => `${filePath}#${reference}`);
+	}
+
+	renderSuggestion(content: string, el: HTMLElement): void {
+		el.setText(content);
+	}
+
+	selectSuggestion(content: string, _evt: MouseEvent | KeyboardEvent): void {
+		this.onSelectCb(content);
+		this.inputEl.value = content;
+		// Keep focus after choosing a file, so a heading or block can be added
+		if (content.includes('#')) {
+			this.inputEl.blur();
 		}
-		return resolved;
+		this.close();
 	}
+}
 
-	private extractPathFromElement(element: HTMLElement): string | null {
-		const rawCandidates = [
-			element.getAttribute('data-path'),
-			element.getAttribute('data-href'),
-			element.getAttribute('data-src'),
-			element.getAttribute('src'),
-			element.dataset?.path,
-			element.dataset?.href,
-			element.dataset?.src,
-		];
+// --- Sidebar View Class ---
 
-		return this.resolveFirstPathCandidate(rawCandidates);
+export class VirtualContentView extends ItemView {
+	plugin: VirtualFooterPlugin;
+	viewContent: HTMLElement | null = null;
+	component: Component = new Component();
+	private contentProvider: () => { content: string, sourcePath: string } | null;
+	private viewId: string;
+	private tabName: string;
+
+	constructor(leaf: WorkspaceLeaf, plugin: VirtualFooterPlugin, viewId: string, tabName: string, contentProvider: () => { content: string, sourcePath: string } | null) {
+		super(leaf);
+		this.plugin = plugin;
+		this.viewId = viewId;
+		this.tabName = tabName;
+		this.contentProvider = contentProvider;
 	}
 
-	private resolveFirstPathCandidate(rawCandidates: Array<string | null | undefined>): string | null {
-		for (const raw of rawCandidates) {
-			if (!raw) continue;
-			const cleaned = raw.split('#')[0].split('^')[0].trim();
-			if (!cleaned) continue;
-			const resolved = this.app.metadataCache.getFirstLinkpathDest(cleaned, '');
-			if (resolved) {
-				return resolved.path;
-			}
-			const abstractFile = this.app.vault.getAbstractFileByPath(cleaned);
-			if (abstractFile instanceof TFile) {
-				return abstractFile.path;
-			}
-		}
+	getViewType() {
+		return this.viewId;
+	}
 
-		return null;
+	getDisplayText() {
+		return this.tabName;
 	}
 
-	private findMetadataContainer(container: HTMLElement): HTMLElement | null {
-		return container.querySelector<HTMLElement>(`${SELECTOR_METADATA_CONTAINER}, .cm-obsidian-frontmatter`);
+	getIcon() {
+		return 'text-select';
 	}
 
-	private async processEmbedContainer(
-		container: HTMLElement,
-		filePath: string,
-		allowRule: (rule: Rule) => boolean,
-		context: 'embed' | 'canvas'
-	): Promise<void> {
-		container.dataset.sourcePath = filePath;
-		const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
-		const filteredRules = applicableRulesWithContent.filter(({ rule }) => allowRule(rule));
-		await this.removeInjectedContentDOM(container);
+	protected async onOpen(): Promise<void> {
+		this.component = new Component();
+		this.component.load();
 
-		if (filteredRules.length === 0) {
-			return;
-		}
+		const container = this.containerEl.children[1];
+		container.empty();
+		this.viewContent = container.createDiv({ cls: 'virtual-content-sidebar-view' });
+		this.update();
+	}
 
-		const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
-		const footerContentGroups: { normal: string[] } = { normal: [] };
-		const sectionHeaderRules: Array<{ rule: Rule; contentText: string; index: number }> = [];
-		const contentSeparator = "\n\n";
 
-		for (const { rule, contentText, index } of filteredRules) {
-			if (!contentText || contentText.trim() === "") continue;
 
-			if (rule.renderLocation === RenderLocation.Header) {
-				if (rule.renderAboveProperties) {
-					headerContentGroups.aboveProperties.push(contentText);
-				} else {
-					headerContentGroups.normal.push(contentText);
-				}
-			} else if (rule.renderLocation === RenderLocation.Footer) {
-				footerContentGroups.normal.push(contentText);
-			} else if (rule.renderLocation === RenderLocation.SectionHeader) {
-				sectionHeaderRules.push({ rule, contentText, index });
-			}
-			// Skip sidebar rules for embeds
-		}
+	protected async onClose(): Promise<void> {
+		this.component.unload();
+	}
 
-		if (headerContentGroups.normal.length > 0) {
-			const combinedContent = headerContentGroups.normal.join(contentSeparator);
-			await this.injectContentIntoPopoverSection(container, combinedContent, 'header', false, filePath, context);
-		}
+	update() {
+		if (!this.viewContent) return;
 
-		if (headerContentGroups.aboveProperties.length > 0) {
-			const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
-			await this.injectContentIntoPopoverSection(container, combinedContent, 'header', true, filePath, context);
-		}
+		// Clean up previous content and component
+		this.viewContent.empty();
+		this.component.unload();
+		this.component = new Component();
+		this.component.load();
 
-		if (footerContentGroups.normal.length > 0) {
-			const combinedContent = footerContentGroups.normal.join(contentSeparator);
-			await this.injectContentIntoPopoverSection(container, combinedContent, 'footer', false, filePath, context);
+		const data = this.contentProvider();
+		if (data && data.content && data.content.trim() !== '') {
+			void MarkdownRenderer.render(this.app, data.content, this.viewContent, data.sourcePath, this.component);
+			this.plugin.attachInternalLinkHandlers(this.viewContent, data.sourcePath, this.component);
+		} else {
+			this.viewContent.createEl('p', {
+				text: 'No virtual content to display for the current note.',
+				cls: 'virtual-content-sidebar-empty'
+			});
 		}
+	}
+}
 
-		for (const { rule, contentText, index } of sectionHeaderRules) {
-			await this.injectContentIntoPopoverSectionHeader(container, contentText, rule, index, filePath);
-		}
+/**
+ * Sidebar view that explains, for the active note, why each rule does or doesn't apply.
+ */
+export class RuleExplainerView extends ItemView {
+	plugin: VirtualFooterPlugin;
+	/** The note the view currently explains. */
+	private filePath: string | null = null;
+	/** Incremented on each update, so that the results of an outdated evaluation are discarded. */
+	private updateGeneration = 0;
+
+	constructor(leaf: WorkspaceLeaf, plugin: VirtualFooterPlugin) {
+		super(leaf);
+		this.plugin = plugin;
 	}
 
-	private async processEmbedsInView(view: MarkdownView): Promise<void> {
-		if (!this.settings.enableEmbedRendering) {
-			return;
-		}
-		const embeds = Array.from(view.containerEl.querySelectorAll<HTMLElement>('.markdown-embed'));
-		this.logEmbedCanvasDebug('Embed scan in view', {
-			viewPath: view.file?.path,
-			embedCount: embeds.length
-		});
-		for (const embed of embeds) {
-			if (embed.closest('.popover.hover-popover')) {
-				continue;
-			}
-			if (this.isEmbedInCanvas(embed)) {
-				continue;
-			}
-			const filePath = this.extractEmbedFilePath(embed);
-			if (!filePath) {
-				this.logEmbedCanvasDebug('Embed path not resolved', {
-					embedClass: embed.className
-				});
-				continue;
-			}
-			await this.processEmbedContainer(embed, filePath, (rule) => rule.showInEmbed !== false, 'embed');
-		}
-		if (view.file?.path) {
-			this.embedLastScanByView.set(view, { filePath: view.file.path, time: Date.now() });
-		}
+	getViewType() {
+		return RULE_EXPLAINER_VIEW_TYPE;
 	}
 
-	private getCanvasNodes(): HTMLElement[] {
-		const activeDocument = this.getActiveDocument();
-		const canvasRoot = activeDocument.querySelector('.canvas');
-		const scopedNodes = canvasRoot ? Array.from(canvasRoot.querySelectorAll<HTMLElement>('.canvas-node')) : [];
-		if (scopedNodes.length > 0) {
-			return scopedNodes;
-		}
-		return Array.from(activeDocument.querySelectorAll<HTMLElement>('.canvas-node'));
+	getDisplayText() {
+		return 'Rule explainer';
 	}
 
-	private isCanvasActive(): boolean {
-		return !!this.getActiveDocument().querySelector('.workspace-leaf.mod-active .canvas, .workspace-leaf.mod-active .canvas-wrapper');
+	getIcon() {
+		return 'list-checks';
 	}
 
-	private async processCanvasEmbeds(): Promise<void> {
-		if (!this.settings.enableCanvasRendering) {
+	protected async onOpen(): Promise<void> {
+		this.addAction('refresh-cw', 'Refresh', () => void this.update());
+		this.registerEvent(this.app.workspace.on('file-open', () => void this.update()));
+		this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+			if (file.path === this.filePath) {
+				void this.update();
+			}
+		}));
+		await this.update();
+	}
+
+	async update(): Promise<void> {
+		const generation = ++this.updateGeneration;
+		const container = this.containerEl.children[1] as HTMLElement;
+		const file = this.app.workspace.getActiveFile();
+		this.filePath = file?.path ?? null;
+		if (!file) {
+			container.empty();
+			container.createEl('p', {
+				text: 'Open a note to see which rules apply to it.',
+				cls: 'virtual-content-sidebar-empty'
+			});
 			return;
 		}
-		if (!this.isCanvasActive()) {
+
+		const explanations = await this.plugin.explainRules(file);
+		if (generation !== this.updateGeneration) {
 			return;
 		}
-		const activeDocument = this.getActiveDocument();
-		const canvasRoot = activeDocument.querySelector('.canvas');
-		if (!canvasRoot) {
-			return;
+		container.empty();
+		const viewEl = container.createDiv({ cls: 'virtual-content-rule-explainer' });
+		viewEl.createEl('p', { text: `Rules for ${file.path}`, cls: 'virtual-content-explainer-file' });
+
+		const markdownView = this.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path);
+		const viewState = markdownView?.getState();
+		if (viewState?.mode === 'source' && viewState.source && !this.plugin.settings.renderInSourceMode) {
+			viewEl.createEl('p', {
+				text: 'The note is open in source mode, where virtual content is only shown if "Render in source mode" is enabled.',
+				cls: 'virtual-content-explainer-note'
+			});
 		}
-		const canvasNodes = this.getCanvasNodes();
-		this.logEmbedCanvasDebug('Canvas embed scan', {
-			nodeCount: canvasNodes.length
-		});
-		if (canvasNodes.length === 0) {
+		if (explanations.length === 0) {
+			viewEl.createEl('p', { text: 'There are no rules.', cls: 'virtual-content-sidebar-empty' });
+		}
+
+		for (const { rule, index, matched, steps, contentStatus, hiddenIn } of explanations) {
+			const ruleEl = viewEl.createDiv({ cls: 'virtual-content-explainer-rule' });
+			ruleEl.toggleClass('is-matched', matched);
+			const titleEl = ruleEl.createDiv({ cls: 'virtual-content-explainer-rule-title' });
+			titleEl.createSpan({ text: rule.name?.trim() || `Rule ${index + 1}` });
+			titleEl.createSpan({
+				text: !rule.enabled ? 'Disabled' : matched ? 'Applies' : 'Does not apply',
+				cls: 'virtual-content-explainer-status'
+			});
+			this.renderSteps(ruleEl, steps);
+			if (contentStatus) {
+				ruleEl.createEl('p', { text: contentStatus, cls: 'virtual-content-explainer-note' });
+			}
+			if (matched && hiddenIn.length > 0) {
+				ruleEl.createEl('p', { text: `Hidden in ${hiddenIn.join(', ')}.`, cls: 'virtual-content-explainer-note' });
+			}
+		}
+	}
+
+	private renderSteps(containerEl: HTMLElement, steps: MatchTraceStep[]): void {
+		if (steps.length === 0) {
 			return;
 		}
-		for (const node of canvasNodes) {
-			const embedContainer = node.querySelector<HTMLElement>('.canvas-node-content.markdown-embed, .canvas-node-content .markdown-embed');
-			if (!embedContainer) {
-				continue;
+		const listEl = containerEl.createEl('ul', { cls: 'virtual-content-explainer-steps' });
+		for (const step of steps) {
+			const itemEl = listEl.createEl('li');
+			itemEl.toggleClass('is-matched', step.matched);
+			itemEl.createSpan({ text: `${step.matched ? '✓' : '✗'} ${step.label}` });
+			if (step.detail) {
+				itemEl.createDiv({ text: step.detail, cls: 'virtual-content-explainer-note' });
 			}
-			if (node.classList.contains('is-editing') || embedContainer.querySelector('.cm-editor')) {
-				await this.removeInjectedContentDOM(embedContainer);
+			this.renderSteps(itemEl, step.children);
+		}
+	}
+}
+
+// --- Main Plugin Class ---
+
+/**
+ * VirtualFooterPlugin dynamically injects content into the header or footer of Markdown views
+ * based on configurable rules.
+ */
+export default class VirtualFooterPlugin extends Plugin {
+	settings: VirtualFooterSettings = DEFAULT_SETTINGS;
+	/** Stores pending content injections for preview mode, awaiting DOM availability. */
+	private pendingPreviewInjections: WeakMap<MarkdownView, { 
+		headerDiv?: HTMLElementWithComponent, 
+		footerDiv?: HTMLElementWithComponent,
+		headerAbovePropertiesDiv?: HTMLElementWithComponent,
+		footerAboveBacklinksDiv?: HTMLElementWithComponent,
+		filePath?: string
+	}> = new WeakMap();
+	/** Manages MutationObservers for views in preview mode to detect when injection targets are ready. */
+	private previewObservers: WeakMap<MarkdownView, MutationObserver> = new WeakMap();
+	private initialLayoutReadyProcessed = false;
+	private lastSidebarContent: { content: string, sourcePath: string } | null = null;
+	private lastSeparateTabContents: Map<string, { content: string, sourcePath: string }> = new Map();
+	/** View types registered for rules shown in separate sidebar tabs. */
+	private registeredSeparateViewIds = new Set<string>();
+	/** Paths of notes linked from at least one other note. Built from the resolved links on first use and dropped when links are re-resolved. */
+	private backlinkTargets: Set<string> | null = null;
+	/** Parsed `.base` files used by Bases rules, keyed by path. Entries are removed when the file changes. */
+	private baseConfigCache: Map<string, Promise<BasesConfigFile | null>> = new Map();
+	/** The file date rules that matched the last processed note, used to detect when they start or stop matching. */
+	private lastActiveMatchSignature: { filePath: string, signature: string } | null = null;
+	private lastHoveredLink: HTMLElement | null = null;
+	private popoverObserver: MutationObserver | null = null;
+	private canvasObserver: MutationObserver | null = null;
+	private sectionHeaderScrollRefreshTimeout: number | null = null;
+	private embedObservers: WeakMap<MarkdownView, MutationObserver> = new WeakMap();
+	private embedRefreshTimeouts: WeakMap<MarkdownView, number> = new WeakMap();
+	private embedLastScanByView: WeakMap<MarkdownView, { filePath: string; time: number }> = new WeakMap();
+	private footerPaddingObservers: WeakMap<MarkdownView, ResizeObserver> = new WeakMap();
+	private livePreviewFooterStyleApplied: WeakMap<MarkdownView, boolean> = new WeakMap();
+	private canvasRefreshTimeout: number | null = null;
+	private canvasRefreshInProgress = false;
+	private canvasInteractionHandler: ((event: Event) => void) | null = null;
+	/** The enabled rules compiled for matching. Rebuilt lazily after settings change. */
+	private ruleIndex: CompiledRuleIndex | null = null;
+	/** Contents of content files, keyed by path. Entries are removed when the file changes. */
+	private contentFileCache: Map<string, string> = new Map();
+	/** The paths of the notes showing content from each content file, keyed by the content file's path. */
+	private contentFileDependents: Map<string, Set<string>> = new Map();
+	/**
+	 * Like `contentFileDependents`, for notes showing a heading or block of the content file. Their content is sliced
+	 * at offsets from the metadata cache, so they are refreshed once the file has been re-parsed rather than when it is saved.
+	 */
+	private contentSectionDependents: Map<string, Set<string>> = new Map();
+	/** Notes waiting to be refreshed because a content file they show was modified. */
+	private pendingContentRefreshPaths: Set<string> = new Set();
+	private contentRefreshTimeout: number | null = null;
+	/** Whether the missing Templater plugin has been logged, so that it is reported once rather than on every render. */
+	private templaterMissingReported = false;
+	/**
+	 * Templater output per note path and rule, for the latest raw content only, so that edited content replaces
+	 * its old result. Cleared for a note when its metadata changes.
+	 */
+	private templaterResultCache: Map<string, Map<Rule, { content: string, result: Promise<string> }>> = new Map();
+	/** Result paths of Dataview queries, keyed by query (and origin file for queries that refer to it). Cleared when Dataview's index changes. */
+	private dataviewResultCache: Map<string, Promise<Set<string> | null>> = new Map();
+
+	private getActiveFileForVirtualContent(): TFile | null {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView) as { file?: unknown } | undefined;
+		if (activeView?.file instanceof TFile) {
+			return activeView.file;
+		}
+
+		const workspaceFile = this.app.workspace.getActiveFile();
+		return workspaceFile instanceof TFile ? workspaceFile : null;
+	}
+
+	private getActiveDocument(): Document {
+		return activeDocument;
+	}
+
+	private async processSidebarContentForFilePath(filePath: string): Promise<void> {
+		const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
+		const contentSeparator = "\n\n";
+		let combinedSidebarText = "";
+		this.lastSeparateTabContents.clear();
+
+		for (const { rule, contentText } of applicableRulesWithContent) {
+			if (!contentText || contentText.trim() === "" || rule.renderLocation !== RenderLocation.Sidebar) {
 				continue;
 			}
-			const filePath = this.extractCanvasNodePath(node);
-			if (!filePath) {
-				await this.removeInjectedContentDOM(embedContainer);
-				this.logEmbedCanvasDebug('Canvas embed path not resolved', {
-					embedClass: embedContainer.className
+
+			if (rule.showInSeparateTab) {
+				const viewId = this.getSeparateViewId(rule);
+				const existingContent = this.lastSeparateTabContents.get(viewId)?.content || "";
+				this.lastSeparateTabContents.set(viewId, {
+					content: (existingContent ? existingContent + contentSeparator : "") + contentText,
+					sourcePath: filePath
 				});
-				continue;
+			} else {
+				combinedSidebarText += (combinedSidebarText ? contentSeparator : "") + contentText;
 			}
-			this.logEmbedCanvasDebug('Canvas embed resolved', {
-				filePath
-			});
-			await this.processEmbedContainer(embedContainer, filePath, (rule) => rule.showInCanvas !== false, 'canvas');
 		}
+
+		this.lastSidebarContent = { content: combinedSidebarText, sourcePath: filePath };
+		this.updateAllSidebarViews();
 	}
 
-	/**
-	 * Process popover content directly when we can't find the MarkdownView
-	 */
-	private processPopoverDirectly(popover: HTMLElement): void {
-		// console.log("VirtualContent: Processing popover directly");
-		
-		// Try to extract the file path from the popover
-		const markdownEmbed = popover.querySelector('.markdown-embed');
-		if (!markdownEmbed) {
-			//console.log("VirtualContent: No markdown-embed found in popover");
+	private async processNonMarkdownActiveFile(): Promise<void> {
+		const activeFile = this.getActiveFileForVirtualContent();
+		if (!activeFile) {
+			if (!this.settings.refreshOnFileOpen || this.app.workspace.getLeavesOfType('markdown').length === 0) {
+				this.lastSidebarContent = null;
+				this.lastSeparateTabContents.clear();
+				this.updateAllSidebarViews();
+			}
 			return;
 		}
-		
-		let filePath: string | null = null;
-		
-		// Method 1: Get the title from inline-title and resolve to file path
-		const inlineTitle = popover.querySelector('.inline-title');
-		if (inlineTitle) {
-			const title = inlineTitle.textContent?.trim();
-			//console.log("VirtualContent: Found inline-title:", title);
-			
-			if (title) {
-				// Try to resolve the title to a file path using Obsidian's API
-				const file = this.app.metadataCache.getFirstLinkpathDest(title, '');
-				if (file) {
-					filePath = file.path;
-					//console.log("VirtualContent: Resolved title to file path:", filePath);
-				} else {
-					// If direct resolution fails, try with .md extension
-					const fileWithExt = this.app.metadataCache.getFirstLinkpathDest(title + '.md', '');
-					if (fileWithExt) {
-						filePath = fileWithExt.path;
-						//console.log("VirtualContent: Resolved title with .md extension to file path:", filePath);
-					} else {
-						//console.log("VirtualContent: Could not resolve title to file path");
-					}
-				}
-			}
+
+		await this.processSidebarContentForFilePath(activeFile.path);
+	}
+
+	private logEmbedCanvasDebug(message: string, data?: Record<string, unknown>): void {
+		if (!this.settings.debugEmbedCanvas) {
+			return;
 		}
-			
-		//console.log("VirtualContent: Final extracted file path for direct processing:", filePath);
-		
-		if (filePath) {
-			// Remove any hash fragments or block references
-			const cleanPath = filePath.split('#')[0].split('^')[0];
-			//console.log("VirtualContent: Cleaned file path:", cleanPath);
-			// Process the popover content directly
-			void this.injectContentIntoPopover(popover, cleanPath);
+		if (data) {
+			console.debug(`VirtualContent: ${message}`, data);
 		} else {
-			// console.log("VirtualContent: Could not determine file path for popover");
-			// // Log the DOM structure for debugging
-			// console.log("VirtualContent: Popover DOM structure:", popover.innerHTML.substring(0, 1000));
+			console.debug(`VirtualContent: ${message}`);
 		}
 	}
 
 	/**
-	 * Directly inject virtual content into a popover
+	 * Called when the plugin is loaded.
 	 */
-	private async injectContentIntoPopover(popover: HTMLElement, filePath: string): Promise<void> {
-		//console.log("VirtualContent: Directly injecting content into popover for:", filePath);
-		
-		try {
-			const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
-			
-			// Filter rules based on popover visibility setting
-			const filteredRules = applicableRulesWithContent.filter(({ rule }) => {
-				return rule.showInPopover !== false; // Show by default unless explicitly disabled
-			});
-			
-			if (filteredRules.length === 0) {
-				//console.log("VirtualContent: No applicable rules for popover");
-				return;
+	async onload() {
+			await this.loadSettings();
+			this.addSettingTab(new VirtualFooterSettingTab(this.app, this));
+
+		this.registerView(
+			VIRTUAL_CONTENT_VIEW_TYPE,
+			(leaf) => new VirtualContentView(leaf, this, VIRTUAL_CONTENT_VIEW_TYPE, 'Virtual Content', () => this.getLastSidebarContent())
+		);
+		this.registerView(RULE_EXPLAINER_VIEW_TYPE, (leaf) => new RuleExplainerView(leaf, this));
+
+		this.registerDynamicViews();
+
+		this.addRibbonIcon('text-select', 'Open virtual content in sidebar', () => {
+			void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
+		});
+
+		this.addCommand({
+			id: 'open-virtual-content-sidebar',
+			name: 'Open in sidebar',
+			callback: () => {
+				void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
+			},
+		});
+
+		this.addCommand({
+			id: 'open-all-virtual-content-sidebar-tabs',
+			name: 'Open all sidebar tabs',
+			callback: () => {
+				void this.activateAllSidebarViews();
+			},
+		});
+
+		this.addCommand({
+			id: 'explain-rules',
+			name: 'Explain which rules apply to the current note',
+			callback: () => {
+				void this.activateView(RULE_EXPLAINER_VIEW_TYPE);
+			},
+		});
+
+		this.addCommand({
+			id: 'export-rules',
+			name: 'Export rules',
+			callback: () => {
+				new RuleExportModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-rules',
+			name: 'Import rules',
+			callback: () => {
+				new RuleImportModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'validate-all-rules',
+			name: 'Validate all rules',
+			callback: () => {
+				void this.openValidationReport();
+			},
+		});
+
+		const activeDocument = this.getActiveDocument();
+
+		// Define event handlers
+		const handleViewUpdate = () => {
+			// Always trigger an update if the layout is ready.
+			// Used for file-open and layout-change.
+			if (this.initialLayoutReadyProcessed) {
+				this.handleActiveViewChange();
 			}
-			
-			// Find the markdown embed container
-			const markdownEmbed = popover.querySelector('.markdown-embed');
-			if (!markdownEmbed) return;
-			
-			// Group content by render location
-			const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
-			const footerContentGroups: { normal: string[], aboveBacklinks: string[] } = { normal: [], aboveBacklinks: [] };
-			const sectionHeaderRules: Array<{ rule: Rule; contentText: string; index: number }> = [];
-			const contentSeparator = "\n\n";
-			
-			for (const { rule, contentText, index } of filteredRules) {
-				if (!contentText || contentText.trim() === "") continue;
-				
-				if (rule.renderLocation === RenderLocation.Header) {
-					if (rule.renderAboveProperties) {
-						headerContentGroups.aboveProperties.push(contentText);
-					} else {
-						headerContentGroups.normal.push(contentText);
+		};
+
+		const handleFocusChange = () => {
+			// This is the "focus change" or "switching files" part, conditional on the setting.
+			// Used for active-leaf-change.
+			if (this.settings.refreshOnFileOpen && this.initialLayoutReadyProcessed) {
+				this.handleActiveViewChange();
+			}
+		};
+
+		// Register event listeners
+		this.registerEvent(
+			this.app.workspace.on('file-open', handleViewUpdate)
+		);
+		this.registerEvent(
+			this.app.workspace.on('layout-change', handleViewUpdate)
+		);
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', handleFocusChange)
+		);
+
+		// Listen for metadata changes on the current file
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				// Only refresh if the metadata change setting is enabled
+				if (this.settings.refreshOnMetadataChange && this.initialLayoutReadyProcessed) {
+					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+					// Only refresh if the changed file is the currently active one
+					if (activeView && activeView.file && file.path === activeView.file.path) {
+						this.handleActiveViewChange();
 					}
-				} else if (rule.renderLocation === RenderLocation.Footer) {
-					// For popovers, treat all footer content the same regardless of renderAboveBacklinks setting
-					// since backlinks don't exist in popovers
-					footerContentGroups.normal.push(contentText);
-				} else if (rule.renderLocation === RenderLocation.SectionHeader) {
-					sectionHeaderRules.push({ rule, contentText, index });
 				}
-				// Skip sidebar rules for popovers
+			})
+		);
+
+		// Cached Dataview results are only valid until Dataview's index changes
+		const clearDataviewResultCache = () => this.dataviewResultCache.clear();
+		this.registerEvent(
+			// @ts-ignore - Dataview triggers custom events on the metadata cache
+			this.app.metadataCache.on('dataview:index-ready', clearDataviewResultCache)
+		);
+		this.registerEvent(
+			// @ts-ignore - Dataview triggers custom events on the metadata cache
+			this.app.metadataCache.on('dataview:metadata-change', clearDataviewResultCache)
+		);
+		this.registerEvent(this.app.vault.on('rename', clearDataviewResultCache));
+		this.registerEvent(this.app.vault.on('delete', clearDataviewResultCache));
+
+		// Keep cached rule matches and content files in sync with the vault
+		this.registerEvent(
+			this.app.metadataCache.on('resolved', () => {
+				this.backlinkTargets = null;
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				this.ruleIndex?.invalidateFile(file.path);
+				this.templaterResultCache.delete(file.path);
+				this.queueContentFileRefresh(this.contentSectionDependents.get(file.path));
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				this.contentFileCache.delete(file.path);
+				this.baseConfigCache.delete(file.path);
+				this.queueContentFileRefresh(this.contentFileDependents.get(file.path));
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('create', () => this.ruleIndex?.invalidateAll())
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.ruleIndex?.invalidateAll();
+				this.templaterResultCache.delete(oldPath);
+				this.contentFileCache.delete(oldPath);
+				this.contentFileCache.delete(file.path);
+				this.baseConfigCache.delete(oldPath);
+				this.baseConfigCache.delete(file.path);
+				this.contentFileDependents.delete(oldPath);
+				this.contentSectionDependents.delete(oldPath);
+				void this.updateRuleReferencesAfterRename(oldPath, file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				this.ruleIndex?.invalidateAll();
+				this.templaterResultCache.delete(file.path);
+				this.contentFileCache.delete(file.path);
+				this.baseConfigCache.delete(file.path);
+				this.contentFileDependents.delete(file.path);
+				this.contentSectionDependents.delete(file.path);
+				this.reportRulesBrokenByDeletion(file.path);
+			})
+		);
+
+		// Listen for hover events to detect when popovers are created
+		this.registerDomEvent(activeDocument, 'mouseover', (event: MouseEvent) => {
+			const target = event.target as HTMLElement;
+			// Check if the target is a link that could trigger a popover
+			if (target.matches('a.internal-link, .internal-link a, [data-href]')) {
+				// Store the last hovered link for popover file path extraction
+				this.lastHoveredLink = target;
+				// Delay to allow popover to be created
+				window.setTimeout(() => { void this.processPopoverViews(); }, 100);
 			}
-			
-			// Inject header content
-			if (headerContentGroups.normal.length > 0) {
-				const combinedContent = headerContentGroups.normal.join(contentSeparator);
-				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'header', false, filePath);
+		});
+
+		const handleSectionCollapseClick = (event: MouseEvent) => {
+			const target = event.target as HTMLElement;
+			const collapseIndicator = target.closest('.heading-collapse-indicator, .cm-fold-indicator, .collapse-indicator');
+			const sectionHeaderTarget = collapseIndicator ? this.getConfiguredSectionHeaderCollapseTarget(collapseIndicator) : null;
+			if (
+				collapseIndicator?.closest('.markdown-preview-view') &&
+				sectionHeaderTarget
+			) {
+				window.setTimeout(() => {
+					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+					if (activeView) {
+						void this.refreshSectionHeaderContent(activeView, true, sectionHeaderTarget);
+					}
+				}, 150);
 			}
-			
-			if (headerContentGroups.aboveProperties.length > 0) {
-				const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
-				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'header', true, filePath);
+		};
+		activeDocument.addEventListener('click', handleSectionCollapseClick, true);
+		this.register(() => activeDocument.removeEventListener('click', handleSectionCollapseClick, true));
+
+		this.registerDomEvent(activeDocument, 'scroll', (event: Event) => {
+			const target = event.target as HTMLElement;
+			if (!target.closest?.('.markdown-preview-view')) {
+				return;
 			}
-			
-			// Inject footer content
-			if (footerContentGroups.normal.length > 0) {
-				const combinedContent = footerContentGroups.normal.join(contentSeparator);
-				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'footer', false, filePath);
+			if (this.sectionHeaderScrollRefreshTimeout !== null) {
+				window.clearTimeout(this.sectionHeaderScrollRefreshTimeout);
 			}
+			this.sectionHeaderScrollRefreshTimeout = window.setTimeout(() => {
+				this.sectionHeaderScrollRefreshTimeout = null;
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (activeView) {
+					void this.refreshSectionHeaderContent(activeView, false);
+				}
+			}, 250);
+		}, true);
 
-			for (const { rule, contentText, index } of sectionHeaderRules) {
-				await this.injectContentIntoPopoverSectionHeader(markdownEmbed as HTMLElement, contentText, rule, index, filePath);
+		// Listen for clicks to detect when popovers might switch to editing mode
+		this.registerDomEvent(activeDocument, 'click', (event: MouseEvent) => {
+			const target = event.target as HTMLElement;
+			// Check if the click is within a popover
+			const popover = target.closest('.popover.hover-popover');
+			if (popover) {
+				//console.log("VirtualContent: Click detected in popover, checking for mode change");
+				// Delay to allow any mode changes to complete
+				window.setTimeout(() => { void this.processPopoverViews(); }, 150);
 			}
-			
-		} catch (error) {
-			console.error("VirtualContent: Error processing popover directly:", error);
-		}
-	}
+		});
 
-	/**
-	 * Inject content into a specific section of a popover
-	 */
-	private async injectContentIntoPopoverSection(
-		container: HTMLElement, 
-		content: string, 
-		location: 'header' | 'footer', 
-		special: boolean, 
-		filePath: string,
-		context?: 'embed' | 'canvas'
-	): Promise<void> {
-		const isHeader = location === 'header';
-		const cssClass = isHeader ? CSS_HEADER_GROUP_ELEMENT : CSS_FOOTER_GROUP_ELEMENT;
-		const specialClass = isHeader ? 'virtual-footer-above-properties' : 'virtual-footer-above-backlinks';
-		
-		// Create new content container
-		const groupDiv = container.createDiv() as HTMLElementWithComponent;
-		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${cssClass}`;
-		groupDiv.dataset.sourcePath = filePath;
-		if (special) {
-			groupDiv.classList.add(specialClass);
-		}
-		if (context === 'embed') {
-			groupDiv.classList.add('virtual-footer-embedded-content');
-		}
-		if (context === 'canvas') {
-			groupDiv.classList.add('virtual-footer-canvas-content');
-		}
-		
-		// Add additional CSS classes for consistency with main view injection
-		if (isHeader) {
-			groupDiv.classList.add(CSS_HEADER_RENDERED_CONTENT);
-		} else {
-			groupDiv.classList.add(CSS_FOOTER_RENDERED_CONTENT);
-			if (special) {
-				groupDiv.classList.add(CSS_ABOVE_BACKLINKS);
-			}
-		}
-		
-		// Create component for lifecycle management
-		const component = new Component();
-		component.load();
-		groupDiv.component = component;
-		
-		try {
-			// Render the content
-			await MarkdownRenderer.render(this.app, content, groupDiv, filePath, component);
-			this.attachInternalLinkHandlers(groupDiv, filePath, component);
-			
-			// Use the same logic as main view injection - find target parent using standard selectors
-			let targetParent: HTMLElement | null = null;
-			
-			// First, detect if we're in editing mode or preview mode
-			// Check if the popover container has the is-editing class
-			const popoverContainer = container.closest('.popover.hover-popover');
-			const isEditingMode = popoverContainer?.classList.contains('is-editing') || 
-								  container.querySelector(SELECTOR_EDITOR_SIZER) !== null;
-			//console.log(`VirtualContent: Popover is in ${isEditingMode ? 'editing' : 'preview'} mode`);
-			
-			if (isHeader) {
-				if (special) {
-					// Try to find metadata container first (same as main view logic)
-					targetParent = this.findMetadataContainer(container);
-				}
-				// If no metadata container or special is false, use appropriate header area
-				if (!targetParent) {
-					if (isEditingMode) {
-						// In editing mode, we need to find the content container and insert before it
-						const cmContentContainer = container.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
-						if (cmContentContainer?.parentElement) {
-							// We'll handle the insertion differently for editing mode headers
-							targetParent = cmContentContainer.parentElement;
-						}
-					} else {
-						// In preview mode, use regular header area
-						targetParent = container.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
-						if (!targetParent) {
-							targetParent = container.querySelector<HTMLElement>('.markdown-preview-view, .markdown-embed-content');
+		// Also listen for DOM mutations to catch dynamically created popovers
+		this.popoverObserver = new MutationObserver((mutations) => {
+			for (const mutation of mutations) {
+				if (mutation.type === 'childList') {
+					mutation.addedNodes.forEach(node => {
+						if (node.instanceOf(HTMLElement)) {
+							// Check if a popover was added
+							if (node.classList.contains('popover') && node.classList.contains('hover-popover')) {
+								//console.log("VirtualContent: Popover created, processing views");
+								// Small delay to ensure the popover content is fully loaded
+								window.setTimeout(() => { void this.processPopoverViews(); }, 50);
+							}
+							// Also check for popovers added within other elements
+							const popovers = node.querySelectorAll('.popover.hover-popover');
+							if (popovers.length > 0) {
+								//console.log("VirtualContent: Popover(s) found in added content, processing views");
+								window.setTimeout(() => { void this.processPopoverViews(); }, 50);
+							}
 						}
-					}
-				}
-			} else { // Footer
-				if (special) {
-					// Try to find embedded backlinks first (same as main view logic)
-					targetParent = container.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
+					});
 				}
-				// If no backlinks or special is false, use appropriate footer area
-				if (!targetParent) {
-					if (isEditingMode) {
-						// In editing mode, use editor sizer
-						targetParent = container.querySelector<HTMLElement>(SELECTOR_EDITOR_SIZER);
-					} else {
-						// In preview mode, try standard footer area first
-						targetParent = container.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
-						// Fallback for popovers: use markdown-preview-sizer if standard footer selectors don't exist
-						if (!targetParent) {
-							targetParent = container.querySelector<HTMLElement>('.markdown-preview-sizer.markdown-preview-section');
+				// Listen for attribute changes that might indicate mode switching in popovers
+				if (mutation.type === 'attributes' && mutation.target.instanceOf(HTMLElement)) {
+					const target = mutation.target;
+					// Check if this is a popover that gained or lost the is-editing class
+					if (target.classList.contains('popover') && target.classList.contains('hover-popover')) {
+						if (mutation.attributeName === 'class') {
+							//console.log(`VirtualContent: Popover mode changed, is-editing: ${target.classList.contains('is-editing')}`);
+							//setTimeout(() => {this.processPopoverViews();}, 100); // Slightly longer delay for mode changes
 						}
 					}
 				}
 			}
-			
-			if (targetParent) {
-				// Remove existing content of this type (same cleanup logic as main view)
-				if (isHeader && special) {
-					// Remove existing header content above properties
-					container.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-				} else if (isHeader && !special) {
-					// Remove existing normal header content
-					targetParent.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}:not(.virtual-footer-above-properties)`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-				} else if (!isHeader && special) {
-					// Remove existing footer content above backlinks
-					container.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-				} else if (!isHeader && !special) {
-					// Remove existing normal footer content
-					targetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}:not(.virtual-footer-above-backlinks)`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-				}
-				
-				// Insert using mode-specific logic
-				if (isHeader && !special) {
-					if (isEditingMode && targetParent.querySelector(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER)) {
-						// For editing mode headers, insert before the content container
-						const cmContentContainer = targetParent.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
-						if (cmContentContainer) {
-							targetParent.insertBefore(groupDiv, cmContentContainer);
-						} else {
-							targetParent.appendChild(groupDiv);
+		});
+
+		// Observe the entire document for popover creation
+		if (this.popoverObserver) {
+			this.popoverObserver.observe(activeDocument.body, {
+				childList: true,
+				subtree: true
+			});
+		}
+
+		if (this.settings.enableCanvasRendering) {
+			// Observe the document for canvas node updates
+			this.canvasObserver = new MutationObserver((mutations) => {
+				for (const mutation of mutations) {
+					if (mutation.type === 'childList') {
+						const addedOrRemovedNodes = [...mutation.addedNodes, ...mutation.removedNodes];
+						const hasCanvasNodeChange = addedOrRemovedNodes.some((node) => {
+							return node.instanceOf(HTMLElement) && (node.classList.contains('canvas-node') || node.querySelector('.canvas-node'));
+						});
+						if (hasCanvasNodeChange) {
+							this.queueCanvasEmbedRefresh();
 						}
-					} else {
-						// For preview mode headers, append to header area
-						targetParent.appendChild(groupDiv);
 					}
-				} else if (!isHeader && !special) {
-					// For footer content
-					if (isEditingMode) {
-						// In editing mode, append to editor sizer
-						targetParent.appendChild(groupDiv);
-					} else {
-						// In preview mode, check if we're using the popover fallback selector
-						if (targetParent.matches('.markdown-preview-sizer.markdown-preview-section')) {
-							// Insert after the markdown-preview-sizer, not inside it
-							targetParent.parentElement?.insertBefore(groupDiv, targetParent.nextSibling);
-						} else {
-							// For regular footer areas, append inside
-							targetParent.appendChild(groupDiv);
+					if (mutation.type === 'attributes' && mutation.target.instanceOf(HTMLElement)) {
+						const target = mutation.target;
+						if (target.classList.contains('canvas-node')) {
+							this.queueCanvasEmbedRefresh();
 						}
 					}
-				} else {
-					// Insert before properties or backlinks (same as main view)
-					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
-				}
-				
-				//console.log(`VirtualContent: Successfully injected ${location} content into popover using standard selectors`);
-			} else {
-				//console.log(`VirtualContent: Target parent not found for ${location} injection in popover, falling back to container`);
-				// Fallback to simple container injection if selectors don't match
-				if (isHeader) {
-					container.insertBefore(groupDiv, container.firstChild);
-				} else {
-					container.appendChild(groupDiv);
 				}
+			});
+
+			if (this.canvasObserver) {
+				this.canvasObserver.observe(activeDocument.body, {
+					childList: true,
+					subtree: true,
+					attributes: true,
+					attributeFilter: ['class', 'data-path', 'data-href', 'data-src', 'src']
+				});
 			}
-			
-		} catch (error) {
-			console.error("VirtualContent: Error rendering content for popover:", error);
-			component.unload();
-		}
-	}
 
-	private async injectContentIntoPopoverSectionHeader(
-		container: HTMLElement,
-		content: string,
-		rule: Rule,
-		ruleIndex: number,
-		filePath: string
-	): Promise<void> {
-		if (!content || content.trim() === "" || !rule.sectionHeaderText?.trim()) {
-			return;
+			this.canvasInteractionHandler = (event: Event) => {
+				const target = event.target as HTMLElement | null;
+				if (target?.closest?.('.canvas')) {
+					this.queueCanvasEmbedRefresh();
+				}
+			};
+			this.registerDomEvent(activeDocument, 'wheel', this.canvasInteractionHandler, true);
+			this.registerDomEvent(activeDocument, 'pointerup', this.canvasInteractionHandler, true);
 		}
 
-		const component = new Component();
-		component.load();
-
-		const groupDiv = container.createDiv() as HTMLElementWithComponent;
-		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${CSS_SECTION_HEADER_GROUP_ELEMENT}`;
-		this.setSectionHeaderDataset(groupDiv, rule, ruleIndex);
-		groupDiv.dataset.sourcePath = filePath;
-		groupDiv.component = component;
-
-		try {
-			await MarkdownRenderer.render(this.app, content, groupDiv, filePath, component);
-			this.attachInternalLinkHandlers(groupDiv, filePath, component);
-
-			const popoverContainer = container.closest('.popover.hover-popover');
-			const isEditingMode = popoverContainer?.classList.contains('is-editing') ||
-				container.querySelector(SELECTOR_EDITOR_SIZER) !== null;
-			const level = this.getSectionHeaderLevelNumber(rule);
-			const placement = rule.sectionHeaderPlacement || 'top';
-			const target = isEditingMode
-				? this.findEditorSectionTarget(container, rule)
-				: this.findPreviewSectionTarget(container, rule);
-
-			if (!target) {
-				component.unload();
-				return;
-			}
+		// File date rules can start or stop matching as time passes without the note changing
+		this.registerInterval(window.setInterval(() => {
+			void this.refreshIfFileDateMatchesChanged();
+		}, FILE_DATE_REFRESH_INTERVAL_MS));
 
-			this.removeSectionHeaderContent(container, ruleIndex);
-			if (this.isHeadingCollapsed(target)) {
-				component.unload();
-				return;
+		// Initial processing for any currently active view, once layout is ready
+		this.app.workspace.onLayoutReady(() => {
+			if (!this.initialLayoutReadyProcessed) {
+				this.handleActiveViewChange(); // Process the initially open view
+				this.initialLayoutReadyProcessed = true;
 			}
+		});
+	}
 
-			if (isEditingMode) {
-				if (placement === 'top') {
-					target.parentElement?.insertBefore(groupDiv, target.nextSibling);
-				} else {
-					const endNode = this.getEditorSectionEnd(target, level);
-					if (endNode) {
-						endNode.parentElement?.insertBefore(groupDiv, endNode);
-					} else {
-						target.parentElement?.appendChild(groupDiv);
-					}
-				}
-			} else {
-				const anchor = target.parentElement || target;
-				if (placement === 'top') {
-					anchor.parentElement?.insertBefore(groupDiv, anchor.nextSibling);
-				} else {
-					const endNode = this.getPreviewSectionEnd(target, level);
-					if (endNode) {
-						endNode.parentElement?.insertBefore(groupDiv, endNode);
-					} else {
-						anchor.parentElement?.appendChild(groupDiv);
-					}
-				}
+	/**
+	 * Called when the plugin is unloaded.
+	 * Cleans up all injected content and observers.
+	 */
+	onunload() {
+		this.popoverObserver?.disconnect();
+		this.canvasObserver?.disconnect();
+		this.clearAllViewsDynamicContent();
+
+		// Clean up any remaining DOM elements and components directly
+		const activeDocument = this.getActiveDocument();
+		activeDocument.querySelectorAll(`.${CSS_DYNAMIC_CONTENT_ELEMENT}`).forEach(el => {
+			const componentHolder = el as HTMLElementWithComponent;
+			if (componentHolder.component) {
+				componentHolder.component.unload();
 			}
-			this.updateSectionHeaderVisibility(container, isEditingMode);
-		} catch (error) {
-			console.error("VirtualContent: Error rendering section header content for popover:", error);
-			component.unload();
+			el.remove();
+		});
+
+		// Remove custom CSS classes applied for styling
+		activeDocument.querySelectorAll(`.${CSS_VIRTUAL_FOOTER_CM_PADDING}`).forEach(el => el.classList.remove(CSS_VIRTUAL_FOOTER_CM_PADDING));
+		activeDocument.querySelectorAll(`.${CSS_VIRTUAL_FOOTER_REMOVE_FLEX}`).forEach(el => el.classList.remove(CSS_VIRTUAL_FOOTER_REMOVE_FLEX));
+
+		// WeakMaps will be garbage collected, but explicit clearing is good practice if needed.
+		// Observers and pending injections are cleared per-view in `removeDynamicContentFromView`.
+		this.previewObservers = new WeakMap();
+		this.pendingPreviewInjections = new WeakMap();
+		this.embedObservers = new WeakMap();
+		this.embedRefreshTimeouts = new WeakMap();
+		if (this.canvasRefreshTimeout !== null) {
+			window.clearTimeout(this.canvasRefreshTimeout);
+		}
+		this.canvasRefreshTimeout = null;
+		this.canvasRefreshInProgress = false;
+		this.canvasInteractionHandler = null;
+		if (this.contentRefreshTimeout !== null) {
+			window.clearTimeout(this.contentRefreshTimeout);
 		}
+		this.contentRefreshTimeout = null;
+		this.pendingContentRefreshPaths.clear();
 	}
 
 	/**
-	 * Processes a given Markdown view to inject or update dynamic content.
-	 * @param view The MarkdownView to process.
+	 * Handles changes to the active Markdown view, triggering content processing.
 	 */
-	private async _processView(view: MarkdownView | null): Promise<void> {
-		if (!view || !view.file) {
-			// If 'refresh on focus' is off, we clear the sidebar when focus is lost from a markdown file.
-			// If it's on, we only clear the sidebar if the last markdown file has been closed,
-			// preserving the content when switching to non-markdown views.
-			if (!this.settings.refreshOnFileOpen || this.app.workspace.getLeavesOfType('markdown').length === 0) {
-				this.lastSidebarContent = null;
-				this.lastSeparateTabContents.clear();
-				this.updateAllSidebarViews();
+	private handleActiveViewChange = () => {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (activeView?.file) {
+			void this._processView(activeView);
+			return;
+		}
+		void this.processNonMarkdownActiveFile();
+	}
+
+	/**
+	 * Re-evaluates file date rules for the active note and refreshes it if the set of matching rules has changed.
+	 * Other rules are not evaluated, so that their queries don't run on every check.
+	 */
+	private async refreshIfFileDateMatchesChanged(): Promise<void> {
+		const fileDateRules = this.settings.rules.filter(rule => rule.enabled && ruleHasCondition(rule, condition => condition.type === 'file-date'));
+		if (!this.initialLayoutReadyProcessed || fileDateRules.length === 0) {
+			return;
+		}
+		const activeFile = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+		if (!activeFile || this.lastActiveMatchSignature?.filePath !== activeFile.path) {
+			return;
+		}
+		const matchingIds: string[] = [];
+		for (const rule of fileDateRules) {
+			if (await this.ruleAppliesToNote(rule, activeFile)) {
+				matchingIds.push(rule.id);
 			}
-			return; // No view or file to process
 		}
+		if (matchingIds.join(',') !== this.lastActiveMatchSignature.signature) {
+			this.handleActiveViewChange();
+		}
+	}
 
-		// Check if this is a popover view
-		const isPopoverView = this.isInPopover(view);
+	/**
+	 * Schedules a refresh of every note showing content from a modified file.
+	 * Changes are batched, since a file being edited is saved repeatedly.
+	 * @param dependents The paths of the notes showing the file's content.
+	 */
+	private queueContentFileRefresh(dependents: Set<string> | undefined): void {
+		if (!dependents || dependents.size === 0) {
+			return;
+		}
+		dependents.forEach(notePath => this.pendingContentRefreshPaths.add(notePath));
+		if (this.contentRefreshTimeout !== null) {
+			return;
+		}
+		this.contentRefreshTimeout = window.setTimeout(() => {
+			this.contentRefreshTimeout = null;
+			const notePaths = new Set(this.pendingContentRefreshPaths);
+			this.pendingContentRefreshPaths.clear();
+			this.refreshNotesShowingContent(notePaths);
+		}, 250);
+	}
 
-		await this.removeDynamicContentFromView(view, true); // Clear existing content first, preserving section content until its target is found
-		this.removeStaleSectionHeaderContent(view);
-		const applicableRulesWithContent = await this._getApplicableRulesAndContent(view.file.path);
+	/**
+	 * Re-renders the virtual content of the given notes wherever it is shown: open views, embeds,
+	 * canvas cards, popovers and the sidebar. Background views are processed without touching the sidebar,
+	 * which keeps showing the content of the active note.
+	 * @param notePaths The paths of the notes to refresh, or null to refresh every note.
+	 */
+	private refreshNotesShowingContent(notePaths: Set<string> | null): void {
+		const isRefreshed = (filePath: string) => notePaths === null || notePaths.has(filePath);
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			if (leaf.view instanceof MarkdownView && leaf.view !== activeView && leaf.view.file && isRefreshed(leaf.view.file.path)) {
+				void this._processView(leaf.view, false);
+			}
+		});
 
-		// Filter rules based on popover visibility setting
-		const filteredRules = applicableRulesWithContent.filter(({ rule }) => {
-			if (isPopoverView && rule.showInPopover === false) {
-				return false; // Skip this rule in popover views
+		const activeDocument = this.getActiveDocument();
+		// Embeds and canvas cards record the note they show on their container
+		activeDocument.querySelectorAll<HTMLElement>('.markdown-embed[data-source-path]').forEach(embed => {
+			const filePath = embed.dataset.sourcePath;
+			if (!filePath || !isRefreshed(filePath)) {
+				return;
 			}
-			return true;
+			if (this.isEmbedInCanvas(embed)) {
+				void this.processEmbedContainer(embed, filePath, (rule) => rule.showInCanvas !== false, 'canvas');
+			} else {
+				void this.processEmbedContainer(embed, filePath, (rule) => rule.showInEmbed !== false, 'embed');
+			}
+		});
+		// Popovers only record the note on the content injected into them
+		activeDocument.querySelectorAll<HTMLElement>('.popover.hover-popover').forEach(popover => {
+			const markdownEmbed = popover.querySelector<HTMLElement>('.markdown-embed');
+			const filePath = popover.querySelector<HTMLElement>(`.${CSS_DYNAMIC_CONTENT_ELEMENT}[data-source-path]`)?.dataset.sourcePath;
+			if (!markdownEmbed || !filePath || !isRefreshed(filePath)) {
+				return;
+			}
+			void this.removeInjectedContentDOM(markdownEmbed).then(() => this.injectContentIntoPopover(popover, filePath));
 		});
 
-		const viewState = view.getState();
-		let combinedSidebarText = "";
-		let hasFooterRule = false;
-		const contentSeparator = "\n\n"; // Separator between content from multiple rules
-		this.lastSeparateTabContents.clear();
+		// The active note also updates the sidebar and its separate tabs
+		const activeFilePath = activeView?.file?.path ?? this.lastSidebarContent?.sourcePath;
+		if (notePaths === null || (activeFilePath && notePaths.has(activeFilePath))) {
+			this.handleActiveViewChange();
+		}
+	}
 
-		// Combine content from all applicable rules, grouping by render location and positioning
-		const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
-		const footerContentGroups: { normal: string[], aboveBacklinks: string[] } = { normal: [], aboveBacklinks: [] };
-		const sectionHeaderRules: Array<{ rule: Rule; contentText: string; index: number }> = [];
+	/**
+	 * Checks if a MarkdownView is displayed within a popover (hover preview).
+	 * @param view The MarkdownView to check.
+	 * @returns True if the view is in a popover, false otherwise.
+	 */
+	private isInPopover(view: MarkdownView): boolean {
+		// Check if the view's container element is within a popover
+		let element: HTMLElement | null = view.containerEl;
 		
-		for (const { rule, contentText, index } of filteredRules) {
-			if (!contentText || contentText.trim() === "") continue; // Skip empty content
-
-			if (rule.renderLocation === RenderLocation.Header) {
-				if (rule.renderAboveProperties) {
-					headerContentGroups.aboveProperties.push(contentText);
-				} else {
-					headerContentGroups.normal.push(contentText);
-				}
-			} else if (rule.renderLocation === RenderLocation.Footer) {
-				if (rule.renderAboveBacklinks) {
-					footerContentGroups.aboveBacklinks.push(contentText);
-				} else {
-					footerContentGroups.normal.push(contentText);
-				}
-				hasFooterRule = true;
-			} else if (rule.renderLocation === RenderLocation.Sidebar) {
-				if (rule.showInSeparateTab) {
-					const viewId = this.getSeparateViewId(index);
-					const existingContent = this.lastSeparateTabContents.get(viewId)?.content || "";
-					this.lastSeparateTabContents.set(viewId, {
-						content: (existingContent ? existingContent + contentSeparator : "") + contentText,
-						sourcePath: view.file.path
-					});
-				} else {
-					combinedSidebarText += (combinedSidebarText ? contentSeparator : "") + contentText;
+		// Debug: Log the container element and its classes
+		//console.log("VirtualContent: Checking popover for view container:", view.containerEl.className);
+		
+		while (element) {
+			// Check for popover classes
+			if (element.classList.contains('popover') && element.classList.contains('hover-popover')) {
+				//console.log("VirtualContent: Found popover via direct popover classes");
+				return true;
+			}
+			// Also check for markdown-embed class which indicates an embedded view (often in popovers)
+			if (element.classList.contains('markdown-embed')) {
+				// console.log("VirtualContent: Found markdown-embed, checking for parent popover");
+				// If it's a markdown-embed, check if it's inside a popover
+				let parent = element.parentElement;
+				while (parent) {
+					if (parent.classList.contains('popover') && parent.classList.contains('hover-popover')) {
+						// console.log("VirtualContent: Found popover via markdown-embed parent");
+						return true;
+					}
+					parent = parent.parentElement;
 				}
-			} else if (rule.renderLocation === RenderLocation.SectionHeader) {
-				sectionHeaderRules.push({ rule, contentText, index });
 			}
+			element = element.parentElement;
 		}
+		//console.log("VirtualContent: Not a popover view");
+		return false;
+	}
 
-		// Store sidebar content and update the view
-		this.lastSidebarContent = { content: combinedSidebarText, sourcePath: view.file.path };
-		this.updateAllSidebarViews();
-
-		// Determine if we should render based on view mode and settings
-		const isLivePreview = viewState.mode === 'source' && !viewState.source;
-		const isSourceMode = viewState.mode === 'source' && viewState.source;
-		const isReadingMode = viewState.mode === 'preview';
-
-		const shouldRenderInSource = isSourceMode && this.settings.renderInSourceMode;
-		const shouldRenderInLivePreview = isLivePreview;
-		const shouldRenderInReading = isReadingMode;
+	/**
+	 * Processes any popover views that might be open but haven't been processed yet.
+	 */
+	private processPopoverViews(): void {
+		// Find all popover elements in the DOM
+		const activeDocument = this.getActiveDocument();
+		const popovers = activeDocument.querySelectorAll('.popover.hover-popover');
+		
+		popovers.forEach(popover => {
+			// Look for markdown views within each popover
+			const markdownEmbed = popover.querySelector('.markdown-embed');
+			if (markdownEmbed) {
+				//console.log("VirtualContent: Found markdown-embed in popover, processing directly");
+				// Process the popover content directly
+				this.processPopoverDirectly(popover as HTMLElement);
+			}
+		});
+	}
 
-		// Apply specific styles for Live Preview footers if needed
-		if ((shouldRenderInLivePreview || shouldRenderInSource) && hasFooterRule) {
-			this.applyLivePreviewFooterStyles(view);
+	private queueEmbedRefresh(view: MarkdownView): void {
+		if (!this.settings.enableEmbedRendering) {
+			return;
 		}
-
-		if (hasFooterRule && (shouldRenderInReading || shouldRenderInLivePreview || shouldRenderInSource)) {
-			this.applyFooterBottomPadding(view);
-		} else {
-			this.removeFooterBottomPadding(view);
+		const existingTimeout = this.embedRefreshTimeouts.get(view);
+		if (existingTimeout) {
+			window.clearTimeout(existingTimeout);
 		}
-
-		let pendingHeaderDiv: HTMLElementWithComponent | null = null;
-		let pendingFooterDiv: HTMLElementWithComponent | null = null;
-		let pendingHeaderAbovePropertiesDiv: HTMLElementWithComponent | null = null;
-		let pendingFooterAboveBacklinksDiv: HTMLElementWithComponent | null = null;
-
-		// Render and inject content based on view mode, handling each positioning group separately
-		if (shouldRenderInReading || shouldRenderInLivePreview || shouldRenderInSource) {
-			// Handle normal header content
-			if (headerContentGroups.normal.length > 0) {
-				const combinedContent = headerContentGroups.normal.join(contentSeparator);
-				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Header, false);
-				if (result && shouldRenderInReading) {
-					pendingHeaderDiv = result;
-				}
+		const currentPath = view.file?.path;
+		if (currentPath) {
+			const lastScan = this.embedLastScanByView.get(view);
+			if (lastScan && lastScan.filePath === currentPath && Date.now() - lastScan.time < 750) {
+				return;
 			}
-			
-			// Handle header content above properties
-			if (headerContentGroups.aboveProperties.length > 0) {
-				const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
-				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Header, true);
-				if (result && shouldRenderInReading) {
-					pendingHeaderAbovePropertiesDiv = result;
-				}
-			}
-			
-			// Handle normal footer content
-			if (footerContentGroups.normal.length > 0) {
-				const combinedContent = footerContentGroups.normal.join(contentSeparator);
-				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Footer, false, false);
-				if (result && shouldRenderInReading) {
-					pendingFooterDiv = result;
-				}
-			}
-			
-			// Handle footer content above backlinks
-			if (footerContentGroups.aboveBacklinks.length > 0) {
-				const combinedContent = footerContentGroups.aboveBacklinks.join(contentSeparator);
-				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Footer, false, true);
-				if (result && shouldRenderInReading) {
-					pendingFooterAboveBacklinksDiv = result;
-				}
-			}
-
-			for (const { rule, contentText, index } of sectionHeaderRules) {
-				await this.renderAndInjectSectionHeaderContent(view, contentText, rule, index, true);
-			}
-
 		}
+		const timeout = window.setTimeout(() => {
+			this.embedRefreshTimeouts.delete(view);
+			void this.processEmbedsInView(view);
+		}, 250);
+		this.embedRefreshTimeouts.set(view, timeout);
+	}
 
-		// If any content is pending for preview mode, set up an observer
-		if (pendingHeaderDiv || pendingFooterDiv || pendingHeaderAbovePropertiesDiv || pendingFooterAboveBacklinksDiv) {
-			this.pendingPreviewInjections.set(view, {
-				headerDiv: pendingHeaderDiv || undefined,
-				footerDiv: pendingFooterDiv || undefined,
-				headerAbovePropertiesDiv: pendingHeaderAbovePropertiesDiv || undefined,
-				footerAboveBacklinksDiv: pendingFooterAboveBacklinksDiv || undefined,
-				filePath: view.file.path,
-			});
-			this.ensurePreviewObserver(view);
+	private queueCanvasEmbedRefresh(): void {
+		if (!this.settings.enableCanvasRendering) {
+			return;
 		}
-
-		this.ensureEmbedObserver(view);
-		await this.processEmbedsInView(view);
-		this.queueCanvasEmbedRefresh();
+		if (!this.isCanvasActive()) {
+			return;
+		}
+		if (this.canvasRefreshTimeout !== null) {
+			return;
+		}
+		this.canvasRefreshTimeout = window.setTimeout(() => {
+			this.canvasRefreshTimeout = null;
+			if (this.canvasRefreshInProgress) {
+				return;
+			}
+			this.canvasRefreshInProgress = true;
+			void this.processCanvasEmbeds().then(() => {
+				this.canvasRefreshInProgress = false;
+			}, () => {
+				this.canvasRefreshInProgress = false;
+			});
+		}, 250);
 	}
 
-	private normalizeSectionHeaderText(text: string): string {
-		return text.replace(/\s+/g, ' ').trim().toLowerCase();
+	private ensureEmbedObserver(view: MarkdownView): void {
+		if (!this.settings.enableEmbedRendering) {
+			return;
+		}
+		if (this.embedObservers.has(view)) {
+			return;
+		}
+		const observer = new MutationObserver((_mutations) => {
+			this.queueEmbedRefresh(view);
+		});
+		observer.observe(view.containerEl, { childList: true, subtree: true });
+		this.embedObservers.set(view, observer);
 	}
 
-	private getSectionHeaderLevelNumber(rule: Rule): number {
-		const match = (rule.sectionHeaderLevel || 'h2').match(/^h([1-6])$/);
-		return match ? Number(match[1]) : 2;
+	private isEmbedInCanvas(embed: HTMLElement): boolean {
+		return !!embed.closest('.canvas, .canvas-node, .canvas-node-container, .canvas-node-content');
 	}
 
-	private findPreviewSectionTarget(container: HTMLElement, rule: Rule): HTMLElement | null {
-		const targetText = this.normalizeSectionHeaderText(rule.sectionHeaderText || '');
-		if (!targetText) return null;
+	private extractEmbedFilePath(embed: HTMLElement): string | null {
+		const canvasNode = embed.closest('.canvas-node');
+		if (canvasNode) {
+			const canvasPath = this.extractCanvasNodePath(canvasNode as HTMLElement);
+			if (canvasPath) {
+				this.logEmbedCanvasDebug('Canvas node path resolved', {
+					canvasPath
+				});
+				return canvasPath;
+			}
+		}
 
-		const selector = rule.sectionHeaderLevel || 'h2';
-		const headings = Array.from(container.querySelectorAll<HTMLElement>(selector));
-		return headings.find((heading) => this.normalizeSectionHeaderText(heading.textContent || '') === targetText) || null;
+		const embedContainer = embed.closest<HTMLElement>('.markdown-embed');
+		const scopedContainer = embedContainer || embed;
+		const embedLink = scopedContainer.querySelector<HTMLAnchorElement>('.markdown-embed-link a.internal-link[data-href]');
+		const embedLinkHref = embedLink?.dataset?.href;
+		const rawCandidates = [
+			scopedContainer.getAttribute('data-path'),
+			scopedContainer.getAttribute('data-src'),
+			scopedContainer.getAttribute('src'),
+			scopedContainer.getAttribute('data-href'),
+			scopedContainer.dataset?.path,
+			scopedContainer.dataset?.src,
+			scopedContainer.dataset?.href,
+			embedLinkHref,
+		];
+		const resolved = this.resolveFirstPathCandidate(rawCandidates);
+		if (!resolved) {
+			this.logEmbedCanvasDebug('Embed candidates not resolved', {
+				embedClass: scopedContainer.className,
+				candidates: rawCandidates.filter(Boolean)
+			});
+		}
+		return resolved;
 	}
 
-	private findEditorSectionTarget(container: HTMLElement, rule: Rule): HTMLElement | null {
-		const targetText = this.normalizeSectionHeaderText(rule.sectionHeaderText || '');
-		if (!targetText) return null;
+	private extractCanvasNodePath(canvasNode: HTMLElement): string | null {
+		const rawCandidates = [
+			canvasNode.getAttribute('data-path'),
+			canvasNode.getAttribute('data-href'),
+			canvasNode.getAttribute('data-src'),
+			canvasNode.getAttribute('data-file'),
+			canvasNode.getAttribute('data-file-path'),
+			canvasNode.getAttribute('data-filepath'),
+			canvasNode.dataset?.path,
+			canvasNode.dataset?.href,
+			canvasNode.dataset?.src,
+			canvasNode.dataset?.file,
+			canvasNode.dataset?.filePath,
+			canvasNode.dataset?.filepath,
+		];
 
-		const level = this.getSectionHeaderLevelNumber(rule);
-		const headings = Array.from(container.querySelectorAll<HTMLElement>(`.cm-line.HyperMD-header-${level}`));
-		return headings.find((heading) => {
-			const text = (heading.textContent || '').replace(/^#+\s*/, '');
-			return this.normalizeSectionHeaderText(text) === targetText;
-		}) || null;
-	}
+		const linkCandidate = canvasNode.querySelector<HTMLAnchorElement>('.canvas-node-title a.internal-link[data-href]');
+		if (linkCandidate?.dataset?.href) {
+			rawCandidates.push(linkCandidate.dataset.href);
+		}
 
-	private getPreviewSectionEnd(heading: HTMLElement, level: number): Node | null {
-		let node: Node | null = heading.parentElement?.nextSibling || heading.nextSibling;
-		while (node) {
-			if (node.instanceOf(HTMLElement)) {
-				const nextHeading = node.matches('h1,h2,h3,h4,h5,h6')
-					? node
-					: node.querySelector<HTMLElement>('h1,h2,h3,h4,h5,h6');
-				if (nextHeading) {
-					const nextLevel = Number(nextHeading.tagName.substring(1));
-					if (nextLevel <= level) {
-						return node;
-					}
-				}
-			}
-			node = node.nextSibling;
+		const titleEl = canvasNode.querySelector<HTMLElement>('.canvas-node-title, .canvas-node-header, .canvas-node-label');
+		const titleText = titleEl?.textContent?.trim();
+		if (titleText) {
+			rawCandidates.push(titleText);
 		}
-		return null;
-	}
 
-	private getEditorSectionEnd(headingLine: HTMLElement, level: number): Node | null {
-		let node: Node | null = headingLine.nextSibling;
-		while (node) {
-			if (node.instanceOf(HTMLElement)) {
-				for (let currentLevel = 1; currentLevel <= level; currentLevel++) {
-					if (node.classList.contains(`HyperMD-header-${currentLevel}`)) {
-						return node;
-					}
-				}
-			}
-			node = node.nextSibling;
+		const resolved = this.resolveFirstPathCandidate(rawCandidates);
+		if (!resolved) {
+			const attrDump: Record<string, string> = {};
+			Array.from(canvasNode.attributes).forEach(attr => {
+				attrDump[attr.name] = attr.value;
+			});
+			this.logEmbedCanvasDebug('Canvas node path not resolved', {
+				canvasNodeClass: canvasNode.className,
+				attributes: attrDump,
+				candidates: rawCandidates.filter(Boolean)
+			});
 		}
-		return null;
+		return resolved;
 	}
 
-	private removeSectionHeaderContent(container: HTMLElement, ruleIndex: number): void {
-		container.querySelectorAll(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}[data-rule-index="${ruleIndex}"]`).forEach(el => {
-			const holder = el as HTMLElementWithComponent;
-			holder.component?.unload();
-			el.remove();
-		});
+	private extractPathFromElement(element: HTMLElement): string | null {
+		const rawCandidates = [
+			element.getAttribute('data-path'),
+			element.getAttribute('data-href'),
+			element.getAttribute('data-src'),
+			element.getAttribute('src'),
+			element.dataset?.path,
+			element.dataset?.href,
+			element.dataset?.src,
+		];
+
+		return this.resolveFirstPathCandidate(rawCandidates);
 	}
 
-	private isHeadingCollapsed(heading: HTMLElement): boolean {
-		let element: HTMLElement | null = heading;
-		let depth = 0;
-		while (element && depth < 4) {
-			const className = element.className.toString().toLowerCase();
-			if (
-				element.getAttribute('aria-expanded') === 'false' ||
-				className.includes('is-collapsed') ||
-				className.includes('is-folded') ||
-				className.includes('folded')
-			) {
-				return true;
+	private resolveFirstPathCandidate(rawCandidates: Array<string | null | undefined>): string | null {
+		for (const raw of rawCandidates) {
+			if (!raw) continue;
+			const cleaned = raw.split('#')[0].split('^')[0].trim();
+			if (!cleaned) continue;
+			const resolved = this.app.metadataCache.getFirstLinkpathDest(cleaned, '');
+			if (resolved) {
+				return resolved.path;
+			}
+			const abstractFile = this.app.vault.getAbstractFileByPath(cleaned);
+			if (abstractFile instanceof TFile) {
+				return abstractFile.path;
 			}
-			element = element.parentElement;
-			depth++;
 		}
-		return false;
-	}
 
-	private setSectionHeaderDataset(groupDiv: HTMLElement, rule: Rule, ruleIndex: number): void {
-		groupDiv.dataset.ruleIndex = String(ruleIndex);
-		groupDiv.dataset.sectionHeaderText = rule.sectionHeaderText || '';
-		groupDiv.dataset.sectionHeaderLevel = rule.sectionHeaderLevel || 'h2';
-		groupDiv.dataset.sectionHeaderPlacement = rule.sectionHeaderPlacement || 'top';
+		return null;
 	}
 
-	private removeStaleSectionHeaderContent(view: MarkdownView): void {
-		const sourcePath = view.file?.path || '';
-		view.containerEl.querySelectorAll<HTMLElement>(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}`).forEach(el => {
-			if (el.dataset.sourcePath !== sourcePath) {
-				const holder = el as HTMLElementWithComponent;
-				holder.component?.unload();
-				el.remove();
-			}
-		});
+	private findMetadataContainer(container: HTMLElement): HTMLElement | null {
+		return container.querySelector<HTMLElement>(`${SELECTOR_METADATA_CONTAINER}, .cm-obsidian-frontmatter`);
 	}
 
-	private updateSectionHeaderVisibility(container: HTMLElement, isEditingMode: boolean): void {
-		container.querySelectorAll<HTMLElement>(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}`).forEach(groupDiv => {
-			const rule: Rule = {
-				type: RuleType.Folder,
-				contentSource: ContentSource.Text,
-				footerText: '',
-				renderLocation: RenderLocation.SectionHeader,
-				sectionHeaderText: groupDiv.dataset.sectionHeaderText || '',
-				sectionHeaderLevel: groupDiv.dataset.sectionHeaderLevel || 'h2',
-				sectionHeaderPlacement: groupDiv.dataset.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top',
-			};
-			const heading = isEditingMode
-				? this.findEditorSectionTarget(container, rule)
-				: this.findPreviewSectionTarget(container, rule);
-			groupDiv.toggleAttribute('hidden', heading ? this.isHeadingCollapsed(heading) : false);
-		});
-	}
+	private async processEmbedContainer(
+		container: HTMLElement,
+		filePath: string,
+		allowRule: (rule: Rule) => boolean,
+		context: 'embed' | 'canvas'
+	): Promise<void> {
+		container.dataset.sourcePath = filePath;
+		const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
+		const filteredRules = applicableRulesWithContent.filter(({ rule }) => allowRule(rule));
+		await this.removeInjectedContentDOM(container);
 
-	private isConfiguredSectionHeaderElement(heading: HTMLElement): boolean {
-		const headingText = this.normalizeSectionHeaderText(heading.textContent || '');
-		if (!headingText) {
-			return false;
+		if (filteredRules.length === 0) {
+			return;
 		}
 
-		const headingLevel = heading.tagName.match(/^H([1-6])$/)
-			? heading.tagName.toLowerCase()
-			: Array.from(heading.classList)
-				.map(className => className.match(/^HyperMD-header-([1-6])$/)?.[1])
-				.find(Boolean);
-		const normalizedHeadingLevel = headingLevel && headingLevel.length === 1 ? `h${headingLevel}` : headingLevel;
+		const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
+		const footerContentGroups: { normal: string[] } = { normal: [] };
+		const sectionHeaderRules: Array<{ rule: Rule; contentText: string }> = [];
+		const contentSeparator = "\n\n";
 
-		return this.settings.rules.some(rule =>
-			rule.enabled &&
-			rule.renderLocation === RenderLocation.SectionHeader &&
-			this.normalizeSectionHeaderText(rule.sectionHeaderText || '') === headingText &&
-			(rule.sectionHeaderLevel || 'h2') === normalizedHeadingLevel
-		);
-	}
+		for (const { rule, contentText } of filteredRules) {
+			if (!contentText || contentText.trim() === "") continue;
 
-	private getConfiguredSectionHeaderCollapseTarget(collapseIndicator: Element): { text: string; level: string } | null {
-		const previewHeading = collapseIndicator.closest('[class^="el-h"], [class*=" el-h"]')?.querySelector<HTMLElement>('h1,h2,h3,h4,h5,h6');
-		if (previewHeading && this.isConfiguredSectionHeaderElement(previewHeading)) {
-			return {
-				text: this.normalizeSectionHeaderText(previewHeading.textContent || ''),
-				level: previewHeading.tagName.toLowerCase(),
-			};
+			if (rule.renderLocation === RenderLocation.Header) {
+				if (rule.renderAboveProperties) {
+					headerContentGroups.aboveProperties.push(contentText);
+				} else {
+					headerContentGroups.normal.push(contentText);
+				}
+			} else if (rule.renderLocation === RenderLocation.Footer) {
+				footerContentGroups.normal.push(contentText);
+			} else if (rule.renderLocation === RenderLocation.SectionHeader) {
+				sectionHeaderRules.push({ rule, contentText });
+			}
+			// Skip sidebar rules for embeds
 		}
 
-		const editorHeading = collapseIndicator.closest<HTMLElement>('.cm-line[class*="HyperMD-header-"]');
-		if (!editorHeading || !this.isConfiguredSectionHeaderElement(editorHeading)) {
-			return null;
+		if (headerContentGroups.normal.length > 0) {
+			const combinedContent = headerContentGroups.normal.join(contentSeparator);
+			await this.injectContentIntoPopoverSection(container, combinedContent, 'header', false, filePath, context);
 		}
 
-		const level = Array.from(editorHeading.classList)
-			.map(className => className.match(/^HyperMD-header-([1-6])$/)?.[1])
-			.find(Boolean);
-		return level ? {
-			text: this.normalizeSectionHeaderText(editorHeading.textContent || ''),
-			level: `h${level}`,
-		} : null;
+		if (headerContentGroups.aboveProperties.length > 0) {
+			const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
+			await this.injectContentIntoPopoverSection(container, combinedContent, 'header', true, filePath, context);
+		}
+
+		if (footerContentGroups.normal.length > 0) {
+			const combinedContent = footerContentGroups.normal.join(contentSeparator);
+			await this.injectContentIntoPopoverSection(container, combinedContent, 'footer', false, filePath, context);
+		}
+
+		for (const { rule, contentText } of sectionHeaderRules) {
+			await this.injectContentIntoPopoverSectionHeader(container, contentText, rule, filePath);
+		}
 	}
 
-	private async refreshSectionHeaderContent(
-		view: MarkdownView,
-		forceReplace: boolean,
-		target?: { text: string; level: string }
-	): Promise<void> {
-		if (!view.file) {
+	private async processEmbedsInView(view: MarkdownView): Promise<void> {
+		if (!this.settings.enableEmbedRendering) {
 			return;
 		}
-
-		this.removeStaleSectionHeaderContent(view);
-		const applicableRulesWithContent = await this._getApplicableRulesAndContent(view.file.path);
-		for (const { rule, contentText, index } of applicableRulesWithContent) {
-			if (rule.renderLocation !== RenderLocation.SectionHeader) {
+		const embeds = Array.from(view.containerEl.querySelectorAll<HTMLElement>('.markdown-embed'));
+		this.logEmbedCanvasDebug('Embed scan in view', {
+			viewPath: view.file?.path,
+			embedCount: embeds.length
+		});
+		for (const embed of embeds) {
+			if (embed.closest('.popover.hover-popover')) {
 				continue;
 			}
-			if (
-				target &&
-				(
-					this.normalizeSectionHeaderText(rule.sectionHeaderText || '') !== target.text ||
-					(rule.sectionHeaderLevel || 'h2') !== target.level
-				)
-			) {
+			if (this.isEmbedInCanvas(embed)) {
+				continue;
+			}
+			const filePath = this.extractEmbedFilePath(embed);
+			if (!filePath) {
+				this.logEmbedCanvasDebug('Embed path not resolved', {
+					embedClass: embed.className
+				});
 				continue;
 			}
-			await this.renderAndInjectSectionHeaderContent(view, contentText, rule, index, forceReplace);
+			await this.processEmbedContainer(embed, filePath, (rule) => rule.showInEmbed !== false, 'embed');
 		}
-	}
-
-	private async renderAndInjectSectionHeaderContent(
-		view: MarkdownView,
-		contentText: string,
-		rule: Rule,
-		ruleIndex: number,
-		forceReplace: boolean = false
-	): Promise<void> {
-		if (!contentText || contentText.trim() === "" || !rule.sectionHeaderText?.trim()) {
-			return;
+		if (view.file?.path) {
+			this.embedLastScanByView.set(view, { filePath: view.file.path, time: Date.now() });
 		}
+	}
 
-		const sourcePath = view.file?.path || '';
-		const viewState = view.getState();
-		const existingSelector = `.${CSS_SECTION_HEADER_GROUP_ELEMENT}[data-rule-index="${ruleIndex}"][data-source-path="${sourcePath}"]`;
-		let container: HTMLElement | null = null;
-		let heading: HTMLElement | null = null;
-
-		if (viewState.mode !== 'preview') {
-			return;
+	private getCanvasNodes(): HTMLElement[] {
+		const activeDocument = this.getActiveDocument();
+		const canvasRoot = activeDocument.querySelector('.canvas');
+		const scopedNodes = canvasRoot ? Array.from(canvasRoot.querySelectorAll<HTMLElement>('.canvas-node')) : [];
+		if (scopedNodes.length > 0) {
+			return scopedNodes;
 		}
+		return Array.from(activeDocument.querySelectorAll<HTMLElement>('.canvas-node'));
+	}
 
-		container = view.previewMode.containerEl;
-		heading = this.findPreviewSectionTarget(container, rule);
+	private isCanvasActive(): boolean {
+		return !!this.getActiveDocument().querySelector('.workspace-leaf.mod-active .canvas, .workspace-leaf.mod-active .canvas-wrapper');
+	}
 
-		if (!container || !heading) {
+	private async processCanvasEmbeds(): Promise<void> {
+		if (!this.settings.enableCanvasRendering) {
 			return;
 		}
-
-		if (this.isHeadingCollapsed(heading)) {
-			this.removeSectionHeaderContent(container, ruleIndex);
+		if (!this.isCanvasActive()) {
 			return;
 		}
-
-		if (!forceReplace && view.containerEl.querySelector(existingSelector)) {
+		const activeDocument = this.getActiveDocument();
+		const canvasRoot = activeDocument.querySelector('.canvas');
+		if (!canvasRoot) {
 			return;
 		}
-
-		const component = new Component();
-		component.load();
-
-		const groupDiv = view.containerEl.createDiv() as HTMLElementWithComponent;
-		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${CSS_SECTION_HEADER_GROUP_ELEMENT}`;
-		this.setSectionHeaderDataset(groupDiv, rule, ruleIndex);
-		groupDiv.dataset.sourcePath = sourcePath;
-		groupDiv.component = component;
-
-		try {
-			await MarkdownRenderer.render(this.app, contentText, groupDiv, sourcePath, component);
-		} catch (error) {
-			console.error("VirtualFooter: Error rendering section header content:", error);
-			component.unload();
+		const canvasNodes = this.getCanvasNodes();
+		this.logEmbedCanvasDebug('Canvas embed scan', {
+			nodeCount: canvasNodes.length
+		});
+		if (canvasNodes.length === 0) {
 			return;
 		}
-
-		const placement = rule.sectionHeaderPlacement || 'top';
-		const level = this.getSectionHeaderLevelNumber(rule);
-		let injected = false;
-
-		if (viewState.mode === 'preview') {
-			if (heading) {
-				this.removeSectionHeaderContent(container, ruleIndex);
-				const anchor = heading.parentElement || heading;
-				if (placement === 'top') {
-					if (anchor !== heading) {
-						anchor.appendChild(groupDiv);
-					} else {
-						anchor.parentElement?.insertBefore(groupDiv, anchor.nextSibling);
-					}
-				} else {
-					const endNode = this.getPreviewSectionEnd(heading, level);
-					if (endNode) {
-						const previousElement = endNode.previousSibling?.instanceOf(HTMLElement) ? endNode.previousSibling : null;
-						if (previousElement && previousElement !== anchor) {
-							previousElement.appendChild(groupDiv);
-						} else {
-							endNode.parentElement?.insertBefore(groupDiv, endNode);
-						}
-					} else {
-						anchor.parentElement?.appendChild(groupDiv);
-					}
-				}
-				injected = true;
-				this.updateSectionHeaderVisibility(container, false);
+		for (const node of canvasNodes) {
+			const embedContainer = node.querySelector<HTMLElement>('.canvas-node-content.markdown-embed, .canvas-node-content .markdown-embed');
+			if (!embedContainer) {
+				continue;
 			}
-		}
-
-		if (injected) {
-			this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
-		} else {
-			component.unload();
+			if (node.classList.contains('is-editing') || embedContainer.querySelector('.cm-editor')) {
+				await this.removeInjectedContentDOM(embedContainer);
+				continue;
+			}
+			const filePath = this.extractCanvasNodePath(node);
+			if (!filePath) {
+				await this.removeInjectedContentDOM(embedContainer);
+				this.logEmbedCanvasDebug('Canvas embed path not resolved', {
+					embedClass: embedContainer.className
+				});
+				continue;
+			}
+			this.logEmbedCanvasDebug('Canvas embed resolved', {
+				filePath
+			});
+			await this.processEmbedContainer(embedContainer, filePath, (rule) => rule.showInCanvas !== false, 'canvas');
 		}
 	}
 
 	/**
-	 * Renders combined Markdown content and injects it into the specified location in the view.
-	 * @param view The MarkdownView to inject content into.
-	 * @param combinedContentText The combined Markdown string to render.
-	 * @param renderLocation Specifies whether to render in the header or footer.
-	 * @param renderAboveProperties For header content, whether to render above properties section.
-	 * @param renderAboveBacklinks For footer content, whether to render above backlinks section.
-	 * @returns The rendered HTMLElement if injection is deferred (for preview mode), otherwise null.
+	 * Process popover content directly when we can't find the MarkdownView
 	 */
-	private async renderAndInjectGroupedContent(
-		view: MarkdownView,
-		combinedContentText: string,
-		renderLocation: RenderLocation,
-		renderAboveProperties: boolean = false,
-		renderAboveBacklinks: boolean = false
-	): Promise<HTMLElementWithComponent | null> {
-		if (!combinedContentText || combinedContentText.trim() === "") {
-			return null;
+	private processPopoverDirectly(popover: HTMLElement): void {
+		// console.log("VirtualContent: Processing popover directly");
+		
+		// Try to extract the file path from the popover
+		const markdownEmbed = popover.querySelector('.markdown-embed');
+		if (!markdownEmbed) {
+			//console.log("VirtualContent: No markdown-embed found in popover");
+			return;
+		}
+		
+		let filePath: string | null = null;
+		
+		// Method 1: Get the title from inline-title and resolve to file path
+		const inlineTitle = popover.querySelector('.inline-title');
+		if (inlineTitle) {
+			const title = inlineTitle.textContent?.trim();
+			//console.log("VirtualContent: Found inline-title:", title);
+			
+			if (title) {
+				// Try to resolve the title to a file path using Obsidian's API
+				const file = this.app.metadataCache.getFirstLinkpathDest(title, '');
+				if (file) {
+					filePath = file.path;
+					//console.log("VirtualContent: Resolved title to file path:", filePath);
+				} else {
+					// If direct resolution fails, try with .md extension
+					const fileWithExt = this.app.metadataCache.getFirstLinkpathDest(title + '.md', '');
+					if (fileWithExt) {
+						filePath = fileWithExt.path;
+						//console.log("VirtualContent: Resolved title with .md extension to file path:", filePath);
+					} else {
+						//console.log("VirtualContent: Could not resolve title to file path");
+					}
+				}
+			}
+		}
+			
+		//console.log("VirtualContent: Final extracted file path for direct processing:", filePath);
+		
+		if (filePath) {
+			// Remove any hash fragments or block references
+			const cleanPath = filePath.split('#')[0].split('^')[0];
+			//console.log("VirtualContent: Cleaned file path:", cleanPath);
+			// Process the popover content directly
+			void this.injectContentIntoPopover(popover, cleanPath);
+		} else {
+			// console.log("VirtualContent: Could not determine file path for popover");
+			// // Log the DOM structure for debugging
+			// console.log("VirtualContent: Popover DOM structure:", popover.innerHTML.substring(0, 1000));
 		}
+	}
 
-		const isRenderInHeader = renderLocation === RenderLocation.Header;
-		const sourcePath = view.file?.path || ''; // For MarkdownRenderer context
+	/**
+	 * Directly inject virtual content into a popover
+	 */
+	private async injectContentIntoPopover(popover: HTMLElement, filePath: string): Promise<void> {
+		//console.log("VirtualContent: Directly injecting content into popover for:", filePath);
+		
+		try {
+			const applicableRulesWithContent = await this._getApplicableRulesAndContent(filePath);
+			
+			// Filter rules based on popover visibility setting
+			const filteredRules = applicableRulesWithContent.filter(({ rule }) => {
+				return rule.showInPopover !== false; // Show by default unless explicitly disabled
+			});
+			
+			if (filteredRules.length === 0) {
+				//console.log("VirtualContent: No applicable rules for popover");
+				return;
+			}
+			
+			// Find the markdown embed container
+			const markdownEmbed = popover.querySelector('.markdown-embed');
+			if (!markdownEmbed) return;
+			
+			// Group content by render location
+			const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
+			const footerContentGroups: { normal: string[], aboveBacklinks: string[] } = { normal: [], aboveBacklinks: [] };
+			const sectionHeaderRules: Array<{ rule: Rule; contentText: string }> = [];
+			const contentSeparator = "\n\n";
+			
+			for (const { rule, contentText } of filteredRules) {
+				if (!contentText || contentText.trim() === "") continue;
+				
+				if (rule.renderLocation === RenderLocation.Header) {
+					if (rule.renderAboveProperties) {
+						headerContentGroups.aboveProperties.push(contentText);
+					} else {
+						headerContentGroups.normal.push(contentText);
+					}
+				} else if (rule.renderLocation === RenderLocation.Footer) {
+					// For popovers, treat all footer content the same regardless of renderAboveBacklinks setting
+					// since backlinks don't exist in popovers
+					footerContentGroups.normal.push(contentText);
+				} else if (rule.renderLocation === RenderLocation.SectionHeader) {
+					sectionHeaderRules.push({ rule, contentText });
+				}
+				// Skip sidebar rules for popovers
+			}
+			
+			// Inject header content
+			if (headerContentGroups.normal.length > 0) {
+				const combinedContent = headerContentGroups.normal.join(contentSeparator);
+				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'header', false, filePath);
+			}
+			
+			if (headerContentGroups.aboveProperties.length > 0) {
+				const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
+				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'header', true, filePath);
+			}
+			
+			// Inject footer content
+			if (footerContentGroups.normal.length > 0) {
+				const combinedContent = footerContentGroups.normal.join(contentSeparator);
+				await this.injectContentIntoPopoverSection(markdownEmbed as HTMLElement, combinedContent, 'footer', false, filePath);
+			}
 
-		// Create container div for the content
-		const groupDiv = view.containerEl.createDiv() as HTMLElementWithComponent;
-		groupDiv.className = CSS_DYNAMIC_CONTENT_ELEMENT; // Base class for all injected content
-		groupDiv.classList.add(
-			isRenderInHeader ? CSS_HEADER_GROUP_ELEMENT : CSS_FOOTER_GROUP_ELEMENT,
-			isRenderInHeader ? CSS_HEADER_RENDERED_CONTENT : CSS_FOOTER_RENDERED_CONTENT
-		);
+			for (const { rule, contentText } of sectionHeaderRules) {
+				await this.injectContentIntoPopoverSectionHeader(markdownEmbed as HTMLElement, contentText, rule, filePath);
+			}
+			
+		} catch (error) {
+			console.error("VirtualContent: Error processing popover directly:", error);
+		}
+	}
 
-		// Add the above-backlinks class for footer content when the setting is enabled
-		if (!isRenderInHeader && renderAboveBacklinks) {
-			groupDiv.classList.add(CSS_ABOVE_BACKLINKS);
-			groupDiv.classList.add('virtual-footer-above-backlinks');
+	/**
+	 * Inject content into a specific section of a popover
+	 */
+	private async injectContentIntoPopoverSection(
+		container: HTMLElement, 
+		content: string, 
+		location: 'header' | 'footer', 
+		special: boolean, 
+		filePath: string,
+		context?: 'embed' | 'canvas'
+	): Promise<void> {
+		const isHeader = location === 'header';
+		const cssClass = isHeader ? CSS_HEADER_GROUP_ELEMENT : CSS_FOOTER_GROUP_ELEMENT;
+		const specialClass = isHeader ? 'virtual-footer-above-properties' : 'virtual-footer-above-backlinks';
+		
+		// Create new content container
+		const groupDiv = container.createDiv() as HTMLElementWithComponent;
+		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${cssClass}`;
+		groupDiv.dataset.sourcePath = filePath;
+		if (special) {
+			groupDiv.classList.add(specialClass);
+		}
+		if (context === 'embed') {
+			groupDiv.classList.add('virtual-footer-embedded-content');
+		}
+		if (context === 'canvas') {
+			groupDiv.classList.add('virtual-footer-canvas-content');
 		}
 		
-		// Add the above-properties class for header content when the setting is enabled
-		if (isRenderInHeader && renderAboveProperties) {
-			groupDiv.classList.add('virtual-footer-above-properties');
+		// Add additional CSS classes for consistency with main view injection
+		if (isHeader) {
+			groupDiv.classList.add(CSS_HEADER_RENDERED_CONTENT);
+		} else {
+			groupDiv.classList.add(CSS_FOOTER_RENDERED_CONTENT);
+			if (special) {
+				groupDiv.classList.add(CSS_ABOVE_BACKLINKS);
+			}
 		}
-
-		// Create and manage an Obsidian Component for the lifecycle of this content
+		
+		// Create component for lifecycle management
 		const component = new Component();
 		component.load();
 		groupDiv.component = component;
-
-		// Try to render the Markdown content with retry logic for early load errors
+		
 		try {
-			await MarkdownRenderer.render(this.app, combinedContentText, groupDiv, sourcePath, component);
-		} catch (error) {
-			console.error("VirtualFooter: Error during initial render, will retry after delay:", error);
-			
-			// Add a placeholder while waiting to retry
-			const placeholderEl = groupDiv.createDiv({ cls: "virtual-footer-loading" });
-			placeholderEl.createEl("p", { text: "Loading virtual content..." });
+			// Render the content
+			await MarkdownRenderer.render(this.app, content, groupDiv, filePath, component);
+			this.attachInternalLinkHandlers(groupDiv, filePath, component);
 			
-			// Schedule a retry after a delay to allow other plugins to initialize
-			window.setTimeout(() => {
-				void (async () => {
-					try {
-						placeholderEl.remove();
-						await MarkdownRenderer.render(this.app, combinedContentText, groupDiv, sourcePath, component);
-						this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
-					} catch (secondError) {
-						console.error("VirtualFooter: Failed to render content after retry:", secondError);
-						const errorEl = groupDiv.createDiv({ cls: "virtual-footer-error" });
-						errorEl.createEl("p", { text: "Error rendering virtual content. Please reload the page or check the content for errors." });
-					}
-				})();
-			}, 2000); // 2 second delay
-		}
-
-		let injectionSuccessful = false;
-		const viewState = view.getState();
-
-		// Inject based on view mode and render location
-		if (viewState.mode === 'preview') { // Reading mode
-			const previewContentParent = view.previewMode.containerEl;
+			// Use the same logic as main view injection - find target parent using standard selectors
 			let targetParent: HTMLElement | null = null;
 			
-			if (isRenderInHeader) {
-				if (renderAboveProperties) {
-					// Try to find metadata container first
-					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
+			// First, detect if we're in editing mode or preview mode
+			// Check if the popover container has the is-editing class
+			const popoverContainer = container.closest('.popover.hover-popover');
+			const isEditingMode = popoverContainer?.classList.contains('is-editing') || 
+								  container.querySelector(SELECTOR_EDITOR_SIZER) !== null;
+			//console.log(`VirtualContent: Popover is in ${isEditingMode ? 'editing' : 'preview'} mode`);
+			
+			if (isHeader) {
+				if (special) {
+					// Try to find metadata container first (same as main view logic)
+					targetParent = this.findMetadataContainer(container);
 				}
-				// If no metadata container or renderAboveProperties is false, use regular header
+				// If no metadata container or special is false, use appropriate header area
 				if (!targetParent) {
-					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
+					if (isEditingMode) {
+						// In editing mode, we need to find the content container and insert before it
+						const cmContentContainer = container.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
+						if (cmContentContainer?.parentElement) {
+							// We'll handle the insertion differently for editing mode headers
+							targetParent = cmContentContainer.parentElement;
+						}
+					} else {
+						// In preview mode, use regular header area
+						targetParent = container.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
+						if (!targetParent) {
+							targetParent = container.querySelector<HTMLElement>('.markdown-preview-view, .markdown-embed-content');
+						}
+					}
 				}
 			} else { // Footer
-				if (renderAboveBacklinks) {
-					// Try to find embedded backlinks first
-					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
+				if (special) {
+					// Try to find embedded backlinks first (same as main view logic)
+					targetParent = container.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
 				}
-				// If no backlinks or renderAboveBacklinks is false, use regular footer
+				// If no backlinks or special is false, use appropriate footer area
 				if (!targetParent) {
-					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
-				}
-			}
-			
+					if (isEditingMode) {
+						// In editing mode, use editor sizer
+						targetParent = container.querySelector<HTMLElement>(SELECTOR_EDITOR_SIZER);
+					} else {
+						// In preview mode, try standard footer area first
+						targetParent = container.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
+						// Fallback for popovers: use markdown-preview-sizer if standard footer selectors don't exist
+						if (!targetParent) {
+							targetParent = container.querySelector<HTMLElement>('.markdown-preview-sizer.markdown-preview-section');
+						}
+					}
+				}
+			}
+			
 			if (targetParent) {
-				// Ensure idempotency: remove any existing content of this type before adding new
-				if (isRenderInHeader && renderAboveProperties) {
+				// Remove existing content of this type (same cleanup logic as main view)
+				if (isHeader && special) {
 					// Remove existing header content above properties
-					view.previewMode.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
+					container.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
 						const holder = el as HTMLElementWithComponent;
 						holder.component?.unload();
 						el.remove();
 					});
-				} else if (isRenderInHeader && !renderAboveProperties) {
+				} else if (isHeader && !special) {
 					// Remove existing normal header content
 					targetParent.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}:not(.virtual-footer-above-properties)`).forEach(el => {
 						const holder = el as HTMLElementWithComponent;
 						holder.component?.unload();
 						el.remove();
 					});
-				} else if (!isRenderInHeader && renderAboveBacklinks) {
+				} else if (!isHeader && special) {
 					// Remove existing footer content above backlinks
-					view.previewMode.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
+					container.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
 						const holder = el as HTMLElementWithComponent;
 						holder.component?.unload();
 						el.remove();
 					});
-				} else if (!isRenderInHeader && !renderAboveBacklinks) {
+				} else if (!isHeader && !special) {
 					// Remove existing normal footer content
 					targetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}:not(.virtual-footer-above-backlinks)`).forEach(el => {
 						const holder = el as HTMLElementWithComponent;
@@ -2097,1651 +3301,5411 @@ export default class VirtualFooterPlugin extends Plugin {
 					});
 				}
 				
-				if (isRenderInHeader && !renderAboveProperties) {
-					targetParent.appendChild(groupDiv);
-				} else if (!isRenderInHeader && !renderAboveBacklinks) {
-					targetParent.appendChild(groupDiv);
-				} else {
-					// Insert before properties or backlinks
-					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
-				}
-				injectionSuccessful = true;
-			}
-		} else if (viewState.mode === 'source') { // Live Preview or Source mode
-			if (isRenderInHeader) {
-				let targetParent: HTMLElement | null = null;
-				
-				if (renderAboveProperties) {
-					// Try to find metadata container first in live preview
-					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
-				}
-				
-				// If no metadata container or renderAboveProperties is false, use content container
-				if (!targetParent) {
-					const cmContentContainer = view.containerEl.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
-					if (cmContentContainer?.parentElement) {
-						// Ensure idempotency: remove existing normal header content
-						cmContentContainer.parentElement.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}:not(.virtual-footer-above-properties)`).forEach(el => {
-							const holder = el as HTMLElementWithComponent;
-							holder.component?.unload();
-							el.remove();
-						});
-						cmContentContainer.parentElement.insertBefore(groupDiv, cmContentContainer);
-						injectionSuccessful = true;
-					}
-				} else {
-					// Ensure idempotency: remove existing header content above properties
-					view.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-					// Insert before properties
-					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
-					injectionSuccessful = true;
-				}
-			} else { // Footer in Live Preview or Source mode
-				let targetParent: HTMLElement | null = null;
-				
-				if (renderAboveBacklinks) {
-					// Try to find embedded backlinks first in live preview
-					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
-				}
-				
-				// If no backlinks or renderAboveBacklinks is false, use regular editor sizer
-				if (!targetParent) {
-					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_EDITOR_SIZER);
-				}
-				
-				if (targetParent) {
-					// Ensure idempotency: remove existing content of the appropriate type
-					if (renderAboveBacklinks) {
-						// Remove existing footer content above backlinks
-						view.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
-							const holder = el as HTMLElementWithComponent;
-							holder.component?.unload();
-							el.remove();
-						});
+				// Insert using mode-specific logic
+				if (isHeader && !special) {
+					if (isEditingMode && targetParent.querySelector(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER)) {
+						// For editing mode headers, insert before the content container
+						const cmContentContainer = targetParent.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
+						if (cmContentContainer) {
+							targetParent.insertBefore(groupDiv, cmContentContainer);
+						} else {
+							targetParent.appendChild(groupDiv);
+						}
 					} else {
-						// Remove existing normal footer content
-						targetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}:not(.virtual-footer-above-backlinks)`).forEach(el => {
-							const holder = el as HTMLElementWithComponent;
-							holder.component?.unload();
-							el.remove();
-						});
+						// For preview mode headers, append to header area
+						targetParent.appendChild(groupDiv);
 					}
-					
-					if (!renderAboveBacklinks || targetParent.matches(SELECTOR_EDITOR_SIZER)) {
+				} else if (!isHeader && !special) {
+					// For footer content
+					if (isEditingMode) {
+						// In editing mode, append to editor sizer
 						targetParent.appendChild(groupDiv);
 					} else {
-						// Insert before backlinks
-						targetParent.parentElement?.insertBefore(groupDiv, targetParent);
+						// In preview mode, check if we're using the popover fallback selector
+						if (targetParent.matches('.markdown-preview-sizer.markdown-preview-section')) {
+							// Insert after the markdown-preview-sizer, not inside it
+							targetParent.parentElement?.insertBefore(groupDiv, targetParent.nextSibling);
+						} else {
+							// For regular footer areas, append inside
+							targetParent.appendChild(groupDiv);
+						}
 					}
-					injectionSuccessful = true;
+				} else {
+					// Insert before properties or backlinks (same as main view)
+					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
 				}
-			}
-		}
-
-		if (injectionSuccessful) {
-			this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
-			return null; // Injection successful, no need to return element
-		} else {
-			// If injection failed in preview mode, it might be because the target DOM isn't ready.
-			// Return the div to be handled by the MutationObserver.
-			if (viewState.mode === 'preview') {
-				console.debug(`VirtualFooter: Deferring injection for ${renderLocation} in preview mode. Target not found yet.`);
-				return groupDiv; // Return for deferred injection
+				
+				//console.log(`VirtualContent: Successfully injected ${location} content into popover using standard selectors`);
 			} else {
-				// For other modes, if injection fails, unload component and log warning.
-				component.unload();
-				console.warn(`VirtualFooter: Failed to find injection point for dynamic content group (${renderLocation}). View mode: ${viewState.mode}.`);
-				return null;
+				//console.log(`VirtualContent: Target parent not found for ${location} injection in popover, falling back to container`);
+				// Fallback to simple container injection if selectors don't match
+				if (isHeader) {
+					container.insertBefore(groupDiv, container.firstChild);
+				} else {
+					container.appendChild(groupDiv);
+				}
 			}
+			
+		} catch (error) {
+			console.error("VirtualContent: Error rendering content for popover:", error);
+			component.unload();
 		}
 	}
 
-	/**
-	 * Ensures a MutationObserver is set up for a view in preview mode to handle deferred content injection.
-	 * The observer watches for the appearance of target DOM elements and is careful not to act on stale data.
-	 * @param view The MarkdownView to observe.
-	 */
-	private ensurePreviewObserver(view: MarkdownView): void {
-		if (this.previewObservers.has(view) || !view.file || !view.previewMode?.containerEl) {
-			return; // Observer already exists, or view/file/container not ready
+	private async injectContentIntoPopoverSectionHeader(
+		container: HTMLElement,
+		content: string,
+		rule: Rule,
+		filePath: string
+	): Promise<void> {
+		if (!content || content.trim() === "" || !rule.sectionHeaderText?.trim()) {
+			return;
 		}
 
-		const observerPath = view.file.path; // Path this observer is responsible for.
+		const component = new Component();
+		component.load();
 
-		const observer = new MutationObserver((_mutations) => {
-			const pending = this.pendingPreviewInjections.get(view);
+		const groupDiv = container.createDiv() as HTMLElementWithComponent;
+		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${CSS_SECTION_HEADER_GROUP_ELEMENT}`;
+		this.setSectionHeaderDataset(groupDiv, rule);
+		groupDiv.dataset.sourcePath = filePath;
+		groupDiv.component = component;
 
-			// This observer is stale and should self-destruct if:
-			// 1. The view has no file or has navigated to a different file.
-			// 2. There are no pending injections for this view.
-			// 3. The pending injections are for a different file.
-			if (!view.file || view.file.path !== observerPath || !pending || pending.filePath !== observerPath) {
-				observer.disconnect();
-				// Only remove this specific observer instance from the map
-				if (this.previewObservers.get(view) === observer) {
-					this.previewObservers.delete(view);
-				}
+		try {
+			await MarkdownRenderer.render(this.app, content, groupDiv, filePath, component);
+			this.attachInternalLinkHandlers(groupDiv, filePath, component);
+
+			const popoverContainer = container.closest('.popover.hover-popover');
+			const isEditingMode = popoverContainer?.classList.contains('is-editing') ||
+				container.querySelector(SELECTOR_EDITOR_SIZER) !== null;
+			const level = this.getSectionHeaderLevelNumber(rule);
+			const placement = rule.sectionHeaderPlacement || 'top';
+			const target = isEditingMode
+				? this.findEditorSectionTarget(container, rule)
+				: this.findPreviewSectionTarget(container, rule);
+
+			if (!target) {
+				component.unload();
 				return;
 			}
 
-			// If there's nothing left to inject, clean up and disconnect.
-			if (!pending.headerDiv && !pending.footerDiv && !pending.headerAbovePropertiesDiv && !pending.footerAboveBacklinksDiv) {
-				observer.disconnect();
-				if (this.previewObservers.get(view) === observer) {
-					this.previewObservers.delete(view);
-				}
-				this.pendingPreviewInjections.delete(view);
+			this.removeSectionHeaderContent(container, rule.id);
+			if (this.isHeadingCollapsed(target)) {
+				component.unload();
 				return;
 			}
 
-			let allResolved = true;
-			const sourcePath = view.file.path;
-
-			// Attempt to inject pending header content
-			if (pending.headerDiv) {
-				const headerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
-				if (headerTargetParent) {
-					// Ensure idempotency: remove any existing header content before adding new.
-					headerTargetParent.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-					headerTargetParent.appendChild(pending.headerDiv);
-					if (pending.headerDiv.component) {
-						this.attachInternalLinkHandlers(pending.headerDiv, sourcePath, pending.headerDiv.component);
-					}
-					delete pending.headerDiv; // Injection successful
+			if (isEditingMode) {
+				if (placement === 'top') {
+					target.parentElement?.insertBefore(groupDiv, target.nextSibling);
 				} else {
-					allResolved = false; // Target not yet available
+					const endNode = this.getEditorSectionEnd(target, level);
+					if (endNode) {
+						endNode.parentElement?.insertBefore(groupDiv, endNode);
+					} else {
+						target.parentElement?.appendChild(groupDiv);
+					}
 				}
-			}
-
-			// Attempt to inject pending header content above properties
-			if (pending.headerAbovePropertiesDiv) {
-				const headerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
-				if (headerTargetParent) {
-					// Ensure idempotency: remove any existing content of this type
-					view.previewMode.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-					// Add a class to distinguish this from regular header content
-					pending.headerAbovePropertiesDiv.classList.add('virtual-footer-above-properties');
-					// Insert before properties
-					headerTargetParent.parentElement?.insertBefore(pending.headerAbovePropertiesDiv, headerTargetParent);
-					if (pending.headerAbovePropertiesDiv.component) {
-						this.attachInternalLinkHandlers(pending.headerAbovePropertiesDiv, sourcePath, pending.headerAbovePropertiesDiv.component);
-					}
-					delete pending.headerAbovePropertiesDiv; // Injection successful
+			} else {
+				const anchor = target.parentElement || target;
+				if (placement === 'top') {
+					anchor.parentElement?.insertBefore(groupDiv, anchor.nextSibling);
 				} else {
-					allResolved = false; // Target not yet available
-				}
-			}
-
-			// Attempt to inject pending footer content
-			if (pending.footerDiv) {
-				const footerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
-				if (footerTargetParent) {
-					// Ensure idempotency: remove any existing footer content before adding new.
-					footerTargetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-					footerTargetParent.appendChild(pending.footerDiv);
-					if (pending.footerDiv.component) {
-						this.attachInternalLinkHandlers(pending.footerDiv, sourcePath, pending.footerDiv.component);
+					const endNode = this.getPreviewSectionEnd(target, level);
+					if (endNode) {
+						endNode.parentElement?.insertBefore(groupDiv, endNode);
+					} else {
+						anchor.parentElement?.appendChild(groupDiv);
 					}
-					delete pending.footerDiv; // Injection successful
-				} else {
-					allResolved = false; // Target not yet available
 				}
 			}
+			this.updateSectionHeaderVisibility(container, isEditingMode);
+		} catch (error) {
+			console.error("VirtualContent: Error rendering section header content for popover:", error);
+			component.unload();
+		}
+	}
 
-			// Attempt to inject pending footer content above backlinks
-			if (pending.footerAboveBacklinksDiv) {
-				const footerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
-				if (footerTargetParent) {
-					// Ensure idempotency: remove any existing content of this type
-					view.previewMode.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
-						const holder = el as HTMLElementWithComponent;
-						holder.component?.unload();
-						el.remove();
-					});
-					// Add a class to distinguish this from regular footer content
-					pending.footerAboveBacklinksDiv.classList.add('virtual-footer-above-backlinks');
-					// Insert before backlinks
-					footerTargetParent.parentElement?.insertBefore(pending.footerAboveBacklinksDiv, footerTargetParent);
-					if (pending.footerAboveBacklinksDiv.component) {
-						this.attachInternalLinkHandlers(pending.footerAboveBacklinksDiv, sourcePath, pending.footerAboveBacklinksDiv.component);
-					}
-					delete pending.footerAboveBacklinksDiv; // Injection successful
-				} else {
-					allResolved = false; // Target not yet available
-				}
+	/**
+	 * Processes a given Markdown view to inject or update dynamic content.
+	 * @param view The MarkdownView to process.
+	 * @param updateSidebar Whether the view's sidebar content replaces what the sidebar shows. Defaults to true.
+	 */
+	private async _processView(view: MarkdownView | null, updateSidebar = true): Promise<void> {
+		if (!view || !view.file) {
+			// If 'refresh on focus' is off, we clear the sidebar when focus is lost from a markdown file.
+			// If it's on, we only clear the sidebar if the last markdown file has been closed,
+			// preserving the content when switching to non-markdown views.
+			if (!this.settings.refreshOnFileOpen || this.app.workspace.getLeavesOfType('markdown').length === 0) {
+				this.lastSidebarContent = null;
+				this.lastSeparateTabContents.clear();
+				this.updateAllSidebarViews();
 			}
+			return; // No view or file to process
+		}
 
-			// If all pending injections are resolved, disconnect the observer
-			if (allResolved) {
-				observer.disconnect();
-				if (this.previewObservers.get(view) === observer) {
-					this.previewObservers.delete(view);
-				}
-				this.pendingPreviewInjections.delete(view);
+		// Check if this is a popover view
+		const isPopoverView = this.isInPopover(view);
+
+		await this.removeDynamicContentFromView(view, true); // Clear existing content first, preserving section content until its target is found
+		this.removeStaleSectionHeaderContent(view);
+		const applicableRulesWithContent = await this._getApplicableRulesAndContent(view.file.path);
+		if (updateSidebar) {
+			this.lastActiveMatchSignature = {
+				filePath: view.file.path,
+				signature: applicableRulesWithContent
+					.filter(({ rule }) => ruleHasCondition(rule, condition => condition.type === 'file-date'))
+					.map(({ rule }) => rule.id)
+					.join(','),
+			};
+		}
+
+		// Filter rules based on popover visibility setting
+		const filteredRules = applicableRulesWithContent.filter(({ rule }) => {
+			if (isPopoverView && rule.showInPopover === false) {
+				return false; // Skip this rule in popover views
 			}
+			return true;
 		});
 
-		// Start observing the preview container for child and subtree changes
-		observer.observe(view.previewMode.containerEl, { childList: true, subtree: true });
-		this.previewObservers.set(view, observer);
-	}
+		const viewState = view.getState();
+		let combinedSidebarText = "";
+		let hasFooterRule = false;
+		const contentSeparator = "\n\n"; // Separator between content from multiple rules
+		// Background views collect their sidebar content into a throwaway map, so the sidebar keeps showing the active note
+		const separateTabContents = updateSidebar ? this.lastSeparateTabContents : new Map<string, { content: string, sourcePath: string }>();
+		separateTabContents.clear();
 
-	/**
-	 * Applies CSS classes to adjust CodeMirror (Live Preview) layout for footer content.
-	 * @param view The MarkdownView in Live Preview mode.
-	 */
-	private computeFooterBottomPaddingPx(containerHeight: number): number {
-		const rawPadding = Math.round(containerHeight * VIRTUAL_FOOTER_BOTTOM_PADDING_RATIO);
-		return Math.max(VIRTUAL_FOOTER_BOTTOM_PADDING_MIN, Math.min(VIRTUAL_FOOTER_BOTTOM_PADDING_MAX, rawPadding));
-	}
+		// Combine content from all applicable rules, grouping by render location and positioning
+		const headerContentGroups: { normal: string[], aboveProperties: string[] } = { normal: [], aboveProperties: [] };
+		const footerContentGroups: { normal: string[], aboveBacklinks: string[] } = { normal: [], aboveBacklinks: [] };
+		const sectionHeaderRules: Array<{ rule: Rule; contentText: string }> = [];
+		
+		for (const { rule, contentText } of filteredRules) {
+			if (!contentText || contentText.trim() === "") continue; // Skip empty content
 
-	private applyFooterBottomPadding(view: MarkdownView): void {
-		const updatePadding = () => {
-			const containerHeight = view.containerEl.clientHeight;
-			if (!containerHeight) {
-				return;
+			if (rule.renderLocation === RenderLocation.Header) {
+				if (rule.renderAboveProperties) {
+					headerContentGroups.aboveProperties.push(contentText);
+				} else {
+					headerContentGroups.normal.push(contentText);
+				}
+			} else if (rule.renderLocation === RenderLocation.Footer) {
+				if (rule.renderAboveBacklinks) {
+					footerContentGroups.aboveBacklinks.push(contentText);
+				} else {
+					footerContentGroups.normal.push(contentText);
+				}
+				hasFooterRule = true;
+			} else if (rule.renderLocation === RenderLocation.Sidebar) {
+				if (rule.showInSeparateTab) {
+					const viewId = this.getSeparateViewId(rule);
+					const existingContent = separateTabContents.get(viewId)?.content || "";
+					separateTabContents.set(viewId, {
+						content: (existingContent ? existingContent + contentSeparator : "") + contentText,
+						sourcePath: view.file.path
+					});
+				} else {
+					combinedSidebarText += (combinedSidebarText ? contentSeparator : "") + contentText;
+				}
+			} else if (rule.renderLocation === RenderLocation.SectionHeader) {
+				sectionHeaderRules.push({ rule, contentText });
 			}
-			const paddingPx = this.computeFooterBottomPaddingPx(containerHeight);
-			view.containerEl.style.setProperty(CSS_VIRTUAL_FOOTER_BOTTOM_PADDING_VAR, `${paddingPx}px`);
-		};
-
-		updatePadding();
-		if (!this.footerPaddingObservers.has(view)) {
-			const observer = new ResizeObserver(() => {
-				updatePadding();
-			});
-			observer.observe(view.containerEl);
-			this.footerPaddingObservers.set(view, observer);
 		}
-	}
 
-	private removeFooterBottomPadding(view: MarkdownView): void {
-		const observer = this.footerPaddingObservers.get(view);
-		if (observer) {
-			observer.disconnect();
-			this.footerPaddingObservers.delete(view);
+		// Store sidebar content and update the view
+		if (updateSidebar) {
+			this.lastSidebarContent = { content: combinedSidebarText, sourcePath: view.file.path };
+			this.updateAllSidebarViews();
 		}
-		view.containerEl.style.removeProperty(CSS_VIRTUAL_FOOTER_BOTTOM_PADDING_VAR);
-	}
-
-	/**
-	 * Applies CSS classes to adjust CodeMirror (Live Preview) layout for footer content.
-	 * @param view The MarkdownView in Live Preview mode.
-	 */
-	private applyLivePreviewFooterStyles(view: MarkdownView): void {
-		const contentEl = view.containerEl.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_AREA);
-		const containerEl = view.containerEl.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_CONTAINER_PARENT);
-		contentEl?.classList.add(CSS_VIRTUAL_FOOTER_CM_PADDING);
-		containerEl?.classList.add(CSS_VIRTUAL_FOOTER_REMOVE_FLEX);
-		this.livePreviewFooterStyleApplied.set(view, true);
 
-		// Keep Live Preview bottom spacing stable even when Obsidian rewrites inline styles.
-		if (contentEl) {
-			const observedContentEl = contentEl as HTMLDivElement & { observer?: MutationObserver };
-			const expectedPadding = 'var(--p-spacing)';
-			const enforcePadding = () => {
-				const currentPadding = contentEl.style.getPropertyValue('padding-bottom');
-				const currentPriority = contentEl.style.getPropertyPriority('padding-bottom');
-				if (currentPadding !== expectedPadding || currentPriority !== 'important') {
-					contentEl.style.setProperty('padding-bottom', expectedPadding, 'important');
-				}
-			};
+		// Determine if we should render based on view mode and settings
+		const isLivePreview = viewState.mode === 'source' && !viewState.source;
+		const isSourceMode = viewState.mode === 'source' && viewState.source;
+		const isReadingMode = viewState.mode === 'preview';
 
-			enforcePadding();
-			
-			// Watch for style mutations and reapply if needed.
-			observedContentEl.observer?.disconnect();
-			const observer = new MutationObserver(() => {
-				enforcePadding();
-			});
-			
-			observer.observe(contentEl, { attributes: true, attributeFilter: ['style'] });
+		const shouldRenderInSource = isSourceMode && this.settings.renderInSourceMode;
+		const shouldRenderInLivePreview = isLivePreview;
+		const shouldRenderInReading = isReadingMode;
 
-			// Store observer so it can be disconnected during cleanup.
-			observedContentEl.observer = observer;
+		// Apply specific styles for Live Preview footers if needed
+		if ((shouldRenderInLivePreview || shouldRenderInSource) && hasFooterRule) {
+			this.applyLivePreviewFooterStyles(view);
 		}
-	}
 
-	/**
-	 * Removes CSS classes used for Live Preview footer layout adjustments.
-	 * @param viewOrContainer The MarkdownView or a specific HTMLElement container.
-	 */
-	private removeLivePreviewFooterStyles(viewOrContainer: MarkdownView | HTMLElement): void {
-		const container = viewOrContainer instanceof MarkdownView ? viewOrContainer.containerEl : viewOrContainer;
-		const contentEl = container.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_AREA);
-		const containerEl = container.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_CONTAINER_PARENT);
-		const view = viewOrContainer instanceof MarkdownView ? viewOrContainer : null;
-		if (view && !this.livePreviewFooterStyleApplied.get(view)) {
-			return;
+		if (hasFooterRule && (shouldRenderInReading || shouldRenderInLivePreview || shouldRenderInSource)) {
+			this.applyFooterBottomPadding(view);
+		} else {
+			this.removeFooterBottomPadding(view);
 		}
-		contentEl?.classList.remove(CSS_VIRTUAL_FOOTER_CM_PADDING);
-		containerEl?.classList.remove(CSS_VIRTUAL_FOOTER_REMOVE_FLEX);
 
-		// Restore native-like bottom spacing instead of clearing it entirely.
-		if (contentEl) {
-			const observedContentEl = contentEl as HTMLDivElement & { observer?: MutationObserver };
-			const containerHeight = container.clientHeight;
-			if (containerHeight > 0) {
-				contentEl.style.setProperty('padding-bottom', `${this.computeFooterBottomPaddingPx(containerHeight)}px`);
-			} else {
-				contentEl.style.removeProperty('padding-bottom');
-			}
-			if (observedContentEl.observer) {
-				observedContentEl.observer.disconnect();
-				delete observedContentEl.observer;
-			}
-		}
-		if (view) {
-			this.livePreviewFooterStyleApplied.delete(view);
-		}
-	}
+		let pendingHeaderDiv: HTMLElementWithComponent | null = null;
+		let pendingFooterDiv: HTMLElementWithComponent | null = null;
+		let pendingHeaderAbovePropertiesDiv: HTMLElementWithComponent | null = null;
+		let pendingFooterAboveBacklinksDiv: HTMLElementWithComponent | null = null;
 
-	/**
-	 * Removes all plugin-injected DOM elements from a given container.
-	 * @param containerEl The HTMLElement to search within.
-	 */
-	private async removeInjectedContentDOM(containerEl: HTMLElement, preserveSectionHeader: boolean = false): Promise<void> {
-		containerEl.querySelectorAll(`.${CSS_DYNAMIC_CONTENT_ELEMENT}`).forEach(el => {
-			if (preserveSectionHeader && el.classList.contains(CSS_SECTION_HEADER_GROUP_ELEMENT)) {
-				return;
+		// Render and inject content based on view mode, handling each positioning group separately
+		if (shouldRenderInReading || shouldRenderInLivePreview || shouldRenderInSource) {
+			// Handle normal header content
+			if (headerContentGroups.normal.length > 0) {
+				const combinedContent = headerContentGroups.normal.join(contentSeparator);
+				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Header, false);
+				if (result && shouldRenderInReading) {
+					pendingHeaderDiv = result;
+				}
 			}
-			const componentHolder = el as HTMLElementWithComponent;
-			if (componentHolder.component) {
-				componentHolder.component.unload(); // Unload associated Obsidian component
+			
+			// Handle header content above properties
+			if (headerContentGroups.aboveProperties.length > 0) {
+				const combinedContent = headerContentGroups.aboveProperties.join(contentSeparator);
+				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Header, true);
+				if (result && shouldRenderInReading) {
+					pendingHeaderAbovePropertiesDiv = result;
+				}
+			}
+			
+			// Handle normal footer content
+			if (footerContentGroups.normal.length > 0) {
+				const combinedContent = footerContentGroups.normal.join(contentSeparator);
+				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Footer, false, false);
+				if (result && shouldRenderInReading) {
+					pendingFooterDiv = result;
+				}
+			}
+			
+			// Handle footer content above backlinks
+			if (footerContentGroups.aboveBacklinks.length > 0) {
+				const combinedContent = footerContentGroups.aboveBacklinks.join(contentSeparator);
+				const result = await this.renderAndInjectGroupedContent(view, combinedContent, RenderLocation.Footer, false, true);
+				if (result && shouldRenderInReading) {
+					pendingFooterAboveBacklinksDiv = result;
+				}
 			}
-			el.remove(); // Remove the element from DOM
-		});
-	}
 
-	/**
-	 * Removes all dynamic content, styles, and observers associated with a specific view.
-	 * @param view The MarkdownView to clean up.
-	 */
-	private async removeDynamicContentFromView(view: MarkdownView, preserveSectionHeader: boolean = false): Promise<void> {
-		this.removeLivePreviewFooterStyles(view);
-		this.removeFooterBottomPadding(view);
-		await this.removeInjectedContentDOM(view.containerEl, preserveSectionHeader);
+			for (const { rule, contentText } of sectionHeaderRules) {
+				await this.renderAndInjectSectionHeaderContent(view, contentText, rule, true);
+			}
 
-		// Disconnect and remove observer for this view
-		const observer = this.previewObservers.get(view);
-		if (observer) {
-			observer.disconnect();
-			this.previewObservers.delete(view);
 		}
 
-		// Clean up any pending injections for this view
-		const pending = this.pendingPreviewInjections.get(view);
-		if (pending) {
-			pending.headerDiv?.component?.unload();
-			pending.footerDiv?.component?.unload();
-			this.pendingPreviewInjections.delete(view);
+		// If any content is pending for preview mode, set up an observer
+		if (pendingHeaderDiv || pendingFooterDiv || pendingHeaderAbovePropertiesDiv || pendingFooterAboveBacklinksDiv) {
+			this.pendingPreviewInjections.set(view, {
+				headerDiv: pendingHeaderDiv || undefined,
+				footerDiv: pendingFooterDiv || undefined,
+				headerAbovePropertiesDiv: pendingHeaderAbovePropertiesDiv || undefined,
+				footerAboveBacklinksDiv: pendingFooterAboveBacklinksDiv || undefined,
+				filePath: view.file.path,
+			});
+			this.ensurePreviewObserver(view);
 		}
 
-		// Disconnect embed observer for this view
-		const embedObserver = this.embedObservers.get(view);
-		if (embedObserver) {
-			embedObserver.disconnect();
-			this.embedObservers.delete(view);
-		}
-		const embedRefreshTimeout = this.embedRefreshTimeouts.get(view);
-		if (embedRefreshTimeout) {
-			window.clearTimeout(embedRefreshTimeout);
-			this.embedRefreshTimeouts.delete(view);
-		}
+		this.ensureEmbedObserver(view);
+		await this.processEmbedsInView(view);
+		this.queueCanvasEmbedRefresh();
 	}
 
-	/**
-	 * Clears dynamic content from all currently open Markdown views.
-	 * Typically used during plugin unload or when global settings change significantly.
-	 */
-	private clearAllViewsDynamicContent(): void {
-		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
-			if (leaf.view instanceof MarkdownView) {
-				void this.removeDynamicContentFromView(leaf.view);
-			}
-		});
-		// Also clear sidebar
-		this.lastSidebarContent = null;
-		this.lastSeparateTabContents.clear();
-		this.updateAllSidebarViews();
+	private normalizeSectionHeaderText(text: string): string {
+		return text.replace(/\s+/g, ' ').trim().toLowerCase();
 	}
 
-	/**
-	 * Determines which rules apply to a given file path and fetches their content.
-	 * @param filePath The path of the file to check against rules.
-	 * @returns A promise that resolves to an array of objects, each containing an applicable rule and its content.
-	 */
-	private async _getApplicableRulesAndContent(filePath: string): Promise<Array<{ rule: Rule; contentText: string; index: number }>> {
-		const allApplicable: Array<{ rule: Rule; contentText: string; index: number }> = [];
-		const abstractFile = this.app.vault.getAbstractFileByPath(filePath);
+	private getSectionHeaderLevelNumber(rule: Rule): number {
+		const match = (rule.sectionHeaderLevel || 'h2').match(/^h([1-6])$/);
+		return match ? Number(match[1]) : 2;
+	}
 
-		if (!(abstractFile instanceof TFile)) {
-			return []; // Not a valid file
-		}
-		const file: TFile = abstractFile;
-		let fileTags: string[] | null = null; // Lazily loaded
-		const fileCache = this.app.metadataCache.getFileCache(file);
+	private findPreviewSectionTarget(container: HTMLElement, rule: Rule): HTMLElement | null {
+		const targetText = this.normalizeSectionHeaderText(rule.sectionHeaderText || '');
+		if (!targetText) return null;
 
-		// Pre-fetch tags if any tag-based rules exist and are enabled
-		const hasEnabledTagRule = this.settings.rules.some(r => r.enabled && (r.type === RuleType.Tag || r.type === RuleType.Multi));
-		if (hasEnabledTagRule && fileCache) {
-			const allTagsInFileWithHash = getAllTags(fileCache);
-			fileTags = allTagsInFileWithHash ? allTagsInFileWithHash.map(tag => tag.substring(1)) : [];
-		}
+		const selector = rule.sectionHeaderLevel || 'h2';
+		const headings = Array.from(container.querySelectorAll<HTMLElement>(selector));
+		return headings.find((heading) => this.normalizeSectionHeaderText(heading.textContent || '') === targetText) || null;
+	}
 
-		for (const [index, currentRule] of this.settings.rules.entries()) {
-			if (!currentRule.enabled) {
-				continue; // Skip disabled rules
-			}
+	private findEditorSectionTarget(container: HTMLElement, rule: Rule): HTMLElement | null {
+		const targetText = this.normalizeSectionHeaderText(rule.sectionHeaderText || '');
+		if (!targetText) return null;
 
-			let isMatch = false;
+		const level = this.getSectionHeaderLevelNumber(rule);
+		const headings = Array.from(container.querySelectorAll<HTMLElement>(`.cm-line.HyperMD-header-${level}`));
+		return headings.find((heading) => {
+			const text = (heading.textContent || '').replace(/^#+\s*/, '');
+			return this.normalizeSectionHeaderText(text) === targetText;
+		}) || null;
+	}
 
-			// --- Match by Folder ---
-			if (currentRule.type === RuleType.Folder) {
-				isMatch = this._checkFolderMatch(file, currentRule);
-			}
-			// --- Match by Tag ---
-			else if (currentRule.type === RuleType.Tag) {
-				isMatch = this._checkTagMatch(fileTags, currentRule);
-			}
-			// --- Match by Property ---
-			else if (currentRule.type === RuleType.Property) {
-				isMatch = this._checkPropertyMatch(fileCache?.frontmatter, currentRule);
-			}
-			// --- Match by Multi ---
-			else if (currentRule.type === RuleType.Multi) {
-				if (currentRule.conditions && currentRule.conditions.length > 0) {
-					const checkCondition = (condition: SubCondition): boolean => {
-						let result = false;
-						if (condition.type === 'folder') {
-							result = this._checkFolderMatch(file, condition);
-						} else if (condition.type === 'tag') {
-							result = this._checkTagMatch(fileTags, condition);
-						} else if (condition.type === 'property') {
-							result = this._checkPropertyMatch(fileCache?.frontmatter, condition);
-						}
-						
-						// Apply negation if specified
-						return condition.negated ? !result : result;
-					};
-
-					if (currentRule.multiConditionLogic === 'all') {
-						// ALL (AND) logic: every condition must be true
-						isMatch = currentRule.conditions.every(checkCondition);
-					} else {
-						// ANY (OR) logic: at least one condition must be true
-						isMatch = currentRule.conditions.some(checkCondition);
+	private getPreviewSectionEnd(heading: HTMLElement, level: number): Node | null {
+		let node: Node | null = heading.parentElement?.nextSibling || heading.nextSibling;
+		while (node) {
+			if (node.instanceOf(HTMLElement)) {
+				const nextHeading = node.matches('h1,h2,h3,h4,h5,h6')
+					? node
+					: node.querySelector<HTMLElement>('h1,h2,h3,h4,h5,h6');
+				if (nextHeading) {
+					const nextLevel = Number(nextHeading.tagName.substring(1));
+					if (nextLevel <= level) {
+						return node;
 					}
 				}
 			}
-			// --- Match by Dataview Query ---
-			else if (currentRule.type === RuleType.Dataview) {
-				isMatch = await this._checkDataviewMatch(file, currentRule.dataviewQuery || '');
-			}
-
-			// Apply negation to the main rule if specified (for non-multi rules)
-			if (currentRule.type !== RuleType.Multi && currentRule.negated) {
-				isMatch = !isMatch;
-			}
-
-			if (isMatch) {
-				const contentText = await this._fetchContentForRule(currentRule);
-				allApplicable.push({ rule: currentRule, contentText, index });
-			}
-		}
-		return allApplicable;
-	}
-
-	private _checkFolderMatch(file: TFile, rule: { path?: string, recursive?: boolean }): boolean {
-		if (rule.path === undefined) return false;
-		const ruleRecursive = rule.recursive === undefined ? true : rule.recursive;
-
-		if (rule.path === "") { // Matches all files
-			return true;
-		} else if (rule.path === "/") { // Matches root folder
-			return ruleRecursive ? true : (file.parent?.isRoot() ?? false);
-		} else {
-			let normalizedRuleFolderPath = rule.path.endsWith('/') ? rule.path.slice(0, -1) : rule.path;
-			if (ruleRecursive) {
-				return file.path.startsWith(normalizedRuleFolderPath + '/');
-			} else {
-				return file.parent?.path === normalizedRuleFolderPath;
-			}
+			node = node.nextSibling;
 		}
+		return null;
 	}
 
-	private _checkTagMatch(fileTags: string[] | null, rule: { tag?: string, includeSubtags?: boolean }): boolean {
-		if (!rule.tag || !fileTags) return false;
-		const ruleTag = rule.tag;
-		const includeSubtags = rule.includeSubtags ?? false;
-		for (const fileTag of fileTags) {
-			if (includeSubtags) {
-				if (fileTag === ruleTag || fileTag.startsWith(ruleTag + '/')) {
-					return true;
-				}
-			} else {
-				if (fileTag === ruleTag) {
-					return true;
+	private getEditorSectionEnd(headingLine: HTMLElement, level: number): Node | null {
+		let node: Node | null = headingLine.nextSibling;
+		while (node) {
+			if (node.instanceOf(HTMLElement)) {
+				for (let currentLevel = 1; currentLevel <= level; currentLevel++) {
+					if (node.classList.contains(`HyperMD-header-${currentLevel}`)) {
+						return node;
+					}
 				}
 			}
+			node = node.nextSibling;
 		}
-		return false;
+		return null;
 	}
 
-	private _checkPropertyMatch(frontmatter: Record<string, unknown> | undefined, rule: { propertyName?: string, propertyValue?: string }): boolean {
-		if (!rule.propertyName || !frontmatter) return false;
-		const propertyKey = rule.propertyName;
-		const expectedPropertyValue = rule.propertyValue;
-		const actualPropertyValue = frontmatter[propertyKey];
+	private removeSectionHeaderContent(container: HTMLElement, ruleId: string): void {
+		container.querySelectorAll(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}[data-rule-id="${ruleId}"]`).forEach(el => {
+			const holder = el as HTMLElementWithComponent;
+			holder.component?.unload();
+			el.remove();
+		});
+	}
 
-		// If the property exists in frontmatter
-		if (actualPropertyValue !== undefined && actualPropertyValue !== null) {
-			// If no expected value is specified, match any file that has this property
-			if (!expectedPropertyValue || expectedPropertyValue.trim() === '') {
+	private isHeadingCollapsed(heading: HTMLElement): boolean {
+		let element: HTMLElement | null = heading;
+		let depth = 0;
+		while (element && depth < 4) {
+			const className = element.className.toString().toLowerCase();
+			if (
+				element.getAttribute('aria-expanded') === 'false' ||
+				className.includes('is-collapsed') ||
+				className.includes('is-folded') ||
+				className.includes('folded')
+			) {
 				return true;
 			}
-			
-			// Smart Property Links Logic
-			if (this.settings.smartPropertyLinks) {
-				const resolveFile = (val: string) => {
-					if (!val) return null;
-					let linktext = val.trim();
-					// Basic wiki-link cleaning: [[Link|Alias]] -> Link
-					if (linktext.startsWith('[[') && linktext.endsWith(']]')) {
-						linktext = linktext.substring(2, linktext.length - 2);
-						const pipeIndex = linktext.indexOf('|');
-						if (pipeIndex >= 0) {
-							linktext = linktext.substring(0, pipeIndex);
-						}
-					}
-					return this.app.metadataCache.getFirstLinkpathDest(linktext, '');
-				};
+			element = element.parentElement;
+			depth++;
+		}
+		return false;
+	}
 
-				const expectedFile = resolveFile(expectedPropertyValue);
-				if (expectedFile) {
-					const checkValue = (val: unknown) => {
-						if (typeof val !== 'string') return false;
-						const actualFile = resolveFile(val);
-						return actualFile !== null && actualFile.path === expectedFile.path;
-					};
+	private setSectionHeaderDataset(groupDiv: HTMLElement, rule: Rule): void {
+		groupDiv.dataset.ruleId = rule.id;
+		groupDiv.dataset.sectionHeaderText = rule.sectionHeaderText || '';
+		groupDiv.dataset.sectionHeaderLevel = rule.sectionHeaderLevel || 'h2';
+		groupDiv.dataset.sectionHeaderPlacement = rule.sectionHeaderPlacement || 'top';
+	}
 
-					if (Array.isArray(actualPropertyValue)) {
-						if (actualPropertyValue.some(checkValue)) return true;
-					} else {
-						if (checkValue(actualPropertyValue)) return true;
-					}
-				}
-			}
-			
-			// Otherwise, check for exact value match
-			if (typeof actualPropertyValue === 'string') {
-				return actualPropertyValue === expectedPropertyValue;
-			} else if (Array.isArray(actualPropertyValue)) {
-				// For arrays, check if the expected value is one of the items
-				return actualPropertyValue.map(String).includes(expectedPropertyValue);
-			} else if (typeof actualPropertyValue === 'number' || typeof actualPropertyValue === 'boolean') {
-				return String(actualPropertyValue) === expectedPropertyValue;
+	private removeStaleSectionHeaderContent(view: MarkdownView): void {
+		const sourcePath = view.file?.path || '';
+		view.containerEl.querySelectorAll<HTMLElement>(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}`).forEach(el => {
+			if (el.dataset.sourcePath !== sourcePath) {
+				const holder = el as HTMLElementWithComponent;
+				holder.component?.unload();
+				el.remove();
 			}
-		}
-		return false;
+		});
 	}
 
-	/**
-	 * Checks if a file matches a Dataview query rule
-	 * @param file The file to check against the dataview query
-	 * @param query The dataview query string
-	 * @returns True if the file matches the dataview query, false otherwise
-	 */
-	private async _checkDataviewMatch(file: TFile, query: string): Promise<boolean> {
-		// Check if dataview plugin exists
-		// @ts-ignore - Access plugins using bracket notation
-		const dataviewPlugin = this.app.plugins.plugins?.dataview;
-		if (!dataviewPlugin) {
-			console.warn("VirtualFooter: Dataview plugin is required for dataview rules but is not installed or enabled.");
+	private updateSectionHeaderVisibility(container: HTMLElement, isEditingMode: boolean): void {
+		container.querySelectorAll<HTMLElement>(`.${CSS_SECTION_HEADER_GROUP_ELEMENT}`).forEach(groupDiv => {
+			const rule: Rule = {
+				id: groupDiv.dataset.ruleId || '',
+				type: RuleType.Folder,
+				contentSource: ContentSource.Text,
+				footerText: '',
+				renderLocation: RenderLocation.SectionHeader,
+				sectionHeaderText: groupDiv.dataset.sectionHeaderText || '',
+				sectionHeaderLevel: groupDiv.dataset.sectionHeaderLevel || 'h2',
+				sectionHeaderPlacement: groupDiv.dataset.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top',
+			};
+			const heading = isEditingMode
+				? this.findEditorSectionTarget(container, rule)
+				: this.findPreviewSectionTarget(container, rule);
+			groupDiv.toggleAttribute('hidden', heading ? this.isHeadingCollapsed(heading) : false);
+		});
+	}
+
+	private isConfiguredSectionHeaderElement(heading: HTMLElement): boolean {
+		const headingText = this.normalizeSectionHeaderText(heading.textContent || '');
+		if (!headingText) {
 			return false;
 		}
-		
-		try {
-			const dataviewApi = dataviewPlugin.api;
-			if (!dataviewApi) {
-				console.warn("VirtualFooter: Cannot access Dataview API.");
-				return false;
-			}
-			
-			// Execute the query against the active file
-			const results = await dataviewApi.query(query, file.path);
 
-			// Dataview API returns a Success object with a 'successful' flag and 'value' property
-			if (!results || !results.successful || !results.value || !Array.isArray(results.value.values)) {
-				// If the query did not return valid results, log and return false
-				console.warn(`VirtualFooter: Dataview query did not return valid results for query: ${query} in file: ${file.path} Dataview error:`, results);
-				return false;
-			}
-
-			// Extract file paths from the results
-			const resultPaths: string[] = [];
-			for (const page of results.value.values) {
-				if (page.path) {
-					resultPaths.push(page.path);
-			 }
-			}
+		const headingLevel = heading.tagName.match(/^H([1-6])$/)
+			? heading.tagName.toLowerCase()
+			: Array.from(heading.classList)
+				.map(className => className.match(/^HyperMD-header-([1-6])$/)?.[1])
+				.find(Boolean);
+		const normalizedHeadingLevel = headingLevel && headingLevel.length === 1 ? `h${headingLevel}` : headingLevel;
 
-			// Check if current file path is in the results
-			return resultPaths.includes(file.path);
-		} catch (error) {
-			console.error(`VirtualFooter: Error executing Dataview query: ${query}`, error);
-			return false;
-		}
+		return this.settings.rules.some(rule =>
+			rule.enabled &&
+			rule.renderLocation === RenderLocation.SectionHeader &&
+			this.normalizeSectionHeaderText(rule.sectionHeaderText || '') === headingText &&
+			(rule.sectionHeaderLevel || 'h2') === normalizedHeadingLevel
+		);
 	}
 
-	/**
-	 * Fetches the content for a given rule, either from direct text or from a specified file.
-	 * @param rule The rule for which to fetch content.
-	 * @returns A promise that resolves to the content string.
-	 */
-	private async _fetchContentForRule(rule: Rule): Promise<string> {
-		if (rule.contentSource === ContentSource.File && rule.footerFilePath) {
-			const file = this.app.vault.getAbstractFileByPath(rule.footerFilePath);
-			if (file instanceof TFile) {
-				try {
-					return await this.app.vault.cachedRead(file);
-				} catch (error) {
-					console.error(`VirtualFooter: Error reading content file ${rule.footerFilePath}`, error);
-					return `<!-- Error reading content file: ${rule.footerFilePath} -->`; // Return error message in content
-				}
-			} else {
-				console.warn(`VirtualFooter: Content file not found for rule: ${rule.footerFilePath}`);
-				return `<!-- Content file not found: ${rule.footerFilePath} -->`; // Return warning in content
-			}
+	private getConfiguredSectionHeaderCollapseTarget(collapseIndicator: Element): { text: string; level: string } | null {
+		const previewHeading = collapseIndicator.closest('[class^="el-h"], [class*=" el-h"]')?.querySelector<HTMLElement>('h1,h2,h3,h4,h5,h6');
+		if (previewHeading && this.isConfiguredSectionHeaderElement(previewHeading)) {
+			return {
+				text: this.normalizeSectionHeaderText(previewHeading.textContent || ''),
+				level: previewHeading.tagName.toLowerCase(),
+			};
 		}
-		return rule.footerText || ""; // Use direct text or empty string if not file
-	}
 
-	/**
-	 * Attaches event handlers to the injected content for internal link navigation.
-	 * @param container The HTMLElement containing the rendered Markdown.
-	 * @param sourcePath The path of the file where the content is injected, for link resolution.
-	 * @param component The Obsidian Component associated with this content, for event registration.
-	 */
-	public attachInternalLinkHandlers(container: HTMLElement, sourcePath: string, component: Component): void {
-		// If in reading view, do nothing, as the default behavior is fine
-		if (container.closest(".markdown-reading-view")) return;
+		const editorHeading = collapseIndicator.closest<HTMLElement>('.cm-line[class*="HyperMD-header-"]');
+		if (!editorHeading || !this.isConfiguredSectionHeaderElement(editorHeading)) {
+			return null;
+		}
 
-		// Handle left-click on internal links and external file links
-		component.registerDomEvent(container, 'click', (event: MouseEvent) => {
-			if (event.button !== 0) return; // Only handle left-clicks
-			const target = event.target as HTMLElement;
-			
-			const linkElement = target.closest('a.internal-link') as HTMLAnchorElement;
-			if (linkElement) {
-				event.preventDefault(); // Prevent default link navigation
-				const href = linkElement.dataset.href;
-				if (href) {
-					const inNewPane = event.ctrlKey || event.metaKey; // Open in new pane if Ctrl/Cmd is pressed
-					void this.app.workspace.openLinkText(href, sourcePath, inNewPane);
-				}
-				return;
-			}
+		const level = Array.from(editorHeading.classList)
+			.map(className => className.match(/^HyperMD-header-([1-6])$/)?.[1])
+			.find(Boolean);
+		return level ? {
+			text: this.normalizeSectionHeaderText(editorHeading.textContent || ''),
+			level: `h${level}`,
+		} : null;
+	}
 
-			// Handle external file links which don't work natively in Live Preview injected content
-			const externalLink = target.closest('a.external-link') as HTMLAnchorElement;
-			if (externalLink && externalLink.href.startsWith('file:')) {
-				event.preventDefault();
-				window.open(externalLink.href);
-			}
-		});
+	private async refreshSectionHeaderContent(
+		view: MarkdownView,
+		forceReplace: boolean,
+		target?: { text: string; level: string }
+	): Promise<void> {
+		if (!view.file) {
+			return;
+		}
 
-		// Handle middle-click (auxclick) on internal links to open in a new pane
-		component.registerDomEvent(container, 'auxclick', (event: MouseEvent) => {
-			if (event.button !== 1) return; // Only handle middle-clicks
-			const target = event.target as HTMLElement;
-			const linkElement = target.closest('a.internal-link') as HTMLAnchorElement;
-			if (linkElement) {
-				event.preventDefault();
-				const href = linkElement.dataset.href;
-				if (href) {
-					void this.app.workspace.openLinkText(href, sourcePath, true); // Always open in new pane for middle-click
-				}
-				return;
+		this.removeStaleSectionHeaderContent(view);
+		const applicableRulesWithContent = await this._getApplicableRulesAndContent(view.file.path);
+		for (const { rule, contentText } of applicableRulesWithContent) {
+			if (rule.renderLocation !== RenderLocation.SectionHeader) {
+				continue;
 			}
-
-			// Handle external file links which don't work natively in Live Preview injected content
-			const externalLink = target.closest('a.external-link') as HTMLAnchorElement;
-			if (externalLink && externalLink.href.startsWith('file:')) {
-				event.preventDefault();
-				window.open(externalLink.href);
+			if (
+				target &&
+				(
+					this.normalizeSectionHeaderText(rule.sectionHeaderText || '') !== target.text ||
+					(rule.sectionHeaderLevel || 'h2') !== target.level
+				)
+			) {
+				continue;
 			}
-		});
+			await this.renderAndInjectSectionHeaderContent(view, contentText, rule, forceReplace);
+		}
 	}
 
-	/**
-	 * Loads plugin settings from storage, migrating old formats if necessary.
-	 */
-	async loadSettings() {
-		const loadedData = await this.loadData();
-		// Start with a deep copy of default settings to ensure all fields are present
-		this.settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+	private async renderAndInjectSectionHeaderContent(
+		view: MarkdownView,
+		contentText: string,
+		rule: Rule,
+		forceReplace: boolean = false
+	): Promise<void> {
+		if (!contentText || contentText.trim() === "" || !rule.sectionHeaderText?.trim()) {
+			return;
+		}
 
-		if (loadedData) {
-			// Handle potential old global renderLocation setting for migration
-			const oldGlobalRenderLocation = loadedData.renderLocation as RenderLocation | undefined;
+		const sourcePath = view.file?.path || '';
+		const viewState = view.getState();
+		const existingSelector = `.${CSS_SECTION_HEADER_GROUP_ELEMENT}[data-rule-id="${rule.id}"][data-source-path="${sourcePath}"]`;
+		let container: HTMLElement | null = null;
+		let heading: HTMLElement | null = null;
 
-			if (loadedData.rules && Array.isArray(loadedData.rules)) {
-				this.settings.rules = loadedData.rules.map((loadedRule: Record<string, unknown>) =>
-					this._migrateRule(loadedRule, oldGlobalRenderLocation)
-				);
-			}
-			// Load the new refreshOnFileOpen setting if it exists in loadedData
-			if (typeof loadedData.refreshOnFileOpen === 'boolean') {
-				this.settings.refreshOnFileOpen = loadedData.refreshOnFileOpen;
-			}
-			// Load the new renderInSourceMode setting if it exists
-			if (typeof loadedData.renderInSourceMode === 'boolean') {
-				this.settings.renderInSourceMode = loadedData.renderInSourceMode;
-			}
-			// Load the new refreshOnMetadataChange setting if it exists
-			if (typeof loadedData.refreshOnMetadataChange === 'boolean') {
-				this.settings.refreshOnMetadataChange = loadedData.refreshOnMetadataChange;
-			}
-			// Load the new smartPropertyLinks setting if it exists
-			if (typeof loadedData.smartPropertyLinks === 'boolean') {
-				this.settings.smartPropertyLinks = loadedData.smartPropertyLinks;
-			}
-			// Load the new enableEmbedRendering setting if it exists
-			if (typeof loadedData.enableEmbedRendering === 'boolean') {
-				this.settings.enableEmbedRendering = loadedData.enableEmbedRendering;
-			}
-			// Load the new enableCanvasRendering setting if it exists
-			if (typeof loadedData.enableCanvasRendering === 'boolean') {
-				this.settings.enableCanvasRendering = loadedData.enableCanvasRendering;
-			}
-			// Load the new debugEmbedCanvas setting if it exists
-			if (typeof loadedData.debugEmbedCanvas === 'boolean') {
-				this.settings.debugEmbedCanvas = loadedData.debugEmbedCanvas;
-			}
+		if (viewState.mode !== 'preview') {
+			return;
 		}
 
-		// Ensure there's at least one rule, and all rules are normalized
-		if (!this.settings.rules || this.settings.rules.length === 0) {
-			// If no rules exist, add a default one
-			this.settings.rules = [JSON.parse(JSON.stringify(DEFAULT_SETTINGS.rules[0]))];
-			this.normalizeRule(this.settings.rules[0]);
-		} else {
-			// Normalize all existing rules
-			this.settings.rules.forEach(rule => this.normalizeRule(rule));
-		}
-		// Ensure global settings are definitely booleans
-		if (typeof this.settings.refreshOnFileOpen !== 'boolean') {
-			this.settings.refreshOnFileOpen = DEFAULT_SETTINGS.refreshOnFileOpen!;
-		}
-		if (typeof this.settings.renderInSourceMode !== 'boolean') {
-			this.settings.renderInSourceMode = DEFAULT_SETTINGS.renderInSourceMode!;
-		}
-		if (typeof this.settings.refreshOnMetadataChange !== 'boolean') {
-			this.settings.refreshOnMetadataChange = DEFAULT_SETTINGS.refreshOnMetadataChange!;
-		}
-		if (typeof this.settings.smartPropertyLinks !== 'boolean') {
-			this.settings.smartPropertyLinks = DEFAULT_SETTINGS.smartPropertyLinks!;
+		container = view.previewMode.containerEl;
+		heading = this.findPreviewSectionTarget(container, rule);
+
+		if (!container || !heading) {
+			return;
 		}
-		if (typeof this.settings.enableEmbedRendering !== 'boolean') {
-			this.settings.enableEmbedRendering = DEFAULT_SETTINGS.enableEmbedRendering!;
+
+		if (this.isHeadingCollapsed(heading)) {
+			this.removeSectionHeaderContent(container, rule.id);
+			return;
 		}
-		if (typeof this.settings.enableCanvasRendering !== 'boolean') {
-			this.settings.enableCanvasRendering = DEFAULT_SETTINGS.enableCanvasRendering!;
+
+		if (!forceReplace && view.containerEl.querySelector(existingSelector)) {
+			return;
 		}
-		if (typeof this.settings.debugEmbedCanvas !== 'boolean') {
-			this.settings.debugEmbedCanvas = DEFAULT_SETTINGS.debugEmbedCanvas!;
-		}
-	}
 
-	/**
-	 * Migrates a rule from an older settings format to the current Rule interface.
-	 * @param loadedRule The rule object loaded from storage.
-	 * @param globalRenderLocation An optional global render location from a very old settings format.
-	 * @returns A migrated and normalized Rule object.
-	 */
-	private _migrateRule(loadedRule: Record<string, unknown>, globalRenderLocation?: RenderLocation): Rule {
-		const hasNegated = Object.prototype.hasOwnProperty.call(loadedRule, 'negated');
-		const migratedNegated = hasNegated
-			? normalizeBoolean(loadedRule.negated, false)
-			: (DEFAULT_SETTINGS.rules[0].negated ?? false);
+		const component = new Component();
+		component.load();
 
-		// Determine rule type, defaulting if ambiguous
-		let type: RuleType;
-		const ruleTypes = Object.keys(RuleType).map(key => RuleType[key as keyof typeof RuleType]);
-		const contentSources = Object.keys(ContentSource).map(key => ContentSource[key as keyof typeof ContentSource]);
-		const renderLocations = Object.keys(RenderLocation).map(key => RenderLocation[key as keyof typeof RenderLocation]);
-		const loadedType = loadedRule.type;
-		if (typeof loadedType === 'string' && ruleTypes.includes(loadedType as RuleType)) {
-			type = loadedType as RuleType;
-		} else if (typeof loadedRule.folderPath === 'string') { // Legacy field
-			type = RuleType.Folder;
-		} else {
-			type = DEFAULT_SETTINGS.rules[0].type;
-		}
+		const groupDiv = view.containerEl.createDiv() as HTMLElementWithComponent;
+		groupDiv.className = `${CSS_DYNAMIC_CONTENT_ELEMENT} ${CSS_SECTION_HEADER_GROUP_ELEMENT}`;
+		this.setSectionHeaderDataset(groupDiv, rule);
+		groupDiv.dataset.sourcePath = sourcePath;
+		groupDiv.component = component;
 
-		// Determine content source, defaulting if ambiguous
-		let contentSource: ContentSource;
-		const loadedContentSource = loadedRule.contentSource;
-		if (typeof loadedContentSource === 'string' && contentSources.includes(loadedContentSource as ContentSource)) {
-			contentSource = loadedContentSource as ContentSource;
-		} else {
-			// If folderPath existed (legacy) and contentSource is undefined, it was likely Text
-			contentSource = (typeof loadedRule.folderPath === 'string' && loadedRule.contentSource === undefined)
-				? ContentSource.Text
-				: DEFAULT_SETTINGS.rules[0].contentSource;
+		try {
+			await MarkdownRenderer.render(this.app, contentText, groupDiv, sourcePath, component);
+		} catch (error) {
+			console.error("VirtualFooter: Error rendering section header content:", error);
+			component.unload();
+			return;
 		}
 
-		const migratedRule: Rule = {
-			name: typeof loadedRule.name === 'string' && loadedRule.name ? loadedRule.name : DEFAULT_SETTINGS.rules[0].name,
-			enabled: typeof loadedRule.enabled === 'boolean' ? loadedRule.enabled : DEFAULT_SETTINGS.rules[0].enabled,
-			type: type,
-			negated: migratedNegated,
-			contentSource: contentSource,
-			footerText: typeof loadedRule.footerText === 'string' ? loadedRule.footerText : '', // Retain name for compatibility
-			renderLocation: (typeof loadedRule.renderLocation === 'string' && renderLocations.includes(loadedRule.renderLocation as RenderLocation))
-				? loadedRule.renderLocation as RenderLocation
-				: globalRenderLocation || DEFAULT_SETTINGS.rules[0].renderLocation,
-			recursive: typeof loadedRule.recursive === 'boolean' ? loadedRule.recursive : true,
-			showInSeparateTab: typeof loadedRule.showInSeparateTab === 'boolean' ? loadedRule.showInSeparateTab : false,
-			sidebarTabName: typeof loadedRule.sidebarTabName === 'string' ? loadedRule.sidebarTabName : '',
-			multiConditionLogic: loadedRule.multiConditionLogic === 'all' ? 'all' : 'any',
-			renderAboveProperties: typeof loadedRule.renderAboveProperties === 'boolean' ? loadedRule.renderAboveProperties : undefined,
-			renderAboveBacklinks: typeof loadedRule.renderAboveBacklinks === 'boolean' ? loadedRule.renderAboveBacklinks : undefined,
-			sectionHeaderText: typeof loadedRule.sectionHeaderText === 'string' ? loadedRule.sectionHeaderText : '',
-			sectionHeaderLevel: typeof loadedRule.sectionHeaderLevel === 'string' ? loadedRule.sectionHeaderLevel : 'h2',
-			sectionHeaderPlacement: loadedRule.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top',
-			dataviewQuery: typeof loadedRule.dataviewQuery === 'string' ? loadedRule.dataviewQuery : '',
-			footerFilePath: typeof loadedRule.footerFilePath === 'string' ? loadedRule.footerFilePath : '', // Retained name for compatibility
-			showInPopover: typeof loadedRule.showInPopover === 'boolean' ? loadedRule.showInPopover : true,
-			showInEmbed: typeof loadedRule.showInEmbed === 'boolean' ? loadedRule.showInEmbed : true,
-			showInCanvas: typeof loadedRule.showInCanvas === 'boolean' ? loadedRule.showInCanvas : true,
-		};
+		const placement = rule.sectionHeaderPlacement || 'top';
+		const level = this.getSectionHeaderLevelNumber(rule);
+		let injected = false;
 
-		// Populate type-specific fields
-		if (migratedRule.type === RuleType.Folder) {
-			migratedRule.path = typeof loadedRule.path === 'string' ? loadedRule.path :
-				(typeof loadedRule.folderPath === 'string' ? loadedRule.folderPath : DEFAULT_SETTINGS.rules[0].path);
-		} else if (migratedRule.type === RuleType.Tag) {
-			migratedRule.tag = typeof loadedRule.tag === 'string' ? loadedRule.tag : '';
-			migratedRule.includeSubtags = typeof loadedRule.includeSubtags === 'boolean' ? loadedRule.includeSubtags : false;
-		} else if (migratedRule.type === RuleType.Property) {
-			migratedRule.propertyName = typeof loadedRule.propertyName === 'string' ? loadedRule.propertyName : '';
-			migratedRule.propertyValue = typeof loadedRule.propertyValue === 'string' ? loadedRule.propertyValue : '';
-		} else if (migratedRule.type === RuleType.Multi) {
-			migratedRule.conditions = Array.isArray(loadedRule.conditions)
-				? loadedRule.conditions.map((condition: Record<string, unknown>) => ({
-					type: condition.type as 'folder' | 'tag' | 'property',
-					negated: normalizeBoolean(condition.negated, false),
-					path: condition.path as string | undefined,
-					recursive: condition.recursive as boolean | undefined,
-					tag: condition.tag as string | undefined,
-					includeSubtags: condition.includeSubtags as boolean | undefined,
-					propertyName: condition.propertyName as string | undefined,
-					propertyValue: condition.propertyValue as string | undefined,
-				}))
-				: [];
+		if (viewState.mode === 'preview') {
+			if (heading) {
+				this.removeSectionHeaderContent(container, rule.id);
+				const anchor = heading.parentElement || heading;
+				if (placement === 'top') {
+					if (anchor !== heading) {
+						anchor.appendChild(groupDiv);
+					} else {
+						anchor.parentElement?.insertBefore(groupDiv, anchor.nextSibling);
+					}
+				} else {
+					const endNode = this.getPreviewSectionEnd(heading, level);
+					if (endNode) {
+						const previousElement = endNode.previousSibling?.instanceOf(HTMLElement) ? endNode.previousSibling : null;
+						if (previousElement && previousElement !== anchor) {
+							previousElement.appendChild(groupDiv);
+						} else {
+							endNode.parentElement?.insertBefore(groupDiv, endNode);
+						}
+					} else {
+						anchor.parentElement?.appendChild(groupDiv);
+					}
+				}
+				injected = true;
+				this.updateSectionHeaderVisibility(container, false);
+			}
 		}
 
-		// Populate content source-specific fields
-		if (migratedRule.contentSource === ContentSource.File) {
-			migratedRule.footerFilePath = typeof loadedRule.footerFilePath === 'string' ? loadedRule.footerFilePath : ''; // Retained name for compatibility
+		if (injected) {
+			this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
+		} else {
+			component.unload();
 		}
-		return migratedRule; // Normalization will happen after migration
 	}
 
 	/**
-	 * Normalizes a rule object, ensuring all required fields are present and defaults are applied.
-	 * Also cleans up fields that are not relevant to the rule's current type or content source.
-	 * @param rule The rule to normalize.
+	 * Renders combined Markdown content and injects it into the specified location in the view.
+	 * @param view The MarkdownView to inject content into.
+	 * @param combinedContentText The combined Markdown string to render.
+	 * @param renderLocation Specifies whether to render in the header or footer.
+	 * @param renderAboveProperties For header content, whether to render above properties section.
+	 * @param renderAboveBacklinks For footer content, whether to render above backlinks section.
+	 * @returns The rendered HTMLElement if injection is deferred (for preview mode), otherwise null.
 	 */
-	public normalizeRule(rule: Rule): void {
-		// Create a copy of the rule to preserve original values during cleanup
-		const originalRule = { ...rule };
+	private async renderAndInjectGroupedContent(
+		view: MarkdownView,
+		combinedContentText: string,
+		renderLocation: RenderLocation,
+		renderAboveProperties: boolean = false,
+		renderAboveBacklinks: boolean = false
+	): Promise<HTMLElementWithComponent | null> {
+		if (!combinedContentText || combinedContentText.trim() === "") {
+			return null;
+		}
+
+		const isRenderInHeader = renderLocation === RenderLocation.Header;
+		const sourcePath = view.file?.path || ''; // For MarkdownRenderer context
+
+		// Create container div for the content
+		const groupDiv = view.containerEl.createDiv() as HTMLElementWithComponent;
+		groupDiv.className = CSS_DYNAMIC_CONTENT_ELEMENT; // Base class for all injected content
+		groupDiv.classList.add(
+			isRenderInHeader ? CSS_HEADER_GROUP_ELEMENT : CSS_FOOTER_GROUP_ELEMENT,
+			isRenderInHeader ? CSS_HEADER_RENDERED_CONTENT : CSS_FOOTER_RENDERED_CONTENT
+		);
+
+		// Add the above-backlinks class for footer content when the setting is enabled
+		if (!isRenderInHeader && renderAboveBacklinks) {
+			groupDiv.classList.add(CSS_ABOVE_BACKLINKS);
+			groupDiv.classList.add('virtual-footer-above-backlinks');
+		}
+		
+		// Add the above-properties class for header content when the setting is enabled
+		if (isRenderInHeader && renderAboveProperties) {
+			groupDiv.classList.add('virtual-footer-above-properties');
+		}
+
+		// Create and manage an Obsidian Component for the lifecycle of this content
+		const component = new Component();
+		component.load();
+		groupDiv.component = component;
+
+		// Try to render the Markdown content with retry logic for early load errors
+		try {
+			await MarkdownRenderer.render(this.app, combinedContentText, groupDiv, sourcePath, component);
+		} catch (error) {
+			console.error("VirtualFooter: Error during initial render, will retry after delay:", error);
+			
+			// Add a placeholder while waiting to retry
+			const placeholderEl = groupDiv.createDiv({ cls: "virtual-footer-loading" });
+			placeholderEl.createEl("p", { text: "Loading virtual content..." });
+			
+			// Schedule a retry after a delay to allow other plugins to initialize
+			window.setTimeout(() => {
+				void (async () => {
+					try {
+						placeholderEl.remove();
+						await MarkdownRenderer.render(this.app, combinedContentText, groupDiv, sourcePath, component);
+						this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
+					} catch (secondError) {
+						console.error("VirtualFooter: Failed to render content after retry:", secondError);
+						const errorEl = groupDiv.createDiv({ cls: "virtual-footer-error" });
+						errorEl.createEl("p", { text: "Error rendering virtual content. Please reload the page or check the content for errors." });
+					}
+				})();
+			}, 2000); // 2 second delay
+		}
+
+		let injectionSuccessful = false;
+		const viewState = view.getState();
+
+		// Inject based on view mode and render location
+		if (viewState.mode === 'preview') { // Reading mode
+			const previewContentParent = view.previewMode.containerEl;
+			let targetParent: HTMLElement | null = null;
+			
+			if (isRenderInHeader) {
+				if (renderAboveProperties) {
+					// Try to find metadata container first
+					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
+				}
+				// If no metadata container or renderAboveProperties is false, use regular header
+				if (!targetParent) {
+					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
+				}
+			} else { // Footer
+				if (renderAboveBacklinks) {
+					// Try to find embedded backlinks first
+					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
+				}
+				// If no backlinks or renderAboveBacklinks is false, use regular footer
+				if (!targetParent) {
+					targetParent = previewContentParent.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
+				}
+			}
+			
+			if (targetParent) {
+				// Ensure idempotency: remove any existing content of this type before adding new
+				if (isRenderInHeader && renderAboveProperties) {
+					// Remove existing header content above properties
+					view.previewMode.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+				} else if (isRenderInHeader && !renderAboveProperties) {
+					// Remove existing normal header content
+					targetParent.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}:not(.virtual-footer-above-properties)`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+				} else if (!isRenderInHeader && renderAboveBacklinks) {
+					// Remove existing footer content above backlinks
+					view.previewMode.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+				} else if (!isRenderInHeader && !renderAboveBacklinks) {
+					// Remove existing normal footer content
+					targetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}:not(.virtual-footer-above-backlinks)`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+				}
+				
+				if (isRenderInHeader && !renderAboveProperties) {
+					targetParent.appendChild(groupDiv);
+				} else if (!isRenderInHeader && !renderAboveBacklinks) {
+					targetParent.appendChild(groupDiv);
+				} else {
+					// Insert before properties or backlinks
+					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
+				}
+				injectionSuccessful = true;
+			}
+		} else if (viewState.mode === 'source') { // Live Preview or Source mode
+			if (isRenderInHeader) {
+				let targetParent: HTMLElement | null = null;
+				
+				if (renderAboveProperties) {
+					// Try to find metadata container first in live preview
+					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
+				}
+				
+				// If no metadata container or renderAboveProperties is false, use content container
+				if (!targetParent) {
+					const cmContentContainer = view.containerEl.querySelector<HTMLElement>(SELECTOR_LIVE_PREVIEW_CONTENT_CONTAINER);
+					if (cmContentContainer?.parentElement) {
+						// Ensure idempotency: remove existing normal header content
+						cmContentContainer.parentElement.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}:not(.virtual-footer-above-properties)`).forEach(el => {
+							const holder = el as HTMLElementWithComponent;
+							holder.component?.unload();
+							el.remove();
+						});
+						cmContentContainer.parentElement.insertBefore(groupDiv, cmContentContainer);
+						injectionSuccessful = true;
+					}
+				} else {
+					// Ensure idempotency: remove existing header content above properties
+					view.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+					// Insert before properties
+					targetParent.parentElement?.insertBefore(groupDiv, targetParent);
+					injectionSuccessful = true;
+				}
+			} else { // Footer in Live Preview or Source mode
+				let targetParent: HTMLElement | null = null;
+				
+				if (renderAboveBacklinks) {
+					// Try to find embedded backlinks first in live preview
+					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
+				}
+				
+				// If no backlinks or renderAboveBacklinks is false, use regular editor sizer
+				if (!targetParent) {
+					targetParent = view.containerEl.querySelector<HTMLElement>(SELECTOR_EDITOR_SIZER);
+				}
+				
+				if (targetParent) {
+					// Ensure idempotency: remove existing content of the appropriate type
+					if (renderAboveBacklinks) {
+						// Remove existing footer content above backlinks
+						view.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
+							const holder = el as HTMLElementWithComponent;
+							holder.component?.unload();
+							el.remove();
+						});
+					} else {
+						// Remove existing normal footer content
+						targetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}:not(.virtual-footer-above-backlinks)`).forEach(el => {
+							const holder = el as HTMLElementWithComponent;
+							holder.component?.unload();
+							el.remove();
+						});
+					}
+					
+					if (!renderAboveBacklinks || targetParent.matches(SELECTOR_EDITOR_SIZER)) {
+						targetParent.appendChild(groupDiv);
+					} else {
+						// Insert before backlinks
+						targetParent.parentElement?.insertBefore(groupDiv, targetParent);
+					}
+					injectionSuccessful = true;
+				}
+			}
+		}
+
+		if (injectionSuccessful) {
+			this.attachInternalLinkHandlers(groupDiv, sourcePath, component);
+			return null; // Injection successful, no need to return element
+		} else {
+			// If injection failed in preview mode, it might be because the target DOM isn't ready.
+			// Return the div to be handled by the MutationObserver.
+			if (viewState.mode === 'preview') {
+				console.debug(`VirtualFooter: Deferring injection for ${renderLocation} in preview mode. Target not found yet.`);
+				return groupDiv; // Return for deferred injection
+			} else {
+				// For other modes, if injection fails, unload component and log warning.
+				component.unload();
+				console.warn(`VirtualFooter: Failed to find injection point for dynamic content group (${renderLocation}). View mode: ${viewState.mode}.`);
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * Ensures a MutationObserver is set up for a view in preview mode to handle deferred content injection.
+	 * The observer watches for the appearance of target DOM elements and is careful not to act on stale data.
+	 * @param view The MarkdownView to observe.
+	 */
+	private ensurePreviewObserver(view: MarkdownView): void {
+		if (this.previewObservers.has(view) || !view.file || !view.previewMode?.containerEl) {
+			return; // Observer already exists, or view/file/container not ready
+		}
+
+		const observerPath = view.file.path; // Path this observer is responsible for.
+
+		const observer = new MutationObserver((_mutations) => {
+			const pending = this.pendingPreviewInjections.get(view);
+
+			// This observer is stale and should self-destruct if:
+			// 1. The view has no file or has navigated to a different file.
+			// 2. There are no pending injections for this view.
+			// 3. The pending injections are for a different file.
+			if (!view.file || view.file.path !== observerPath || !pending || pending.filePath !== observerPath) {
+				observer.disconnect();
+				// Only remove this specific observer instance from the map
+				if (this.previewObservers.get(view) === observer) {
+					this.previewObservers.delete(view);
+				}
+				return;
+			}
+
+			// If there's nothing left to inject, clean up and disconnect.
+			if (!pending.headerDiv && !pending.footerDiv && !pending.headerAbovePropertiesDiv && !pending.footerAboveBacklinksDiv) {
+				observer.disconnect();
+				if (this.previewObservers.get(view) === observer) {
+					this.previewObservers.delete(view);
+				}
+				this.pendingPreviewInjections.delete(view);
+				return;
+			}
+
+			let allResolved = true;
+			const sourcePath = view.file.path;
+
+			// Attempt to inject pending header content
+			if (pending.headerDiv) {
+				const headerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_PREVIEW_HEADER_AREA);
+				if (headerTargetParent) {
+					// Ensure idempotency: remove any existing header content before adding new.
+					headerTargetParent.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+					headerTargetParent.appendChild(pending.headerDiv);
+					if (pending.headerDiv.component) {
+						this.attachInternalLinkHandlers(pending.headerDiv, sourcePath, pending.headerDiv.component);
+					}
+					delete pending.headerDiv; // Injection successful
+				} else {
+					allResolved = false; // Target not yet available
+				}
+			}
+
+			// Attempt to inject pending header content above properties
+			if (pending.headerAbovePropertiesDiv) {
+				const headerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_METADATA_CONTAINER);
+				if (headerTargetParent) {
+					// Ensure idempotency: remove any existing content of this type
+					view.previewMode.containerEl.querySelectorAll(`.${CSS_HEADER_GROUP_ELEMENT}.virtual-footer-above-properties`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+					// Add a class to distinguish this from regular header content
+					pending.headerAbovePropertiesDiv.classList.add('virtual-footer-above-properties');
+					// Insert before properties
+					headerTargetParent.parentElement?.insertBefore(pending.headerAbovePropertiesDiv, headerTargetParent);
+					if (pending.headerAbovePropertiesDiv.component) {
+						this.attachInternalLinkHandlers(pending.headerAbovePropertiesDiv, sourcePath, pending.headerAbovePropertiesDiv.component);
+					}
+					delete pending.headerAbovePropertiesDiv; // Injection successful
+				} else {
+					allResolved = false; // Target not yet available
+				}
+			}
+
+			// Attempt to inject pending footer content
+			if (pending.footerDiv) {
+				const footerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_PREVIEW_FOOTER_AREA);
+				if (footerTargetParent) {
+					// Ensure idempotency: remove any existing footer content before adding new.
+					footerTargetParent.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+					footerTargetParent.appendChild(pending.footerDiv);
+					if (pending.footerDiv.component) {
+						this.attachInternalLinkHandlers(pending.footerDiv, sourcePath, pending.footerDiv.component);
+					}
+					delete pending.footerDiv; // Injection successful
+				} else {
+					allResolved = false; // Target not yet available
+				}
+			}
+
+			// Attempt to inject pending footer content above backlinks
+			if (pending.footerAboveBacklinksDiv) {
+				const footerTargetParent = view.previewMode.containerEl.querySelector<HTMLElement>(SELECTOR_EMBEDDED_BACKLINKS);
+				if (footerTargetParent) {
+					// Ensure idempotency: remove any existing content of this type
+					view.previewMode.containerEl.querySelectorAll(`.${CSS_FOOTER_GROUP_ELEMENT}.virtual-footer-above-backlinks`).forEach(el => {
+						const holder = el as HTMLElementWithComponent;
+						holder.component?.unload();
+						el.remove();
+					});
+					// Add a class to distinguish this from regular footer content
+					pending.footerAboveBacklinksDiv.classList.add('virtual-footer-above-backlinks');
+					// Insert before backlinks
+					footerTargetParent.parentElement?.insertBefore(pending.footerAboveBacklinksDiv, footerTargetParent);
+					if (pending.footerAboveBacklinksDiv.component) {
+						this.attachInternalLinkHandlers(pending.footerAboveBacklinksDiv, sourcePath, pending.footerAboveBacklinksDiv.component);
+					}
+					delete pending.footerAboveBacklinksDiv; // Injection successful
+				} else {
+					allResolved = false; // Target not yet available
+				}
+			}
+
+			// If all pending injections are resolved, disconnect the observer
+			if (allResolved) {
+				observer.disconnect();
+				if (this.previewObservers.get(view) === observer) {
+					this.previewObservers.delete(view);
+				}
+				this.pendingPreviewInjections.delete(view);
+			}
+		});
+
+		// Start observing the preview container for child and subtree changes
+		observer.observe(view.previewMode.containerEl, { childList: true, subtree: true });
+		this.previewObservers.set(view, observer);
+	}
+
+	/**
+	 * Applies CSS classes to adjust CodeMirror (Live Preview) layout for footer content.
+	 * @param view The MarkdownView in Live Preview mode.
+	 */
+	private computeFooterBottomPaddingPx(containerHeight: number): number {
+		const rawPadding = Math.round(containerHeight * VIRTUAL_FOOTER_BOTTOM_PADDING_RATIO);
+		return Math.max(VIRTUAL_FOOTER_BOTTOM_PADDING_MIN, Math.min(VIRTUAL_FOOTER_BOTTOM_PADDING_MAX, rawPadding));
+	}
+
+	private applyFooterBottomPadding(view: MarkdownView): void {
+		const updatePadding = () => {
+			const containerHeight = view.containerEl.clientHeight;
+			if (!containerHeight) {
+				return;
+			}
+			const paddingPx = this.computeFooterBottomPaddingPx(containerHeight);
+			view.containerEl.style.setProperty(CSS_VIRTUAL_FOOTER_BOTTOM_PADDING_VAR, `${paddingPx}px`);
+		};
+
+		updatePadding();
+		if (!this.footerPaddingObservers.has(view)) {
+			const observer = new ResizeObserver(() => {
+				updatePadding();
+			});
+			observer.observe(view.containerEl);
+			this.footerPaddingObservers.set(view, observer);
+		}
+	}
+
+	private removeFooterBottomPadding(view: MarkdownView): void {
+		const observer = this.footerPaddingObservers.get(view);
+		if (observer) {
+			observer.disconnect();
+			this.footerPaddingObservers.delete(view);
+		}
+		view.containerEl.style.removeProperty(CSS_VIRTUAL_FOOTER_BOTTOM_PADDING_VAR);
+	}
+
+	/**
+	 * Applies CSS classes to adjust CodeMirror (Live Preview) layout for footer content.
+	 * @param view The MarkdownView in Live Preview mode.
+	 */
+	private applyLivePreviewFooterStyles(view: MarkdownView): void {
+		const contentEl = view.containerEl.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_AREA);
+		const containerEl = view.containerEl.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_CONTAINER_PARENT);
+		contentEl?.classList.add(CSS_VIRTUAL_FOOTER_CM_PADDING);
+		containerEl?.classList.add(CSS_VIRTUAL_FOOTER_REMOVE_FLEX);
+		this.livePreviewFooterStyleApplied.set(view, true);
+
+		// Keep Live Preview bottom spacing stable even when Obsidian rewrites inline styles.
+		if (contentEl) {
+			const observedContentEl = contentEl as HTMLDivElement & { observer?: MutationObserver };
+			const expectedPadding = 'var(--p-spacing)';
+			const enforcePadding = () => {
+				const currentPadding = contentEl.style.getPropertyValue('padding-bottom');
+				const currentPriority = contentEl.style.getPropertyPriority('padding-bottom');
+				if (currentPadding !== expectedPadding || currentPriority !== 'important') {
+					contentEl.style.setProperty('padding-bottom', expectedPadding, 'important');
+				}
+			};
+
+			enforcePadding();
+			
+			// Watch for style mutations and reapply if needed.
+			observedContentEl.observer?.disconnect();
+			const observer = new MutationObserver(() => {
+				enforcePadding();
+			});
+			
+			observer.observe(contentEl, { attributes: true, attributeFilter: ['style'] });
+
+			// Store observer so it can be disconnected during cleanup.
+			observedContentEl.observer = observer;
+		}
+	}
+
+	/**
+	 * Removes CSS classes used for Live Preview footer layout adjustments.
+	 * @param viewOrContainer The MarkdownView or a specific HTMLElement container.
+	 */
+	private removeLivePreviewFooterStyles(viewOrContainer: MarkdownView | HTMLElement): void {
+		const container = viewOrContainer instanceof MarkdownView ? viewOrContainer.containerEl : viewOrContainer;
+		const contentEl = container.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_AREA);
+		const containerEl = container.querySelector<HTMLDivElement>(SELECTOR_EDITOR_CONTENT_CONTAINER_PARENT);
+		const view = viewOrContainer instanceof MarkdownView ? viewOrContainer : null;
+		if (view && !this.livePreviewFooterStyleApplied.get(view)) {
+			return;
+		}
+		contentEl?.classList.remove(CSS_VIRTUAL_FOOTER_CM_PADDING);
+		containerEl?.classList.remove(CSS_VIRTUAL_FOOTER_REMOVE_FLEX);
+
+		// Restore native-like bottom spacing instead of clearing it entirely.
+		if (contentEl) {
+			const observedContentEl = contentEl as HTMLDivElement & { observer?: MutationObserver };
+			const containerHeight = container.clientHeight;
+			if (containerHeight > 0) {
+				contentEl.style.setProperty('padding-bottom', `${this.computeFooterBottomPaddingPx(containerHeight)}px`);
+			} else {
+				contentEl.style.removeProperty('padding-bottom');
+			}
+			if (observedContentEl.observer) {
+				observedContentEl.observer.disconnect();
+				delete observedContentEl.observer;
+			}
+		}
+		if (view) {
+			this.livePreviewFooterStyleApplied.delete(view);
+		}
+	}
+
+	/**
+	 * Removes all plugin-injected DOM elements from a given container.
+	 * @param containerEl The HTMLElement to search within.
+	 */
+	private async removeInjectedContentDOM(containerEl: HTMLElement, preserveSectionHeader: boolean = false): Promise<void> {
+		containerEl.querySelectorAll(`.${CSS_DYNAMIC_CONTENT_ELEMENT}`).forEach(el => {
+			if (preserveSectionHeader && el.classList.contains(CSS_SECTION_HEADER_GROUP_ELEMENT)) {
+				return;
+			}
+			const componentHolder = el as HTMLElementWithComponent;
+			if (componentHolder.component) {
+				componentHolder.component.unload(); // Unload associated Obsidian component
+			}
+			el.remove(); // Remove the element from DOM
+		});
+	}
+
+	/**
+	 * Removes all dynamic content, styles, and observers associated with a specific view.
+	 * @param view The MarkdownView to clean up.
+	 */
+	private async removeDynamicContentFromView(view: MarkdownView, preserveSectionHeader: boolean = false): Promise<void> {
+		this.removeLivePreviewFooterStyles(view);
+		this.removeFooterBottomPadding(view);
+		await this.removeInjectedContentDOM(view.containerEl, preserveSectionHeader);
+
+		// Disconnect and remove observer for this view
+		const observer = this.previewObservers.get(view);
+		if (observer) {
+			observer.disconnect();
+			this.previewObservers.delete(view);
+		}
+
+		// Clean up any pending injections for this view
+		const pending = this.pendingPreviewInjections.get(view);
+		if (pending) {
+			pending.headerDiv?.component?.unload();
+			pending.footerDiv?.component?.unload();
+			this.pendingPreviewInjections.delete(view);
+		}
+
+		// Disconnect embed observer for this view
+		const embedObserver = this.embedObservers.get(view);
+		if (embedObserver) {
+			embedObserver.disconnect();
+			this.embedObservers.delete(view);
+		}
+		const embedRefreshTimeout = this.embedRefreshTimeouts.get(view);
+		if (embedRefreshTimeout) {
+			window.clearTimeout(embedRefreshTimeout);
+			this.embedRefreshTimeouts.delete(view);
+		}
+	}
+
+	/**
+	 * Clears dynamic content from all currently open Markdown views.
+	 * Typically used during plugin unload or when global settings change significantly.
+	 */
+	private clearAllViewsDynamicContent(): void {
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			if (leaf.view instanceof MarkdownView) {
+				void this.removeDynamicContentFromView(leaf.view);
+			}
+		});
+		// Also clear sidebar
+		this.lastSidebarContent = null;
+		this.lastSeparateTabContents.clear();
+		this.updateAllSidebarViews();
+	}
+
+	/**
+	 * Determines which rules apply to a given file path and fetches their content.
+	 * @param filePath The path of the file to check against rules.
+	 * @returns A promise that resolves to an array of objects, each containing an applicable rule and its content.
+	 */
+	private async _getApplicableRulesAndContent(filePath: string): Promise<Array<{ rule: Rule; contentText: string; index: number }>> {
+		const allApplicable: Array<{ rule: Rule; contentText: string; index: number }> = [];
+		const abstractFile = this.app.vault.getAbstractFileByPath(filePath);
+
+		if (!(abstractFile instanceof TFile)) {
+			return []; // Not a valid file
+		}
+
+		// Content files read below record this note again, so files it no longer uses stop refreshing it
+		this.contentFileDependents.forEach(dependents => dependents.delete(filePath));
+		this.contentSectionDependents.forEach(dependents => dependents.delete(filePath));
+
+		for (const { rule, index } of await this._getMatchingRules(abstractFile)) {
+			const contentText = await this._buildRuleContent(rule, abstractFile);
+			allApplicable.push({ rule, contentText, index });
+		}
+		return allApplicable;
+	}
+
+	/**
+	 * Produces the final content of a matching rule for a note: fetches it, expands snippet embeds,
+	 * runs Templater if enabled and expands template variables.
+	 * @param rule The matching rule.
+	 * @param file The note the content is shown on.
+	 * @param cacheTemplaterResults Whether Templater results are cached for the note until its metadata changes.
+	 * @returns A promise that resolves to the content to render.
+	 */
+	private async _buildRuleContent(rule: Rule, file: TFile, cacheTemplaterResults = true): Promise<string> {
+		let rawContent = await this._fetchContentForRule(rule, file);
+		const outerSnippets = rule.contentSource === ContentSource.Snippet && rule.snippetName ? [rule.snippetName] : [];
+		rawContent = expandSnippetEmbeds(rawContent, this.settings.snippets ?? [], outerSnippets);
+		if (!rule.useTemplater) {
+			return this._renderContentTemplate(rawContent, file);
+		}
+		// Template variables are expanded before Templater runs, so that Templater's output is not treated as template syntax.
+		// The inserted values are held back until afterwards, so that property values are never run as Templater code.
+		const values: string[] = [];
+		const rendered = this._renderContentTemplate(rawContent, file, value => `\uE002${values.push(value) - 1}\uE003`);
+		const processed = await this._runTemplater(rendered, file, rule, cacheTemplaterResults);
+		return processed.replace(/\uE002(\d+)\uE003/g, (match, index: string) => values[Number(index)] ?? match);
+	}
+
+	/**
+	 * Evaluates every rule against a note and records why each one does or doesn't apply, for the match explainer.
+	 * Uses the same checks and content pipeline as rendering, but bypasses the match cache.
+	 * @param file The note to explain.
+	 * @returns A promise that resolves to an explanation for each rule, in rule order.
+	 */
+	public async explainRules(file: TFile): Promise<RuleExplanation[]> {
+		const context = this._createMatchContext(file);
+		if (!context.fileTags && context.fileCache) {
+			context.fileTags = (getAllTags(context.fileCache) ?? []).map(tag => tag.substring(1));
+		}
+		await this._loadBodyText(context);
+
+		const explanations: RuleExplanation[] = [];
+		for (const [index, rule] of this.settings.rules.entries()) {
+			const hiddenIn = [
+				rule.showInPopover === false ? 'popovers' : null,
+				rule.showInEmbed === false ? 'embeds' : null,
+				rule.showInCanvas === false ? 'canvas cards' : null,
+			].filter((place): place is string => place !== null);
+			if (!rule.enabled) {
+				explanations.push({ rule, index, matched: false, steps: [], contentStatus: null, hiddenIn });
+				continue;
+			}
+			const steps: MatchTraceStep[] = [];
+			const matched = await this._checkRuleMatch(rule, context, steps);
+			let contentStatus: string | null = null;
+			if (matched) {
+				const content = await this._buildRuleContent(rule, file);
+				contentStatus = this._describeContentSource(rule, file)
+					+ (content.trim() === '' ? ' The content is empty, so nothing is shown.' : '');
+			}
+			explanations.push({ rule, index, matched, steps, contentStatus, hiddenIn });
+		}
+		return explanations;
+	}
+
+	/**
+	 * Checks whether a rule, which doesn't need to be saved or enabled, applies to a note.
+	 * Uses the same checks as rendering, but bypasses the match cache.
+	 * @param rule The rule to check.
+	 * @param file The note to check.
+	 * @returns A promise that resolves to true if the rule applies to the note.
+	 */
+	public async ruleAppliesToNote(rule: Rule, file: TFile): Promise<boolean> {
+		const context = this._createMatchContext(file);
+		if (!context.fileTags && context.fileCache && ruleHasCondition(rule, condition => condition.type === 'tag')) {
+			context.fileTags = (getAllTags(context.fileCache) ?? []).map(tag => tag.substring(1));
+		}
+		if (ruleHasCondition(rule, condition => condition.type === 'content' && BODY_CONTENT_CHECKS.has(condition.contentCheck || 'has-heading'))) {
+			await this._loadBodyText(context);
+		}
+		return this._checkRuleMatch(rule, context);
+	}
+
+	/**
+	 * Produces the content a rule, which doesn't need to be saved, shows on a note, whether or not the rule applies to it.
+	 * @param rule The rule.
+	 * @param file The note the content is shown on.
+	 * @returns A promise that resolves to the content to render.
+	 */
+	public getRuleContentForNote(rule: Rule, file: TFile): Promise<string> {
+		// Unsaved content changes with every edit, so its Templater results are not worth caching
+		return this._buildRuleContent(rule, file, false);
+	}
+
+	/**
+	 * Evaluates a rule, which doesn't need to be saved or enabled, against every note in the vault.
+	 * Uses the same checks as rendering, but bypasses the match cache.
+	 * @param rule The rule to evaluate.
+	 * @returns A promise that resolves to the notes the rule applies to, sorted by path.
+	 */
+	public async findMatchingNotes(rule: Rule): Promise<TFile[]> {
+		const matching: TFile[] = [];
+		const files = this.app.vault.getMarkdownFiles();
+		for (const [position, file] of files.entries()) {
+			if (await this.ruleAppliesToNote(rule, file)) {
+				matching.push(file);
+			}
+			// Let the interface update while evaluating large vaults
+			if (position % 250 === 249) {
+				await new Promise(resolve => window.setTimeout(resolve, 0));
+			}
+		}
+		return matching.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/**
+	 * Describes where a rule's content comes from for a note, and whether it could be found.
+	 * @param rule The rule.
+	 * @param file The note the content is shown on.
+	 * @returns A sentence describing the content source.
+	 */
+	private _describeContentSource(rule: Rule, file: TFile): string {
+		let description: string;
+		if (rule.contentSource === ContentSource.File) {
+			const reference = rule.footerFilePath || '';
+			description = !reference
+				? 'No content file is set.'
+				: this.resolveContentFile(reference).file
+					? `Content from file "${reference}".`
+					: `Content file "${reference}" was not found.`;
+		} else if (rule.contentSource === ContentSource.Property) {
+			const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[rule.contentPropertyName || ''];
+			description = value !== undefined && value !== null && String(value).trim() !== ''
+				? `Content from property "${rule.contentPropertyName}".`
+				: `The note has no "${rule.contentPropertyName}" property, so the fallback text is used.`;
+		} else if (rule.contentSource === ContentSource.Snippet) {
+			description = this.settings.snippets?.some(snippet => snippet.name === rule.snippetName)
+				? `Content from snippet "${rule.snippetName}".`
+				: `Snippet "${rule.snippetName ?? ''}" was not found.`;
+		} else {
+			description = 'Content from direct text.';
+		}
+		return rule.useTemplater ? `${description} Processed with Templater.` : description;
+	}
+
+	/**
+	 * Runs rule content through Templater in the context of the target note, without writing to the note.
+	 * Results are cached per note and rule until the note's metadata or the content changes, so template code doesn't run on every refresh.
+	 * @param content The raw rule content.
+	 * @param file The note the content is shown on.
+	 * @param rule The rule the content belongs to.
+	 * @param useCache Whether to use and store cached results.
+	 * @returns A promise that resolves to the processed content, or the content without its Templater tags if Templater is unavailable.
+	 */
+	private async _runTemplater(content: string, file: TFile, rule: Rule, useCache = true): Promise<string> {
+		if (!content.includes('<%')) {
+			return content;
+		}
+
+		// @ts-ignore - Access plugins using bracket notation
+		const templater = this.app.plugins.plugins?.['templater-obsidian']?.templater;
+		if (!templater || typeof templater.parse_template !== 'function' || typeof templater.create_running_config !== 'function') {
+			if (!this.templaterMissingReported) {
+				this.templaterMissingReported = true;
+				console.warn("VirtualFooter: Templater plugin is required for rules with Templater processing but is not installed or enabled.");
+			}
+			// Hide the template code rather than showing it as text
+			return content.replace(TEMPLATER_TAG_PATTERN, '');
+		}
+		this.templaterMissingReported = false;
+
+		const run = async (): Promise<string> => {
+			const templateFile = rule.contentSource === ContentSource.File && rule.footerFilePath
+				? this.resolveContentFile(rule.footerFilePath).file
+				: null;
+			try {
+				// Dynamic processor mode only evaluates the template and never modifies the target file
+				const config = templater.create_running_config(templateFile instanceof TFile ? templateFile : undefined, file, TEMPLATER_DYNAMIC_PROCESSOR_RUN_MODE);
+				return await templater.parse_template(config, content) as string;
+			} catch (error) {
+				console.error(`VirtualFooter: Error running Templater for file: ${file.path}`, error);
+				return `<!-- Error running Templater: ${error instanceof Error ? error.message : String(error)} -->`;
+			}
+		};
+		if (!useCache) {
+			return run();
+		}
+
+		let resultsForFile = this.templaterResultCache.get(file.path);
+		if (!resultsForFile) {
+			resultsForFile = new Map();
+			this.templaterResultCache.set(file.path, resultsForFile);
+		}
+		const cached = resultsForFile.get(rule);
+		if (cached?.content === content) {
+			return cached.result;
+		}
+		const result = run();
+		resultsForFile.set(rule, { content, result });
+		return result;
+	}
+
+	/**
+	 * Expands template variables and conditional blocks in rule content for the note it is shown on.
+	 * Supports `{{name}}`, `{{name:format}}` for dates, `{{name|default}}`, `\{{` for a literal `{{`,
+	 * `{{#if condition}}...{{else}}...{{/if}}` and `{{#each list}}...{{/each}}`.
+	 * Code blocks, inline code and Templater tags are left as written, as are variables the note has no value for.
+	 * @param content The rule content.
+	 * @param file The note the content is shown on.
+	 * @param wrapValue An optional function applied to the text inserted for each variable.
+	 * @returns The content with variables and blocks expanded.
+	 */
+	private _renderContentTemplate(content: string, file: TFile, wrapValue?: (text: string) => string): string {
+		if (!content.includes('{{')) {
+			return content;
+		}
+		const { masked, restore } = maskTemplateCode(content);
+		const fileCache = this.app.metadataCache.getFileCache(file);
+		return restore(this._renderTemplateNodes(parseContentTemplate(masked), file, fileCache, null, wrapValue));
+	}
+
+	/**
+	 * Renders parsed template nodes.
+	 * @param nodes The nodes to render.
+	 * @param file The note the content is shown on.
+	 * @param fileCache The note's metadata.
+	 * @param item The current item inside an {{#each}} block, available as `this`, or null outside of one.
+	 * @param wrapValue An optional function applied to the text inserted for each variable.
+	 * @returns The rendered text.
+	 */
+	private _renderTemplateNodes(nodes: TemplateNode[], file: TFile, fileCache: CachedMetadata | null, item: { value: unknown, index: number } | null, wrapValue?: (text: string) => string): string {
+		return nodes.map(node => {
+			if (node.kind === 'text') {
+				return node.text.replace(TEMPLATE_VARIABLE_PATTERN, (match: string, expression: string | undefined) => {
+					if (expression === undefined) {
+						return '{{'; // Escaped
+					}
+					const text = this._resolveTemplateVariable(expression, file, fileCache, item);
+					if (text === null) {
+						return match; // Unknown variables, e.g. from Handlebars examples, are kept as written
+					}
+					return wrapValue ? wrapValue(text) : text;
+				});
+			}
+			if (node.kind === 'if') {
+				const branch = this._checkTemplateCondition(node.condition, file, fileCache, item) ? node.then : node.otherwise;
+				return this._renderTemplateNodes(branch, file, fileCache, item, wrapValue);
+			}
+			const value = this._getTemplateValue(node.name.trim(), file, fileCache, item);
+			const values = Array.isArray(value) ? value : (value === null || value === undefined || value === '' ? [] : [value]);
+			return values.map((value, index) => this._renderTemplateNodes(node.body, file, fileCache, { value, index }, wrapValue)).join('');
+		}).join('');
+	}
+
+	/**
+	 * Evaluates an {{#if}} condition with the same property matching used by rules.
+	 * File information (e.g. `file.folder`) and the current {{#each}} item (`this`) can be compared like properties.
+	 * @returns True if the condition is met, false otherwise or if it cannot be parsed.
+	 */
+	private _checkTemplateCondition(expression: string, file: TFile, fileCache: CachedMetadata | null, item: { value: unknown, index: number } | null): boolean {
+		const condition = parseTemplateCondition(expression);
+		if (!condition) {
+			console.warn(`VirtualFooter: Invalid template condition: ${expression}`);
+			return false;
+		}
+		const value = this._getTemplateValue(condition.propertyName, file, fileCache, item);
+		const properties: Record<string, unknown> = {
+			...fileCache?.frontmatter,
+			// Dates from file information are compared like date properties
+			[condition.propertyName]: moment.isMoment(value) ? value.format(TEMPLATE_DEFAULT_DATE_FORMAT) : value,
+		};
+		const isMatch = this._checkPropertyMatch(properties, condition);
+		return condition.negated ? !isMatch : isMatch;
+	}
+
+	/**
+	 * Resolves a single template variable expression of the form `name`, `name:format` or `name|default`.
+	 * @param expression The text between the braces.
+	 * @param file The note the content is shown on.
+	 * @param fileCache The note's metadata.
+	 * @param item The current {{#each}} item, or null.
+	 * @returns The text to insert, or the default if the variable is missing or empty.
+	 * Null if the note has no value for the variable and no default is given.
+	 */
+	private _resolveTemplateVariable(expression: string, file: TFile, fileCache: CachedMetadata | null, item: { value: unknown, index: number } | null): string | null {
+		const pipeIndex = expression.indexOf('|');
+		const fallback = pipeIndex >= 0 ? expression.slice(pipeIndex + 1).trim() : '';
+		const reference = pipeIndex >= 0 ? expression.slice(0, pipeIndex) : expression;
+		const colonIndex = reference.indexOf(':');
+		const name = (colonIndex >= 0 ? reference.slice(0, colonIndex) : reference).trim();
+		const format = colonIndex >= 0 ? reference.slice(colonIndex + 1).trim() : '';
+
+		const value = this._getTemplateValue(name, file, fileCache, item);
+		if (value === undefined && pipeIndex < 0) {
+			return null;
+		}
+		const text = formatTemplateValue(value, format);
+		return text === '' ? fallback : text;
+	}
+
+	/**
+	 * Looks up the value of a template variable: file information, tags, today's date, the current
+	 * {{#each}} item, or a frontmatter property. Nested values can be accessed with dots, e.g. `author.name`.
+	 * @returns The value, or undefined if the note has no such property.
+	 */
+	private _getTemplateValue(name: string, file: TFile, fileCache: CachedMetadata | null, item: { value: unknown, index: number } | null): unknown {
+		if (item && (name === 'this' || name.startsWith('this.'))) {
+			return getNestedValue(item.value, name.split('.').slice(1));
+		}
+		if (item && name === '@index') {
+			return item.index;
+		}
+		switch (name) {
+			case 'file.name': return file.name;
+			case 'file.basename': return file.basename;
+			case 'file.path': return file.path;
+			case 'file.folder': return file.parent && !file.parent.isRoot() ? file.parent.path : '';
+			case 'file.extension': return file.extension;
+			case 'file.created': return moment(file.stat.ctime);
+			case 'file.modified': return moment(file.stat.mtime);
+			case 'tags': return fileCache ? (getAllTags(fileCache) ?? []).join(' ') : '';
+			case 'today': return moment();
+		}
+
+		const frontmatter = fileCache?.frontmatter;
+		if (!frontmatter) return undefined;
+		if (Object.prototype.hasOwnProperty.call(frontmatter, name)) return frontmatter[name];
+		return getNestedValue(frontmatter, name.split('.'));
+	}
+
+	/**
+	 * Determines which enabled rules match a given file, without fetching their content.
+	 * @param file The file to check against rules.
+	 * @returns A promise that resolves to the matching rules and their indexes, in rule order.
+	 */
+	private async _getMatchingRules(file: TFile): Promise<Array<{ rule: Rule; index: number }>> {
+		const ruleIndex = this.getRuleIndex();
+		const matchContext = this._createMatchContext(file);
+		const candidates = ruleIndex.getCandidates(file, matchContext.fileTags, matchContext.fileCache?.frontmatter);
+
+		// Cacheable rules are only re-evaluated after the file or the vault changes
+		const cachedMatches = ruleIndex.getCachedMatches(file.path);
+		const rulesToEvaluate = cachedMatches ? candidates.filter(compiled => !compiled.cacheable) : candidates;
+
+		// Only read the note when a rule to evaluate looks inside its body
+		if (rulesToEvaluate.some(compiled => compiled.needsBodyText)) {
+			await this._loadBodyText(matchContext);
+		}
+
+		const matching: CompiledRule[] = cachedMatches ? [...cachedMatches] : [];
+		for (const compiled of rulesToEvaluate) {
+			if (await this._checkRuleMatch(compiled.rule, matchContext)) {
+				matching.push(compiled);
+			}
+		}
+		if (!cachedMatches) {
+			ruleIndex.setCachedMatches(file.path, matching.filter(compiled => compiled.cacheable));
+		}
+		return matching
+			.sort((a, b) => a.index - b.index)
+			.map(({ rule, index }) => ({ rule, index }));
+	}
+
+	/**
+	 * Gets the compiled index of enabled rules, building it if the rules have changed since it was last used.
+	 */
+	private getRuleIndex(): CompiledRuleIndex {
+		if (!this.ruleIndex) {
+			this.ruleIndex = new CompiledRuleIndex(this.settings.rules);
+		}
+		return this.ruleIndex;
+	}
+
+	/**
+	 * Collects the file information needed to evaluate rules against a file.
+	 * @param file The file that rules will be evaluated against.
+	 * @returns The match context for the file.
+	 */
+	private _createMatchContext(file: TFile): RuleMatchContext {
+		let fileTags: string[] | null = null; // Lazily loaded
+		const fileCache = this.app.metadataCache.getFileCache(file);
+
+		// Pre-fetch tags if any tag-based rules exist and are enabled
+		if (this.getRuleIndex().needsTags && fileCache) {
+			const allTagsInFileWithHash = getAllTags(fileCache);
+			fileTags = allTagsInFileWithHash ? allTagsInFileWithHash.map(tag => tag.substring(1)) : [];
+		}
+		return { file, fileCache, fileTags, bodyText: null };
+	}
+
+	/**
+	 * Reads the note's text without frontmatter into the match context, for content conditions.
+	 * @param context The match context of a Markdown file.
+	 */
+	private async _loadBodyText(context: RuleMatchContext): Promise<void> {
+		if (context.file.extension !== 'md') {
+			return;
+		}
+		try {
+			const text = await this.app.vault.cachedRead(context.file);
+			const frontmatterEnd = context.fileCache?.frontmatterPosition?.end.offset;
+			context.bodyText = frontmatterEnd !== undefined ? text.slice(frontmatterEnd) : text;
+		} catch (error) {
+			console.warn(`VirtualFooter: Could not read "${context.file.path}" for content conditions.`, error);
+		}
+	}
+
+	/**
+	 * Checks whether a single rule's condition matches a file, applying the rule's negation.
+	 * @param rule The rule to check.
+	 * @param context The file information to evaluate against.
+	 * @param trace If given, receives the evaluation steps for the match explainer.
+	 * @returns A promise that resolves to true if the rule matches, false otherwise.
+	 */
+	private async _checkRuleMatch(rule: Rule, context: RuleMatchContext, trace?: MatchTraceStep[]): Promise<boolean> {
+		const { file, fileCache, fileTags } = context;
+		let isMatch = false;
+		const children: MatchTraceStep[] = [];
+		let detail: string | undefined;
+
+		// --- Match by Folder ---
+		if (rule.type === RuleType.Folder) {
+			isMatch = this._checkFolderMatch(file, rule);
+		}
+		// --- Match by Tag ---
+		else if (rule.type === RuleType.Tag) {
+			isMatch = this._checkTagMatch(fileTags, rule);
+		}
+		// --- Match by Property ---
+		else if (rule.type === RuleType.Property) {
+			isMatch = this._checkPropertyMatch(fileCache?.frontmatter, rule);
+		}
+		// --- Match by Multi ---
+		else if (rule.type === RuleType.Multi) {
+			isMatch = this._checkConditionList(rule.conditions, rule.multiConditionLogic, context, trace ? children : undefined);
+			if (!rule.conditions || rule.conditions.length === 0) {
+				detail = 'The rule has no conditions.';
+			}
+		}
+		// --- Match by File Name ---
+		else if (rule.type === RuleType.FileName) {
+			isMatch = this._checkFileNameMatch(file, rule);
+		}
+		// --- Match by Links ---
+		else if (rule.type === RuleType.Links) {
+			isMatch = this._checkLinkMatch(file, rule);
+		}
+		// --- Match by File Date ---
+		else if (rule.type === RuleType.FileDate) {
+			isMatch = this._checkFileDateMatch(file, rule);
+		}
+		// --- Match by Note Content ---
+		else if (rule.type === RuleType.Content) {
+			isMatch = this._checkContentMatch(context, rule);
+		}
+		// --- Match by Dataview Query ---
+		else if (rule.type === RuleType.Dataview) {
+			const resultPaths = await this._getDataviewResultPaths(file, rule.dataviewQuery || '');
+			isMatch = resultPaths?.has(file.path) ?? false;
+			detail = resultPaths
+				? `The query returned ${resultPaths.size} ${resultPaths.size === 1 ? 'note' : 'notes'}${isMatch ? ', including this one' : ', not including this one'}.`
+				: 'Dataview is not available or the query failed. See the developer console for details.';
+		}
+		// --- Match by Datacore Query ---
+		else if (rule.type === RuleType.Datacore) {
+			isMatch = this._checkDatacoreMatch(file, rule.datacoreQuery || '');
+		}
+		// --- Match by Bases Filters ---
+		else if (rule.type === RuleType.Bases) {
+			isMatch = await this._checkBasesMatch(context, rule.baseFilePath || '', rule.baseViewName || '');
+		}
+
+		// Apply negation to the main rule if specified (for non-multi rules)
+		if (rule.type !== RuleType.Multi && rule.negated) {
+			isMatch = !isMatch;
+		}
+		trace?.push({
+			label: rule.type === RuleType.Multi
+				? `${rule.multiConditionLogic === 'all' ? 'All' : 'Any'} of these conditions`
+				: summarizeRule(rule),
+			matched: isMatch,
+			detail,
+			children,
+		});
+		return isMatch;
+	}
+
+	/**
+	 * Evaluates a list of condition nodes using the given logic.
+	 * An empty list never matches.
+	 * @param conditions The conditions and groups to evaluate.
+	 * @param logic Whether ANY or ALL nodes must be met. Defaults to 'any'.
+	 * @param context The file information to evaluate against.
+	 * @param trace If given, receives a step for each node for the match explainer.
+	 * @returns True if the list matches, false otherwise.
+	 */
+	private _checkConditionList(conditions: ConditionNode[] | undefined, logic: 'any' | 'all' | undefined, context: RuleMatchContext, trace?: MatchTraceStep[]): boolean {
+		if (!conditions || conditions.length === 0) {
+			return false;
+		}
+		if (trace) {
+			// Evaluate every node without short-circuiting, so that each result can be shown
+			const results = conditions.map(condition => this._checkConditionNode(condition, context, trace));
+			return logic === 'all' ? results.every(Boolean) : results.some(Boolean);
+		}
+		if (logic === 'all') {
+			// ALL (AND) logic: every condition must be true
+			return conditions.every(condition => this._checkConditionNode(condition, context));
+		}
+		// ANY (OR) logic: at least one condition must be true
+		return conditions.some(condition => this._checkConditionNode(condition, context));
+	}
+
+	/**
+	 * Evaluates a single condition or nested group, applying its negation.
+	 * @param condition The condition node to evaluate.
+	 * @param context The file information to evaluate against.
+	 * @param trace If given, receives a step for the node for the match explainer.
+	 * @returns True if the node matches, false otherwise.
+	 */
+	private _checkConditionNode(condition: ConditionNode, context: RuleMatchContext, trace?: MatchTraceStep[]): boolean {
+		let result = false;
+		const children: MatchTraceStep[] = [];
+		if (condition.type === 'group') {
+			result = this._checkConditionList(condition.conditions, condition.logic, context, trace ? children : undefined);
+		} else if (condition.type === 'folder') {
+			result = this._checkFolderMatch(context.file, condition);
+		} else if (condition.type === 'tag') {
+			result = this._checkTagMatch(context.fileTags, condition);
+		} else if (condition.type === 'property') {
+			result = this._checkPropertyMatch(context.fileCache?.frontmatter, condition);
+		} else if (condition.type === 'file-name') {
+			result = this._checkFileNameMatch(context.file, condition);
+		} else if (condition.type === 'links') {
+			result = this._checkLinkMatch(context.file, condition);
+		} else if (condition.type === 'file-date') {
+			result = this._checkFileDateMatch(context.file, condition);
+		} else if (condition.type === 'content') {
+			result = this._checkContentMatch(context, condition);
+		}
+
+		// Apply negation if specified
+		result = condition.negated ? !result : result;
+		if (trace) {
+			trace.push({
+				label: condition.type === 'group'
+					? (condition.logic === 'all' ? (condition.negated ? 'Not all of' : 'All of') : (condition.negated ? 'None of' : 'Any of'))
+					: summarizeCondition(condition),
+				matched: result,
+				children,
+			});
+		}
+		return result;
+	}
+
+	private _checkFolderMatch(file: TFile, rule: { path?: string, recursive?: boolean, pathMatchMode?: PathMatchMode }): boolean {
+		if (rule.path === undefined) return false;
+		const pathMatchMode = rule.pathMatchMode || 'folder';
+		if (pathMatchMode !== 'folder') {
+			// Patterns are matched against the full file path
+			if (rule.path.trim() === '') return false;
+			const pattern = compilePathPattern(rule.path, pathMatchMode);
+			if (!pattern) {
+				warnInvalidRegExp(`Invalid ${pathMatchMode} path pattern: ${rule.path}`);
+				return false;
+			}
+			return pattern.test(file.path);
+		}
+		const ruleRecursive = rule.recursive === undefined ? true : rule.recursive;
+
+		if (rule.path === "") { // Matches all files
+			return true;
+		} else if (rule.path === "/") { // Matches root folder
+			return ruleRecursive ? true : (file.parent?.isRoot() ?? false);
+		} else {
+			let normalizedRuleFolderPath = rule.path.endsWith('/') ? rule.path.slice(0, -1) : rule.path;
+			if (ruleRecursive) {
+				return file.path.startsWith(normalizedRuleFolderPath + '/');
+			} else {
+				return file.parent?.path === normalizedRuleFolderPath;
+			}
+		}
+	}
+
+	/**
+	 * Checks a file's base name (and optionally its extension) against a file name condition.
+	 * An empty pattern matches any name, as long as an extension filter is set.
+	 * @param file The file to check.
+	 * @param rule The file name condition to check.
+	 * @returns True if the file name satisfies the condition, false otherwise.
+	 */
+	private _checkFileNameMatch(file: TFile, rule: { fileNameMode?: FileNameMatchMode, fileNamePattern?: string, fileExtension?: string }): boolean {
+		const extensions = (rule.fileExtension || '')
+			.split(',')
+			.map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+			.filter(Boolean);
+		if (extensions.length > 0 && !extensions.includes(file.extension.toLowerCase())) {
+			return false;
+		}
+
+		const pattern = rule.fileNamePattern || '';
+		if (pattern.trim() === '') {
+			return extensions.length > 0;
+		}
+
+		const baseName = file.basename;
+		switch (rule.fileNameMode || 'exact') {
+			case 'prefix':
+				return baseName.toLowerCase().startsWith(pattern.toLowerCase());
+			case 'suffix':
+				return baseName.toLowerCase().endsWith(pattern.toLowerCase());
+			case 'regex': {
+				const regex = compileRegExp(pattern);
+				if (!regex) {
+					warnInvalidRegExp(`Invalid regular expression in file name condition: ${pattern}`);
+					return false;
+				}
+				return regex.test(baseName);
+			}
+			case 'date-format':
+				return moment(baseName, pattern.trim(), true).isValid();
+			default:
+				return baseName.toLowerCase() === pattern.toLowerCase();
+		}
+	}
+
+	/**
+	 * Returns the paths of all notes with backlinks, building the set from the resolved links if needed.
+	 * Links from a note to itself are not counted as backlinks.
+	 */
+	private getBacklinkTargets(): Set<string> {
+		if (!this.backlinkTargets) {
+			const targets = new Set<string>();
+			const resolvedLinks = this.app.metadataCache.resolvedLinks;
+			for (const sourcePath in resolvedLinks) {
+				for (const targetPath in resolvedLinks[sourcePath]) {
+					if (targetPath !== sourcePath && resolvedLinks[sourcePath][targetPath] > 0) {
+						targets.add(targetPath);
+					}
+				}
+			}
+			this.backlinkTargets = targets;
+		}
+		return this.backlinkTargets;
+	}
+
+	/**
+	 * Checks a file's position in the link graph using the metadata cache's resolved links.
+	 * @param file The file to check.
+	 * @param rule The link condition to check.
+	 * @returns True if the file satisfies the link condition, false otherwise.
+	 */
+	private _checkLinkMatch(file: TFile, rule: { linkRelation?: LinkRelation, linkTarget?: string }): boolean {
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		switch (rule.linkRelation || 'links-to') {
+			case 'links-to': {
+				const target = this.resolveLinkTargetFile(rule.linkTarget || '');
+				return target !== null && (resolvedLinks[file.path]?.[target.path] ?? 0) > 0;
+			}
+			case 'linked-from': {
+				const source = this.resolveLinkTargetFile(rule.linkTarget || '');
+				return source !== null && (resolvedLinks[source.path]?.[file.path] ?? 0) > 0;
+			}
+			case 'has-backlinks':
+				return this.getBacklinkTargets().has(file.path);
+			case 'has-no-outgoing-links':
+				return Object.keys(resolvedLinks[file.path] ?? {}).length === 0;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Checks a file's creation or modification time against a file date condition.
+	 * Comparisons are made by calendar day in local time.
+	 * @param file The file to check.
+	 * @param rule The file date condition to check.
+	 * @returns True if the timestamp satisfies the condition, false otherwise.
+	 */
+	private _checkFileDateMatch(file: TFile, rule: { dateField?: FileDateField, dateOperator?: FileDateOperator, dateValue?: string }): boolean {
+		const fileDate = moment(rule.dateField === 'created' ? file.stat.ctime : file.stat.mtime);
+		const operator = rule.dateOperator || 'older-than-days';
+		if (operator === 'before' || operator === 'after') {
+			const expectedDate = parsePropertyDate(rule.dateValue);
+			if (!expectedDate) return false;
+			return operator === 'before'
+				? fileDate.isBefore(expectedDate, 'day')
+				: fileDate.isAfter(expectedDate, 'day');
+		}
+
+		const days = parsePropertyNumber(rule.dateValue);
+		if (days === null) return false;
+		const threshold = moment().startOf('day').subtract(days, 'days');
+		return operator === 'within-last-days'
+			? fileDate.isSameOrAfter(threshold, 'day')
+			: fileDate.isBefore(threshold, 'day');
+	}
+
+	/**
+	 * Checks a note's headings, tasks or body text against a content condition.
+	 * Heading and task checks use the metadata cache; body checks use the text loaded into the match context.
+	 * @param context The file information to evaluate against.
+	 * @param rule The content condition to check.
+	 * @returns True if the note content satisfies the condition, false otherwise.
+	 */
+	private _checkContentMatch(context: RuleMatchContext, rule: { contentCheck?: ContentCheck, contentValue?: string }): boolean {
+		const { fileCache, bodyText } = context;
+		const expected = (rule.contentValue || '').trim();
+
+		switch (rule.contentCheck || 'has-heading') {
+			case 'has-heading': {
+				if (!expected) return false;
+				const headingText = expected.replace(/^#+\s*/, '').toLowerCase();
+				return (fileCache?.headings ?? []).some(heading => heading.heading.trim().toLowerCase() === headingText);
+			}
+			case 'has-open-tasks':
+				return (fileCache?.listItems ?? []).some(item => item.task === ' ');
+			case 'all-tasks-complete': {
+				const tasks = (fileCache?.listItems ?? []).filter(item => item.task !== undefined);
+				return tasks.length > 0 && tasks.every(item => item.task !== ' ');
+			}
+			case 'body-contains':
+				return bodyText !== null && expected !== '' && bodyText.toLowerCase().includes(expected.toLowerCase());
+			case 'body-regex': {
+				if (bodyText === null || !expected) return false;
+				const regex = compileRegExp(expected, 'm');
+				if (!regex) {
+					warnInvalidRegExp(`Invalid content regex "${expected}".`);
+					return false;
+				}
+				return regex.test(bodyText);
+			}
+			case 'word-count-above': {
+				const threshold = parsePropertyNumber(expected);
+				if (bodyText === null || threshold === null) return false;
+				return (bodyText.match(/\S+/g)?.length ?? 0) > threshold;
+			}
+		}
+	}
+
+	/**
+	 * Resolves a file path or link text (optionally wrapped in [[...]] with an alias or subpath) to a file.
+	 * @param value The path or link text to resolve.
+	 * @returns The resolved file, or null if it cannot be found.
+	 */
+	private resolveLinkTargetFile(value: string): TFile | null {
+		let linktext = value.trim();
+		if (!linktext) return null;
+		// Basic wiki-link cleaning: [[Link|Alias]] -> Link
+		if (linktext.startsWith('[[') && linktext.endsWith(']]')) {
+			linktext = linktext.substring(2, linktext.length - 2);
+			const pipeIndex = linktext.indexOf('|');
+			if (pipeIndex >= 0) {
+				linktext = linktext.substring(0, pipeIndex);
+			}
+		}
+		linktext = linktext.split('#')[0].trim();
+		if (!linktext) return null;
+		const abstractFile = this.app.vault.getAbstractFileByPath(linktext);
+		if (abstractFile instanceof TFile) {
+			return abstractFile;
+		}
+		return this.app.metadataCache.getFirstLinkpathDest(linktext, '');
+	}
+
+	private _checkTagMatch(fileTags: string[] | null, rule: { tag?: string, includeSubtags?: boolean }): boolean {
+		if (!rule.tag || !fileTags) return false;
+		const ruleTag = rule.tag;
+		const includeSubtags = rule.includeSubtags ?? false;
+		for (const fileTag of fileTags) {
+			if (includeSubtags) {
+				if (fileTag === ruleTag || fileTag.startsWith(ruleTag + '/')) {
+					return true;
+				}
+			} else {
+				if (fileTag === ruleTag) {
+					return true;
+				}
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Checks a file's frontmatter against a property condition using the condition's operator.
+	 * The 'equals' operator matches any file with the property when no value is given.
+	 * @param frontmatter The frontmatter of the file to check.
+	 * @param rule The property condition to check.
+	 * @returns True if the frontmatter satisfies the condition, false otherwise.
+	 */
+	private _checkPropertyMatch(
+		frontmatter: Record<string, unknown> | undefined,
+		rule: { propertyName?: string, propertyValue?: string, propertyOperator?: PropertyOperator, propertyValueMax?: string }
+	): boolean {
+		if (!rule.propertyName) return false;
+		const operator = rule.propertyOperator || 'equals';
+		if (operator === 'not-equals') {
+			// Negation of 'equals', so notes without the property also match
+			return !this._checkPropertyMatch(frontmatter, { ...rule, propertyOperator: 'equals' });
+		}
+		if (!frontmatter) return false;
+		const actualPropertyValue = frontmatter[rule.propertyName];
+		if (actualPropertyValue === undefined || actualPropertyValue === null) {
+			return false;
+		}
+
+		if (operator === 'equals') {
+			return this._checkPropertyEquals(actualPropertyValue, rule.propertyValue);
+		}
+
+		// For arrays, the condition is met if any item satisfies it
+		const values = Array.isArray(actualPropertyValue) ? actualPropertyValue : [actualPropertyValue];
+		return values.some(value => this._comparePropertyValue(value, operator, rule.propertyValue || '', rule.propertyValueMax || ''));
+	}
+
+	private _checkPropertyEquals(actualPropertyValue: unknown, expectedPropertyValue: string | undefined): boolean {
+		// If no expected value is specified, match any file that has this property
+		if (!expectedPropertyValue || expectedPropertyValue.trim() === '') {
+			return true;
+		}
+
+		// Smart Property Links Logic
+		if (this.settings.smartPropertyLinks) {
+			const resolveFile = (val: string) => val ? this.resolveLinkTargetFile(val) : null;
+
+			const expectedFile = resolveFile(expectedPropertyValue);
+			if (expectedFile) {
+				const checkValue = (val: unknown) => {
+					if (typeof val !== 'string') return false;
+					const actualFile = resolveFile(val);
+					return actualFile !== null && actualFile.path === expectedFile.path;
+				};
+
+				if (Array.isArray(actualPropertyValue)) {
+					if (actualPropertyValue.some(checkValue)) return true;
+				} else {
+					if (checkValue(actualPropertyValue)) return true;
+				}
+			}
+		}
+
+		// Otherwise, check for exact value match
+		if (typeof actualPropertyValue === 'string') {
+			return actualPropertyValue === expectedPropertyValue;
+		} else if (Array.isArray(actualPropertyValue)) {
+			// For arrays, check if the expected value is one of the items
+			return actualPropertyValue.map(String).includes(expectedPropertyValue);
+		} else if (typeof actualPropertyValue === 'number' || typeof actualPropertyValue === 'boolean') {
+			return String(actualPropertyValue) === expectedPropertyValue;
+		}
+		return false;
+	}
+
+	/**
+	 * Compares a single (non-array) frontmatter value using a non-equality operator.
+	 * @param value The frontmatter value.
+	 * @param operator The comparison operator.
+	 * @param expected The expected value from the condition.
+	 * @param expectedMax The upper bound for the 'between' operator.
+	 * @returns True if the comparison holds, false otherwise.
+	 */
+	private _comparePropertyValue(value: unknown, operator: PropertyOperator, expected: string, expectedMax: string): boolean {
+		if (typeof value === 'object' && value !== null) {
+			return false; // Nested objects are not compared
+		}
+		const text = String(value);
+		switch (operator) {
+			case 'contains':
+				return text.toLowerCase().includes(expected.toLowerCase());
+			case 'starts-with':
+				return text.toLowerCase().startsWith(expected.toLowerCase());
+			case 'regex': {
+				const regex = compileRegExp(expected);
+				if (!regex) {
+					warnInvalidRegExp(`Invalid regular expression in property condition: ${expected}`);
+					return false;
+				}
+				return regex.test(text);
+			}
+			case 'greater-than':
+			case 'less-than':
+			case 'between': {
+				const actualNumber = parsePropertyNumber(value);
+				const expectedNumber = parsePropertyNumber(expected);
+				if (actualNumber === null || expectedNumber === null) return false;
+				if (operator === 'greater-than') return actualNumber > expectedNumber;
+				if (operator === 'less-than') return actualNumber < expectedNumber;
+				const maxNumber = parsePropertyNumber(expectedMax);
+				return maxNumber !== null && actualNumber >= expectedNumber && actualNumber <= maxNumber;
+			}
+			case 'date-before':
+			case 'date-after': {
+				const actualDate = parsePropertyDate(value);
+				const expectedDate = parsePropertyDate(expected);
+				if (!actualDate || !expectedDate) return false;
+				return operator === 'date-before'
+					? actualDate.isBefore(expectedDate, 'day')
+					: actualDate.isAfter(expectedDate, 'day');
+			}
+			case 'date-within-last-days': {
+				const actualDate = parsePropertyDate(value);
+				const days = parsePropertyNumber(expected);
+				if (!actualDate || days === null) return false;
+				const today = moment().startOf('day');
+				return actualDate.isSameOrBefore(today, 'day') && actualDate.isSameOrAfter(today.clone().subtract(days, 'days'), 'day');
+			}
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Gets the paths of the pages a Dataview query returns when run from a file, using cached results where possible.
+	 * A file matches a Dataview rule if it is among the results.
+	 * @param file The file the query runs from.
+	 * @param query The dataview query string
+	 * @returns A promise that resolves to the result paths, or null if Dataview is unavailable or the query failed.
+	 */
+	private async _getDataviewResultPaths(file: TFile, query: string): Promise<Set<string> | null> {
+		// Check if dataview plugin exists
+		// @ts-ignore - Access plugins using bracket notation
+		const dataviewPlugin = this.app.plugins.plugins?.dataview;
+		if (!dataviewPlugin) {
+			console.warn("VirtualFooter: Dataview plugin is required for dataview rules but is not installed or enabled.");
+			return null;
+		}
+
+		const dataviewApi = dataviewPlugin.api;
+		if (!dataviewApi) {
+			console.warn("VirtualFooter: Cannot access Dataview API.");
+			return null;
+		}
+
+		// Queries referring to the file they run from are cached per file
+		const cacheKey = DATAVIEW_ORIGIN_PATTERN.test(query) ? `${file.path}\n${query}` : query;
+		let resultPaths = this.dataviewResultCache.get(cacheKey);
+		if (!resultPaths) {
+			const pending = this._runDataviewQuery(dataviewApi, query, file.path);
+			resultPaths = pending;
+			this.dataviewResultCache.set(cacheKey, pending);
+			// Failed queries are not cached, so that they are retried on the next evaluation
+			void pending.then(paths => {
+				if (paths === null && this.dataviewResultCache.get(cacheKey) === pending) {
+					this.dataviewResultCache.delete(cacheKey);
+				}
+			});
+		}
+		return resultPaths;
+	}
+
+	/**
+	 * Runs a Dataview query and collects the paths of the pages it returns.
+	 * @param dataviewApi The Dataview plugin API.
+	 * @param query The Dataview query to execute.
+	 * @param originPath The path of the file the query runs from, used to resolve `this`.
+	 * @returns A promise that resolves to the result paths, or null if the query failed.
+	 */
+	private async _runDataviewQuery(
+		dataviewApi: { query: (source: string, originFile?: string) => Promise<{ successful: boolean, value?: { values?: Array<{ path?: string }> } } | null> },
+		query: string,
+		originPath: string
+	): Promise<Set<string> | null> {
+		try {
+			const results = await dataviewApi.query(query, originPath);
+
+			// Dataview API returns a Success object with a 'successful' flag and 'value' property
+			if (!results || !results.successful || !results.value || !Array.isArray(results.value.values)) {
+				// If the query did not return valid results, log and return null
+				console.warn(`VirtualFooter: Dataview query did not return valid results for query: ${query} in file: ${originPath} Dataview error:`, results);
+				return null;
+			}
+
+			// Extract file paths from the results
+			const resultPaths = new Set<string>();
+			for (const page of results.value.values) {
+				if (page.path) {
+					resultPaths.add(page.path);
+				}
+			}
+			return resultPaths;
+		} catch (error) {
+			console.error(`VirtualFooter: Error executing Dataview query: ${query}`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Checks if a file is among the results of a Datacore query.
+	 * Results that are sections or blocks count as a match for the note that contains them.
+	 * @param file The file to check.
+	 * @param query The Datacore query to execute.
+	 * @returns True if the file is in the query results, false otherwise.
+	 */
+	private _checkDatacoreMatch(file: TFile, query: string): boolean {
+		// Check if datacore plugin exists
+		// @ts-ignore - Access plugins using bracket notation
+		const datacorePlugin = this.app.plugins.plugins?.datacore;
+		if (!datacorePlugin) {
+			console.warn("VirtualFooter: Datacore plugin is required for datacore rules but is not installed or enabled.");
+			return false;
+		}
+
+		try {
+			const datacoreApi = datacorePlugin.api;
+			if (!datacoreApi) {
+				console.warn("VirtualFooter: Cannot access Datacore API.");
+				return false;
+			}
+
+			// Datacore API returns a Result object with a 'successful' flag and 'value' or 'error' property
+			const results = datacoreApi.tryQuery(query);
+			if (!results || !results.successful || !Array.isArray(results.value)) {
+				console.warn(`VirtualFooter: Datacore query did not return valid results for query: ${query} in file: ${file.path} Datacore error:`, results?.error ?? results);
+				return false;
+			}
+
+			// Check if current file path is in the results
+			return results.value.some((result: { $file?: string, $path?: string }) => (result.$file ?? result.$path) === file.path);
+		} catch (error) {
+			console.error(`VirtualFooter: Error executing Datacore query: ${query}`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Checks if a file is included by the filters of a `.base` file, and optionally one of its views.
+	 * Filters are evaluated by Virtual Content itself; formulas and `this` are not supported.
+	 * @param context The file information to evaluate against.
+	 * @param baseFilePath The path of the `.base` file.
+	 * @param viewName The name of a view whose filters also apply, or empty for only the global filters.
+	 * @returns True if the file passes the filters, false otherwise.
+	 */
+	private async _checkBasesMatch(context: RuleMatchContext, baseFilePath: string, viewName: string): Promise<boolean> {
+		const { file, fileCache } = context;
+		const config = await this.loadBaseConfig(baseFilePath);
+		if (!config) {
+			return false;
+		}
+
+		const filters: unknown[] = config.filters ? [config.filters] : [];
+		if (viewName) {
+			const view = config.views?.find(candidate => candidate.name === viewName);
+			if (!view) {
+				console.warn(`VirtualFooter: View "${viewName}" not found in base: ${baseFilePath}`);
+				return false;
+			}
+			if (view.filters) {
+				filters.push(view.filters);
+			}
+		}
+
+		const env: BasesFilterEnvironment = {
+			file,
+			frontmatter: fileCache?.frontmatter,
+			tags: context.fileTags ? context.fileTags.map(tag => `#${tag}`) : (fileCache ? getAllTags(fileCache) ?? [] : []),
+			links: Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {}),
+			resolveLink: (value) => this.resolveLinkTargetFile(value),
+		};
+		try {
+			return filters.every(filter => evaluateBasesFilter(filter, env));
+		} catch (error) {
+			console.warn(`VirtualFooter: Could not evaluate filters of base: ${baseFilePath} for file: ${file.path}`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Reads and parses a `.base` file. The result is cached until the file is modified, renamed or deleted.
+	 * @param baseFilePath The path of the `.base` file.
+	 * @returns The parsed base, or null if the file is missing or invalid.
+	 */
+	private async loadBaseConfig(baseFilePath: string): Promise<BasesConfigFile | null> {
+		const baseFile = this.app.vault.getAbstractFileByPath(baseFilePath);
+		if (!(baseFile instanceof TFile) || baseFile.extension !== 'base') {
+			console.warn(`VirtualFooter: Base file not found: ${baseFilePath}`);
+			return null;
+		}
+		let config = this.baseConfigCache.get(baseFile.path);
+		if (!config) {
+			config = (async () => {
+				try {
+					const parsed = parseYaml(await this.app.vault.cachedRead(baseFile)) as BasesConfigFile | null;
+					return parsed ?? {};
+				} catch (error) {
+					console.error(`VirtualFooter: Error reading base file: ${baseFilePath}`, error);
+					return null;
+				}
+			})();
+			this.baseConfigCache.set(baseFile.path, config);
+		}
+		return config;
+	}
+
+	/**
+	 * Lists the names of the views defined in a `.base` file, for choosing a view in the rule editor.
+	 * @param baseFilePath The path of the `.base` file.
+	 * @returns The view names, or an empty array if the file is missing or invalid.
+	 */
+	public async getBaseViewNames(baseFilePath: string): Promise<string[]> {
+		const config = await this.loadBaseConfig(baseFilePath);
+		return (config?.views ?? []).map(view => view.name).filter(name => typeof name === 'string' && name !== '');
+	}
+
+	/**
+	 * Fetches the content for a given rule, from direct text, a specified file, or a property of the target note.
+	 * @param rule The rule for which to fetch content.
+	 * @param file The note the content will be shown on.
+	 * @returns A promise that resolves to the content string.
+	 */
+	private async _fetchContentForRule(rule: Rule, file: TFile): Promise<string> {
+		if (rule.contentSource === ContentSource.File && rule.footerFilePath) {
+			const { file: contentFile, subpath } = this.resolveContentFile(rule.footerFilePath);
+			if (contentFile) {
+				return this._readContentFile(contentFile, subpath, rule.footerFilePath, file.path);
+			} else {
+				console.warn(`VirtualFooter: Content file not found for rule: ${rule.footerFilePath}`);
+				return `<!-- Content file not found: ${rule.footerFilePath} -->`; // Return warning in content
+			}
+		}
+		if (rule.contentSource === ContentSource.Property && rule.contentPropertyName) {
+			const propertyContent = await this._fetchContentFromProperty(rule.contentPropertyName, file);
+			if (propertyContent !== null) {
+				return propertyContent;
+			}
+		}
+		if (rule.contentSource === ContentSource.Snippet) {
+			const snippet = this.settings.snippets?.find(candidate => candidate.name === rule.snippetName);
+			if (snippet) {
+				return snippet.content;
+			}
+			console.warn(`VirtualFooter: Snippet not found for rule: ${rule.snippetName ?? ''}`);
+			return `<!-- Snippet not found: ${rule.snippetName ?? ''} -->`;
+		}
+		return rule.footerText || ""; // Use direct text or empty string if not file
+	}
+
+	/**
+	 * Reads content from a note property of the target note. Link values (e.g. `[[Templates/Client footer]]`)
+	 * are replaced by the linked file's content, and other values are used as inline Markdown.
+	 * List properties combine the content of each item. Objects and nested lists are skipped, as they have no Markdown form.
+	 * @param propertyName The frontmatter key to read.
+	 * @param file The note the content will be shown on.
+	 * @returns A promise that resolves to the content, or null if the note does not have the property.
+	 */
+	private async _fetchContentFromProperty(propertyName: string, file: TFile): Promise<string | null> {
+		const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[propertyName];
+		const values = (Array.isArray(value) ? value : [value])
+			.filter((item): item is string | number | boolean => ['string', 'number', 'boolean'].includes(typeof item) && String(item).trim() !== '');
+		if (values.length === 0) {
+			return null;
+		}
+
+		const contents: string[] = [];
+		for (const item of values) {
+			const text = String(item).trim();
+			const linkMatch = /^!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/.exec(text);
+			if (!linkMatch) {
+				contents.push(text);
+				continue;
+			}
+			const { path, subpath } = parseLinktext(linkMatch[1]);
+			const contentFile = this.app.metadataCache.getFirstLinkpathDest(path, file.path);
+			if (contentFile) {
+				contents.push(await this._readContentFile(contentFile, subpath, linkMatch[1], file.path));
+			} else {
+				console.warn(`VirtualFooter: Content file not found for property "${propertyName}" in ${file.path}: ${linkMatch[1]}`);
+				contents.push(`<!-- Content file not found: ${linkMatch[1]} -->`);
+			}
+		}
+		return contents.join('\n\n');
+	}
+
+	/**
+	 * Reads a content file, or the part of it referenced by a heading or block.
+	 * @param contentFile The content file.
+	 * @param subpath The heading or block reference, or an empty string for the whole file.
+	 * @param reference The path or link the file was referenced by, for messages.
+	 * @param notePath The path of the note the content will be shown on, which is refreshed when the file changes.
+	 * @returns A promise that resolves to the content string.
+	 */
+	private async _readContentFile(contentFile: TFile, subpath: string, reference: string, notePath: string): Promise<string> {
+		const dependentsByPath = subpath ? this.contentSectionDependents : this.contentFileDependents;
+		let dependents = dependentsByPath.get(contentFile.path);
+		if (!dependents) {
+			dependents = new Set();
+			dependentsByPath.set(contentFile.path, dependents);
+		}
+		dependents.add(notePath);
+		try {
+			let content = this.contentFileCache.get(contentFile.path);
+			if (content === undefined) {
+				content = await this.app.vault.cachedRead(contentFile);
+				this.contentFileCache.set(contentFile.path, content);
+			}
+			return subpath ? this._sliceContentSubpath(contentFile, content, subpath, reference) : content;
+		} catch (error) {
+			console.error(`VirtualFooter: Error reading content file ${reference}`, error);
+			return `<!-- Error reading content file: ${reference} -->`; // Return error message in content
+		}
+	}
+
+	/**
+	 * Resolves a content file path, which may end in a heading (`#Heading`) or block (`#^block-id`) reference.
+	 * @param footerFilePath The content file path from a rule.
+	 * @returns The content file, or null if it does not exist, and the heading or block reference, if any.
+	 */
+	public resolveContentFile(footerFilePath: string): { file: TFile | null, subpath: string } {
+		// A file whose name contains '#' takes precedence over a reference
+		const exactFile = this.app.vault.getAbstractFileByPath(footerFilePath);
+		if (exactFile instanceof TFile) {
+			return { file: exactFile, subpath: '' };
+		}
+		const { path, subpath } = parseLinktext(footerFilePath);
+		const file = this.app.vault.getAbstractFileByPath(path) ?? this.app.metadataCache.getFirstLinkpathDest(path, '');
+		return { file: file instanceof TFile ? file : null, subpath };
+	}
+
+	/**
+	 * Extracts the part of a content file referenced by a heading or block, using the metadata cache's positions
+	 * so the slice follows edits to the file. A heading's section excludes the heading line itself.
+	 * @param file The content file.
+	 * @param content The full text of the content file.
+	 * @param subpath The heading or block reference, starting with '#'.
+	 * @param footerFilePath The content file path from the rule, for messages.
+	 * @returns The referenced part of the content.
+	 */
+	private _sliceContentSubpath(file: TFile, content: string, subpath: string, footerFilePath: string): string {
+		const fileCache = this.app.metadataCache.getFileCache(file);
+		const result = fileCache ? resolveSubpath(fileCache, subpath) : null;
+		if (!result) {
+			console.warn(`VirtualFooter: Heading or block not found for rule: ${footerFilePath}`);
+			return `<!-- Heading or block not found: ${footerFilePath} -->`;
+		}
+
+		const end = result.end?.offset ?? content.length;
+		if (result.type === 'heading') {
+			return content.slice(result.current.position.end.offset, end).trim();
+		}
+		if (result.type === 'block') {
+			// Drop the block ID marker, which would otherwise be rendered as text
+			return content.slice(result.start.offset, end).replace(new RegExp(`\\s*\\^${result.block.id}\\s*$`), '').trim();
+		}
+		return content.slice(result.start.offset, end).trim();
+	}
+
+	/**
+	 * Counts the Markdown files matched by a folder condition, for feedback in the rule editor.
+	 * @param condition The folder condition to test.
+	 * @returns The number of matching Markdown files, or null if the condition's pattern is invalid.
+	 */
+	public countFilesMatchingFolderCondition(condition: { path?: string, recursive?: boolean, pathMatchMode?: PathMatchMode }): number | null {
+		const pathMatchMode = condition.pathMatchMode || 'folder';
+		if (pathMatchMode !== 'folder' && condition.path?.trim() && !compilePathPattern(condition.path, pathMatchMode)) {
+			return null;
+		}
+		return this.app.vault.getMarkdownFiles().filter(file => this._checkFolderMatch(file, condition)).length;
+	}
+
+	/**
+	 * Attaches event handlers to the injected content for internal link navigation.
+	 * @param container The HTMLElement containing the rendered Markdown.
+	 * @param sourcePath The path of the file where the content is injected, for link resolution.
+	 * @param component The Obsidian Component associated with this content, for event registration.
+	 */
+	public attachInternalLinkHandlers(container: HTMLElement, sourcePath: string, component: Component): void {
+		// If in reading view, do nothing, as the default behavior is fine
+		if (container.closest(".markdown-reading-view")) return;
+
+		// Handle left-click on internal links and external file links
+		component.registerDomEvent(container, 'click', (event: MouseEvent) => {
+			if (event.button !== 0) return; // Only handle left-clicks
+			const target = event.target as HTMLElement;
+			
+			const linkElement = target.closest('a.internal-link') as HTMLAnchorElement;
+			if (linkElement) {
+				event.preventDefault(); // Prevent default link navigation
+				const href = linkElement.dataset.href;
+				if (href) {
+					const inNewPane = event.ctrlKey || event.metaKey; // Open in new pane if Ctrl/Cmd is pressed
+					void this.app.workspace.openLinkText(href, sourcePath, inNewPane);
+				}
+				return;
+			}
+
+			// Handle external file links which don't work natively in Live Preview injected content
+			const externalLink = target.closest('a.external-link') as HTMLAnchorElement;
+			if (externalLink && externalLink.href.startsWith('file:')) {
+				event.preventDefault();
+				window.open(externalLink.href);
+			}
+		});
+
+		// Handle middle-click (auxclick) on internal links to open in a new pane
+		component.registerDomEvent(container, 'auxclick', (event: MouseEvent) => {
+			if (event.button !== 1) return; // Only handle middle-clicks
+			const target = event.target as HTMLElement;
+			const linkElement = target.closest('a.internal-link') as HTMLAnchorElement;
+			if (linkElement) {
+				event.preventDefault();
+				const href = linkElement.dataset.href;
+				if (href) {
+					void this.app.workspace.openLinkText(href, sourcePath, true); // Always open in new pane for middle-click
+				}
+				return;
+			}
+
+			// Handle external file links which don't work natively in Live Preview injected content
+			const externalLink = target.closest('a.external-link') as HTMLAnchorElement;
+			if (externalLink && externalLink.href.startsWith('file:')) {
+				event.preventDefault();
+				window.open(externalLink.href);
+			}
+		});
+	}
+
+	/**
+	 * Updates rules that refer to a renamed file or folder, so that renames don't silently break them.
+	 * @param oldPath The path before the rename.
+	 * @param newPath The path after the rename.
+	 */
+	private async updateRuleReferencesAfterRename(oldPath: string, newPath: string): Promise<void> {
+		const updatedRuleNames: string[] = [];
+		this.settings.rules.forEach((rule, index) => {
+			let updated = false;
+			for (const { owner, key } of getRulePathReferences(rule)) {
+				const reference = owner[key] ?? '';
+				let renamed = renamePathReference(reference, oldPath, newPath);
+				// Link targets can also be link text. A bare note name is only updated if it no longer links to another note.
+				if (renamed === null && key === 'linkTarget' && !this.resolveLinkTargetFile(reference)) {
+					renamed = renameLinkTextReference(reference, oldPath, newPath);
+				}
+				if (renamed !== null) {
+					owner[key] = renamed;
+					updated = true;
+				}
+			}
+			if (updated) {
+				updatedRuleNames.push(rule.name?.trim() || `Rule ${index + 1}`);
+			}
+		});
+		if (updatedRuleNames.length === 0) {
+			return;
+		}
+		await this.saveSettings();
+		new Notice(`Virtual Content: Updated ${updatedRuleNames.length === 1 ? 'rule' : 'rules'} ${updatedRuleNames.map(name => `"${name}"`).join(', ')} after "${oldPath}" was renamed to "${newPath}".`);
+	}
+
+	/**
+	 * Tells the user which rules refer to a deleted file or folder. The rules are kept as they are,
+	 * and show as broken in the settings until their target exists again or they are edited.
+	 * @param deletedPath The path of the deleted file or folder.
+	 */
+	private reportRulesBrokenByDeletion(deletedPath: string): void {
+		const brokenRuleNames = this.settings.rules
+			.map((rule, index) => ({ rule, name: rule.name?.trim() || `Rule ${index + 1}` }))
+			.filter(({ rule }) => getRulePathReferences(rule)
+				.some(({ owner, key }) => renamePathReference(owner[key] ?? '', deletedPath, deletedPath) !== null))
+			.map(({ name }) => `"${name}"`);
+		if (brokenRuleNames.length > 0) {
+			new Notice(`Virtual Content: "${deletedPath}" was deleted. ${brokenRuleNames.length === 1 ? 'Rule' : 'Rules'} ${brokenRuleNames.join(', ')} now ${brokenRuleNames.length === 1 ? 'refers' : 'refer'} to a missing target.`);
+		}
+	}
+
+	/**
+	 * Finds the files and folders a rule refers to that don't exist in the vault.
+	 * @param rule The rule to check.
+	 * @returns The references of the rule whose target is missing, with the field they are stored in.
+	 */
+	public getMissingRuleTargets(rule: Rule): Array<{ key: PathReferenceKey, reference: string }> {
+		const missing: Array<{ key: PathReferenceKey, reference: string }> = [];
+		for (const { owner, key } of getRulePathReferences(rule)) {
+			const reference = owner[key] ?? '';
+			let exists: boolean;
+			if (key === 'path') {
+				const folderPath = reference.endsWith('/') ? reference.slice(0, -1) : reference;
+				exists = this.app.vault.getAbstractFileByPath(folderPath) instanceof TFolder;
+			} else if (key === 'linkTarget') {
+				exists = this.resolveLinkTargetFile(reference) !== null;
+			} else if (key === 'footerFilePath') {
+				exists = this.resolveContentFile(reference).file !== null;
+			} else {
+				exists = this.app.vault.getAbstractFileByPath(reference) instanceof TFile;
+			}
+			if (!exists && !missing.some(target => target.key === key && target.reference === reference)) {
+				missing.push({ key, reference });
+			}
+		}
+		return missing;
+	}
+
+	/**
+	 * Checks a rule for problems that make it silently show nothing, such as a missing folder or content file,
+	 * a tag or property that no note uses, or a query that a required plugin cannot run.
+	 * @param rule The rule to check.
+	 * @param runQueries Whether to run the rule's Dataview or Datacore query and read its base file. Pass false for quick checks,
+	 * such as the badges in the rules list.
+	 * @returns A promise that resolves to a warning for each problem found.
+	 */
+	public async validateRule(rule: Rule, runQueries = true): Promise<string[]> {
+		const warnings = this.getMissingRuleTargets(rule)
+			.map(({ key, reference }) => `${PATH_REFERENCE_LABELS[key]} "${reference}" does not exist.`);
+
+		warnings.push(...this.getUnusedRuleTags(rule).map(tag => `Tag "#${tag}" is not used in any note.`));
+
+		// @ts-ignore - getFrontmatterPropertyKeys is an undocumented API, but widely used.
+		const propertyNames = new Set<string>(this.app.metadataCache.getFrontmatterPropertyKeys?.() ?? []);
+
+		// Negated property conditions are met by notes without the property, so an unused property is expected
+		for (const condition of getNonNegatedRuleConditions(rule)) {
+			if (condition.type === 'property' && condition.propertyName && !propertyNames.has(condition.propertyName)) {
+				warnings.push(`Property "${condition.propertyName}" is not used in any note.`);
+			}
+		}
+		for (const condition of getRuleConditions(rule)) {
+			if (condition.type === 'folder' && (condition.pathMatchMode === 'glob' || condition.pathMatchMode === 'regex')
+				&& condition.path?.trim() && !compilePathPattern(condition.path, condition.pathMatchMode)) {
+				warnings.push(`Path pattern "${condition.path}" is not a valid ${condition.pathMatchMode === 'glob' ? 'glob pattern' : 'regular expression'}.`);
+			} else if (condition.type === 'property' && condition.propertyOperator === 'regex'
+				&& !compileRegExp(condition.propertyValue || '')) {
+				warnings.push(`Property value "${condition.propertyValue}" is not a valid regular expression.`);
+			} else if (condition.type === 'file-name' && condition.fileNameMode === 'regex'
+				&& condition.fileNamePattern?.trim() && !compileRegExp(condition.fileNamePattern)) {
+				warnings.push(`File name pattern "${condition.fileNamePattern}" is not a valid regular expression.`);
+			} else if (condition.type === 'content' && condition.contentCheck === 'body-regex'
+				&& condition.contentValue?.trim() && !compileRegExp(condition.contentValue.trim(), 'm')) {
+				warnings.push(`Content pattern "${condition.contentValue.trim()}" is not a valid regular expression.`);
+			}
+		}
+
+		if (rule.type === RuleType.Dataview) {
+			warnings.push(...await this._validateDataviewQuery(rule.dataviewQuery ?? '', runQueries));
+		} else if (rule.type === RuleType.Datacore) {
+			warnings.push(...this._validateDatacoreQuery(rule.datacoreQuery ?? '', runQueries));
+		} else if (runQueries && rule.type === RuleType.Bases && rule.baseViewName && rule.baseFilePath
+			&& this.app.vault.getAbstractFileByPath(rule.baseFilePath) instanceof TFile) {
+			const viewNames = await this.getBaseViewNames(rule.baseFilePath);
+			if (!viewNames.includes(rule.baseViewName)) {
+				warnings.push(`Base view "${rule.baseViewName}" does not exist in "${rule.baseFilePath}".`);
+			}
+		}
+
+		if (rule.contentSource === ContentSource.Property && rule.contentPropertyName && !propertyNames.has(rule.contentPropertyName)) {
+			warnings.push(`Content property "${rule.contentPropertyName}" is not used in any note.`);
+		} else if (rule.contentSource === ContentSource.Snippet
+			&& !this.settings.snippets?.some(snippet => snippet.name === rule.snippetName)) {
+			warnings.push(rule.snippetName ? `Snippet "${rule.snippetName}" does not exist.` : 'No snippet is selected.');
+		}
+		// @ts-ignore - Access plugins using bracket notation
+		if (rule.useTemplater && !this.app.plugins.plugins?.['templater-obsidian']) {
+			warnings.push('Templater processing is enabled, but the Templater plugin is not installed or enabled.');
+		}
+		return warnings;
+	}
+
+	/**
+	 * Validates every rule and shows the problems found in a report.
+	 */
+	private async openValidationReport(): Promise<void> {
+		const results = await Promise.all(this.settings.rules.map(async (rule, index) => ({
+			name: rule.name?.trim() || `Rule ${index + 1}`,
+			enabled: rule.enabled !== false,
+			warnings: await this.validateRule(rule),
+		})));
+		new RuleValidationReportModal(this.app, results).open();
+	}
+
+	/**
+	 * Serializes rules for use in another vault, together with the snippets they use.
+	 * @param rules The rules to export.
+	 * @param format The format to write.
+	 * @returns The exported text.
+	 */
+	public exportRules(rules: Rule[], format: RuleExportFormat): string {
+		const data = {
+			version: RULE_EXPORT_VERSION,
+			rules,
+			snippets: collectUsedSnippets(rules, this.settings.snippets ?? []),
+		};
+		return format === 'yaml' ? stringifyYaml(data) : JSON.stringify(data, null, 2);
+	}
+
+	/**
+	 * Reads exported rules, migrating rules from older versions of the plugin to the current format.
+	 * @param text The exported JSON or YAML text.
+	 * @returns The rules and snippets read.
+	 * @throws An error describing why no rules could be read.
+	 */
+	public readRuleExport(text: string): RuleImport {
+		const data = parseRuleExportText(text);
+		const rules = data.rules.map(loadedRule => {
+			const rule = this._migrateRule(loadedRule);
+			this.normalizeRule(rule);
+			return rule;
+		});
+		return { rules, snippets: data.snippets };
+	}
+
+	/**
+	 * Adds imported rules to the settings, and the snippets they use that don't exist yet.
+	 * Existing snippets with the same name are kept.
+	 * @param ruleImport The rules and snippets to import.
+	 * @param conflictMode How rules whose ID is already in use are handled.
+	 * @returns A promise that resolves to the number of rules added, replaced and skipped, and the number of snippets added.
+	 */
+	public async importRules(ruleImport: RuleImport, conflictMode: RuleImportConflictMode): Promise<{ added: number, replaced: number, skipped: number, snippetsAdded: number }> {
+		const result = { added: 0, replaced: 0, skipped: 0, snippetsAdded: 0 };
+		const rules = this.settings.rules;
+		for (const importedRule of ruleImport.rules) {
+			const rule = JSON.parse(JSON.stringify(importedRule)) as Rule;
+			const existingIndex = rules.findIndex(existing => existing.id === rule.id);
+			if (existingIndex === -1) {
+				rules.push(rule);
+				result.added++;
+			} else if (conflictMode === 'replace') {
+				rules[existingIndex] = rule;
+				result.replaced++;
+			} else if (conflictMode === 'duplicate') {
+				rule.id = generateRuleId();
+				rules.push(rule);
+				result.added++;
+			} else {
+				result.skipped++;
+			}
+		}
+
+		const snippets = this.settings.snippets ?? [];
+		for (const snippet of ruleImport.snippets) {
+			if (!snippets.some(existing => existing.name === snippet.name)) {
+				snippets.push({ ...snippet });
+				result.snippetsAdded++;
+			}
+		}
+		this.settings.snippets = snippets;
+
+		await this.saveSettings(true);
+		return result;
+	}
+
+	/**
+	 * Checks that a Dataview query can run, by running it from the active note.
+	 * Queries that refer to the note they run from are not run when no note is active.
+	 * @param query The Dataview query.
+	 * @param runQuery Whether to run the query, or only check that Dataview is available and the query isn't empty.
+	 * @returns A promise that resolves to the problems found.
+	 */
+	private async _validateDataviewQuery(query: string, runQuery: boolean): Promise<string[]> {
+		// @ts-ignore - Access plugins using bracket notation
+		const dataviewApi = this.app.plugins.plugins?.dataview?.api;
+		if (!dataviewApi) {
+			return ['The Dataview plugin is not installed or enabled.'];
+		}
+		if (!query.trim()) {
+			return ['The Dataview query is empty.'];
+		}
+		const originPath = this.getActiveFileForVirtualContent()?.path;
+		// Without a note to run from, queries that refer to it would fail even if they are valid
+		if (!runQuery || (!originPath && DATAVIEW_ORIGIN_PATTERN.test(query))) {
+			return [];
+		}
+		try {
+			const result = await dataviewApi.query(query, originPath) as { successful: boolean, error?: string } | null;
+			return result?.successful ? [] : [`The Dataview query failed: ${result?.error ?? 'unknown error'}`];
+		} catch (error) {
+			return [`The Dataview query failed: ${error instanceof Error ? error.message : String(error)}`];
+		}
+	}
+
+	/**
+	 * Checks that a Datacore query can run.
+	 * @param query The Datacore query.
+	 * @param runQuery Whether to run the query, or only check that Datacore is available and the query isn't empty.
+	 * @returns The problems found.
+	 */
+	private _validateDatacoreQuery(query: string, runQuery: boolean): string[] {
+		// @ts-ignore - Access plugins using bracket notation
+		const datacoreApi = this.app.plugins.plugins?.datacore?.api;
+		if (!datacoreApi) {
+			return ['The Datacore plugin is not installed or enabled.'];
+		}
+		if (!query.trim()) {
+			return ['The Datacore query is empty.'];
+		}
+		if (!runQuery) {
+			return [];
+		}
+		try {
+			const result = datacoreApi.tryQuery(query) as { successful: boolean, error?: string } | null;
+			return result?.successful ? [] : [`The Datacore query failed: ${result?.error ?? 'unknown error'}`];
+		} catch (error) {
+			return [`The Datacore query failed: ${error instanceof Error ? error.message : String(error)}`];
+		}
+	}
+
+	/**
+	 * Finds the tags of a rule's conditions that no note uses, e.g. because the tag was renamed.
+	 * Negated tag conditions are skipped, since they are met by notes without the tag.
+	 * @param rule The rule to check.
+	 * @returns The unused tags, without '#'.
+	 */
+	public getUnusedRuleTags(rule: Rule): string[] {
+		// @ts-ignore - getTags is an undocumented API that returns the vault's tags (with '#') and their counts
+		const vaultTags = Object.keys(this.app.metadataCache.getTags?.() ?? {}).map(tag => tag.substring(1));
+		const unused: string[] = [];
+		for (const condition of getNonNegatedRuleConditions(rule)) {
+			const tag = condition.type === 'tag' ? condition.tag : undefined;
+			if (tag && !unused.includes(tag)
+				&& !vaultTags.some(vaultTag => vaultTag === tag || (condition.includeSubtags && vaultTag.startsWith(tag + '/')))) {
+				unused.push(tag);
+			}
+		}
+		return unused;
+	}
+
+	/**
+	 * Loads plugin settings from storage, migrating old formats if necessary.
+	 */
+	async loadSettings() {
+		const loadedData = await this.loadData();
+		// Start with a deep copy of default settings to ensure all fields are present
+		this.settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+
+		if (loadedData) {
+			// Handle potential old global renderLocation setting for migration
+			const oldGlobalRenderLocation = loadedData.renderLocation as RenderLocation | undefined;
+
+			if (loadedData.rules && Array.isArray(loadedData.rules)) {
+				this.settings.rules = loadedData.rules.map((loadedRule: Record<string, unknown>) =>
+					this._migrateRule(loadedRule, oldGlobalRenderLocation)
+				);
+			}
+			// Load the new refreshOnFileOpen setting if it exists in loadedData
+			if (typeof loadedData.refreshOnFileOpen === 'boolean') {
+				this.settings.refreshOnFileOpen = loadedData.refreshOnFileOpen;
+			}
+			// Load the new renderInSourceMode setting if it exists
+			if (typeof loadedData.renderInSourceMode === 'boolean') {
+				this.settings.renderInSourceMode = loadedData.renderInSourceMode;
+			}
+			// Load the new refreshOnMetadataChange setting if it exists
+			if (typeof loadedData.refreshOnMetadataChange === 'boolean') {
+				this.settings.refreshOnMetadataChange = loadedData.refreshOnMetadataChange;
+			}
+			// Load the new smartPropertyLinks setting if it exists
+			if (typeof loadedData.smartPropertyLinks === 'boolean') {
+				this.settings.smartPropertyLinks = loadedData.smartPropertyLinks;
+			}
+			// Load the new enableEmbedRendering setting if it exists
+			if (typeof loadedData.enableEmbedRendering === 'boolean') {
+				this.settings.enableEmbedRendering = loadedData.enableEmbedRendering;
+			}
+			// Load the new enableCanvasRendering setting if it exists
+			if (typeof loadedData.enableCanvasRendering === 'boolean') {
+				this.settings.enableCanvasRendering = loadedData.enableCanvasRendering;
+			}
+			// Load the new debugEmbedCanvas setting if it exists
+			if (typeof loadedData.debugEmbedCanvas === 'boolean') {
+				this.settings.debugEmbedCanvas = loadedData.debugEmbedCanvas;
+			}
+			// Load the snippet library, skipping malformed entries
+			if (Array.isArray(loadedData.snippets)) {
+				this.settings.snippets = loadedData.snippets
+					.filter((snippet: Record<string, unknown>) => snippet && typeof snippet.name === 'string')
+					.map((snippet: Record<string, unknown>) => ({
+						name: snippet.name as string,
+						content: typeof snippet.content === 'string' ? snippet.content : '',
+					}));
+			}
+		}
+
+		// Ensure there's at least one rule, and all rules are normalized
+		if (!this.settings.rules || this.settings.rules.length === 0) {
+			// If no rules exist, add a default one
+			this.settings.rules = [JSON.parse(JSON.stringify(DEFAULT_SETTINGS.rules[0]))];
+			this.normalizeRule(this.settings.rules[0]);
+		} else {
+			// Normalize all existing rules
+			this.settings.rules.forEach(rule => this.normalizeRule(rule));
+			// Rules copied by hand can share an ID, so give every copy after the first a new one
+			const seenRuleIds = new Set<string>();
+			for (const rule of this.settings.rules) {
+				while (seenRuleIds.has(rule.id)) {
+					rule.id = generateRuleId();
+				}
+				seenRuleIds.add(rule.id);
+			}
+		}
+		// Ensure global settings are definitely booleans
+		if (typeof this.settings.refreshOnFileOpen !== 'boolean') {
+			this.settings.refreshOnFileOpen = DEFAULT_SETTINGS.refreshOnFileOpen!;
+		}
+		if (typeof this.settings.renderInSourceMode !== 'boolean') {
+			this.settings.renderInSourceMode = DEFAULT_SETTINGS.renderInSourceMode!;
+		}
+		if (typeof this.settings.refreshOnMetadataChange !== 'boolean') {
+			this.settings.refreshOnMetadataChange = DEFAULT_SETTINGS.refreshOnMetadataChange!;
+		}
+		if (typeof this.settings.smartPropertyLinks !== 'boolean') {
+			this.settings.smartPropertyLinks = DEFAULT_SETTINGS.smartPropertyLinks!;
+		}
+		if (typeof this.settings.enableEmbedRendering !== 'boolean') {
+			this.settings.enableEmbedRendering = DEFAULT_SETTINGS.enableEmbedRendering!;
+		}
+		if (typeof this.settings.enableCanvasRendering !== 'boolean') {
+			this.settings.enableCanvasRendering = DEFAULT_SETTINGS.enableCanvasRendering!;
+		}
+		if (typeof this.settings.debugEmbedCanvas !== 'boolean') {
+			this.settings.debugEmbedCanvas = DEFAULT_SETTINGS.debugEmbedCanvas!;
+		}
+		if (!Array.isArray(this.settings.snippets)) {
+			this.settings.snippets = [];
+		}
+
+		// Save rule IDs assigned or replaced above right away, so they stay the same across restarts
+		// and sidebar tabs restored from the workspace find their view type.
+		const loadedRules: unknown[] = Array.isArray(loadedData?.rules) ? loadedData.rules : [];
+		const ruleIdsChanged = this.settings.rules.some((rule, index) => {
+			const loadedRule = loadedRules[index] as Record<string, unknown> | undefined;
+			return loadedRule?.id !== rule.id;
+		});
+		if (ruleIdsChanged) {
+			await this.saveData(this.settings);
+		}
+	}
+
+	/**
+	 * Migrates a rule from an older settings format to the current Rule interface.
+	 * @param loadedRule The rule object loaded from storage.
+	 * @param globalRenderLocation An optional global render location from a very old settings format.
+	 * @returns A migrated and normalized Rule object.
+	 */
+	private _migrateRule(loadedRule: Record<string, unknown>, globalRenderLocation?: RenderLocation): Rule {
+		const hasNegated = Object.prototype.hasOwnProperty.call(loadedRule, 'negated');
+		const migratedNegated = hasNegated
+			? normalizeBoolean(loadedRule.negated, false)
+			: (DEFAULT_SETTINGS.rules[0].negated ?? false);
+
+		// Determine rule type, defaulting if ambiguous
+		let type: RuleType;
+		const ruleTypes = Object.keys(RuleType).map(key => RuleType[key as keyof typeof RuleType]);
+		const contentSources = Object.keys(ContentSource).map(key => ContentSource[key as keyof typeof ContentSource]);
+		const renderLocations = Object.keys(RenderLocation).map(key => RenderLocation[key as keyof typeof RenderLocation]);
+		const loadedType = loadedRule.type;
+		if (typeof loadedType === 'string' && ruleTypes.includes(loadedType as RuleType)) {
+			type = loadedType as RuleType;
+		} else if (typeof loadedRule.folderPath === 'string') { // Legacy field
+			type = RuleType.Folder;
+		} else {
+			type = DEFAULT_SETTINGS.rules[0].type;
+		}
+
+		// Determine content source, defaulting if ambiguous
+		let contentSource: ContentSource;
+		const loadedContentSource = loadedRule.contentSource;
+		if (typeof loadedContentSource === 'string' && contentSources.includes(loadedContentSource as ContentSource)) {
+			contentSource = loadedContentSource as ContentSource;
+		} else {
+			// If folderPath existed (legacy) and contentSource is undefined, it was likely Text
+			contentSource = (typeof loadedRule.folderPath === 'string' && loadedRule.contentSource === undefined)
+				? ContentSource.Text
+				: DEFAULT_SETTINGS.rules[0].contentSource;
+		}
+
+		const migratedRule: Rule = {
+			id: typeof loadedRule.id === 'string' ? loadedRule.id : '', // Rules saved before IDs existed get one when normalized
+			name: typeof loadedRule.name === 'string' && loadedRule.name ? loadedRule.name : DEFAULT_SETTINGS.rules[0].name,
+			enabled: typeof loadedRule.enabled === 'boolean' ? loadedRule.enabled : DEFAULT_SETTINGS.rules[0].enabled,
+			type: type,
+			negated: migratedNegated,
+			contentSource: contentSource,
+			footerText: typeof loadedRule.footerText === 'string' ? loadedRule.footerText : '', // Retain name for compatibility
+			renderLocation: (typeof loadedRule.renderLocation === 'string' && renderLocations.includes(loadedRule.renderLocation as RenderLocation))
+				? loadedRule.renderLocation as RenderLocation
+				: globalRenderLocation || DEFAULT_SETTINGS.rules[0].renderLocation,
+			recursive: typeof loadedRule.recursive === 'boolean' ? loadedRule.recursive : true,
+			showInSeparateTab: typeof loadedRule.showInSeparateTab === 'boolean' ? loadedRule.showInSeparateTab : false,
+			sidebarTabName: typeof loadedRule.sidebarTabName === 'string' ? loadedRule.sidebarTabName : '',
+			multiConditionLogic: loadedRule.multiConditionLogic === 'all' ? 'all' : 'any',
+			renderAboveProperties: typeof loadedRule.renderAboveProperties === 'boolean' ? loadedRule.renderAboveProperties : undefined,
+			renderAboveBacklinks: typeof loadedRule.renderAboveBacklinks === 'boolean' ? loadedRule.renderAboveBacklinks : undefined,
+			sectionHeaderText: typeof loadedRule.sectionHeaderText === 'string' ? loadedRule.sectionHeaderText : '',
+			sectionHeaderLevel: typeof loadedRule.sectionHeaderLevel === 'string' ? loadedRule.sectionHeaderLevel : 'h2',
+			sectionHeaderPlacement: loadedRule.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top',
+			dataviewQuery: typeof loadedRule.dataviewQuery === 'string' ? loadedRule.dataviewQuery : '',
+			datacoreQuery: typeof loadedRule.datacoreQuery === 'string' ? loadedRule.datacoreQuery : '',
+			baseFilePath: typeof loadedRule.baseFilePath === 'string' ? loadedRule.baseFilePath : '',
+			baseViewName: typeof loadedRule.baseViewName === 'string' ? loadedRule.baseViewName : '',
+			footerFilePath: typeof loadedRule.footerFilePath === 'string' ? loadedRule.footerFilePath : '', // Retained name for compatibility
+			useTemplater: normalizeBoolean(loadedRule.useTemplater, false),
+			showInPopover: typeof loadedRule.showInPopover === 'boolean' ? loadedRule.showInPopover : true,
+			showInEmbed: typeof loadedRule.showInEmbed === 'boolean' ? loadedRule.showInEmbed : true,
+			showInCanvas: typeof loadedRule.showInCanvas === 'boolean' ? loadedRule.showInCanvas : true,
+		};
+
+		// Populate type-specific fields
+		if (migratedRule.type === RuleType.Folder) {
+			migratedRule.path = typeof loadedRule.path === 'string' ? loadedRule.path :
+				(typeof loadedRule.folderPath === 'string' ? loadedRule.folderPath : DEFAULT_SETTINGS.rules[0].path);
+			migratedRule.pathMatchMode = normalizePathMatchMode(loadedRule.pathMatchMode);
+		} else if (migratedRule.type === RuleType.Tag) {
+			migratedRule.tag = typeof loadedRule.tag === 'string' ? loadedRule.tag : '';
+			migratedRule.includeSubtags = typeof loadedRule.includeSubtags === 'boolean' ? loadedRule.includeSubtags : false;
+		} else if (migratedRule.type === RuleType.Property) {
+			migratedRule.propertyName = typeof loadedRule.propertyName === 'string' ? loadedRule.propertyName : '';
+			migratedRule.propertyValue = typeof loadedRule.propertyValue === 'string' ? loadedRule.propertyValue : '';
+			// Rules saved before operators existed keep exact-match semantics
+			migratedRule.propertyOperator = normalizePropertyOperator(loadedRule.propertyOperator);
+			migratedRule.propertyValueMax = typeof loadedRule.propertyValueMax === 'string' ? loadedRule.propertyValueMax : '';
+		} else if (migratedRule.type === RuleType.FileName) {
+			migratedRule.fileNameMode = normalizeFileNameMatchMode(loadedRule.fileNameMode);
+			migratedRule.fileNamePattern = typeof loadedRule.fileNamePattern === 'string' ? loadedRule.fileNamePattern : '';
+			migratedRule.fileExtension = typeof loadedRule.fileExtension === 'string' ? loadedRule.fileExtension : '';
+		} else if (migratedRule.type === RuleType.Links) {
+			migratedRule.linkRelation = normalizeLinkRelation(loadedRule.linkRelation);
+			migratedRule.linkTarget = typeof loadedRule.linkTarget === 'string' ? loadedRule.linkTarget : '';
+		} else if (migratedRule.type === RuleType.FileDate) {
+			migratedRule.dateField = loadedRule.dateField === 'created' ? 'created' : 'modified';
+			migratedRule.dateOperator = normalizeFileDateOperator(loadedRule.dateOperator);
+			migratedRule.dateValue = typeof loadedRule.dateValue === 'string' ? loadedRule.dateValue : '';
+		} else if (migratedRule.type === RuleType.Content) {
+			migratedRule.contentCheck = normalizeContentCheck(loadedRule.contentCheck);
+			migratedRule.contentValue = typeof loadedRule.contentValue === 'string' ? loadedRule.contentValue : '';
+		} else if (migratedRule.type === RuleType.Multi) {
+			migratedRule.conditions = Array.isArray(loadedRule.conditions)
+				? loadedRule.conditions.map((condition: Record<string, unknown>) => this._migrateConditionNode(condition))
+				: [];
+		}
+
+		// Populate content source-specific fields
+		if (migratedRule.contentSource === ContentSource.File) {
+			migratedRule.footerFilePath = typeof loadedRule.footerFilePath === 'string' ? loadedRule.footerFilePath : ''; // Retained name for compatibility
+		} else if (migratedRule.contentSource === ContentSource.Property) {
+			migratedRule.contentPropertyName = typeof loadedRule.contentPropertyName === 'string' ? loadedRule.contentPropertyName : '';
+		} else if (migratedRule.contentSource === ContentSource.Snippet) {
+			migratedRule.snippetName = typeof loadedRule.snippetName === 'string' ? loadedRule.snippetName : '';
+		}
+		return migratedRule; // Normalization will happen after migration
+	}
+
+	/**
+	 * Migrates a single condition or condition group of a 'Multi' rule, recursing into nested groups.
+	 * Flat condition lists from older versions are valid trees and migrate unchanged.
+	 * @param loadedCondition The condition object loaded from storage.
+	 * @returns A migrated condition node.
+	 */
+	private _migrateConditionNode(loadedCondition: Record<string, unknown>): ConditionNode {
+		if (loadedCondition.type === 'group') {
+			return {
+				type: 'group',
+				negated: normalizeBoolean(loadedCondition.negated, false),
+				logic: loadedCondition.logic === 'all' ? 'all' : 'any',
+				conditions: Array.isArray(loadedCondition.conditions)
+					? loadedCondition.conditions.map((child: Record<string, unknown>) => this._migrateConditionNode(child))
+					: [],
+			};
+		}
+		return {
+			type: loadedCondition.type as SubConditionType,
+			negated: normalizeBoolean(loadedCondition.negated, false),
+			path: loadedCondition.path as string | undefined,
+			recursive: loadedCondition.recursive as boolean | undefined,
+			pathMatchMode: loadedCondition.type === 'folder' ? normalizePathMatchMode(loadedCondition.pathMatchMode) : undefined,
+			tag: loadedCondition.tag as string | undefined,
+			includeSubtags: loadedCondition.includeSubtags as boolean | undefined,
+			propertyName: loadedCondition.propertyName as string | undefined,
+			propertyValue: loadedCondition.propertyValue as string | undefined,
+			propertyOperator: loadedCondition.type === 'property' ? normalizePropertyOperator(loadedCondition.propertyOperator) : undefined,
+			propertyValueMax: loadedCondition.propertyValueMax as string | undefined,
+			fileNameMode: loadedCondition.type === 'file-name' ? normalizeFileNameMatchMode(loadedCondition.fileNameMode) : undefined,
+			fileNamePattern: loadedCondition.fileNamePattern as string | undefined,
+			fileExtension: loadedCondition.fileExtension as string | undefined,
+			linkRelation: loadedCondition.type === 'links' ? normalizeLinkRelation(loadedCondition.linkRelation) : undefined,
+			linkTarget: loadedCondition.linkTarget as string | undefined,
+			dateField: loadedCondition.type === 'file-date' ? (loadedCondition.dateField === 'created' ? 'created' : 'modified') : undefined,
+			dateOperator: loadedCondition.type === 'file-date' ? normalizeFileDateOperator(loadedCondition.dateOperator) : undefined,
+			dateValue: loadedCondition.dateValue as string | undefined,
+			contentCheck: loadedCondition.type === 'content' ? normalizeContentCheck(loadedCondition.contentCheck) : undefined,
+			contentValue: loadedCondition.contentValue as string | undefined,
+		};
+	}
+
+	/**
+	 * Normalizes a rule object, ensuring all required fields are present and defaults are applied.
+	 * Also cleans up fields that are not relevant to the rule's current type or content source.
+	 * @param rule The rule to normalize.
+	 */
+	public normalizeRule(rule: Rule): void {
+		// Create a copy of the rule to preserve original values during cleanup
+		const originalRule = { ...rule };
+
+		// Ensure basic fields have default values
+		if (typeof rule.id !== 'string' || !RULE_ID_PATTERN.test(rule.id)) {
+			rule.id = generateRuleId();
+		}
+		rule.name = rule.name === undefined ? DEFAULT_SETTINGS.rules[0].name : rule.name;
+		rule.enabled = typeof rule.enabled === 'boolean' ? rule.enabled : DEFAULT_SETTINGS.rules[0].enabled!;
+		rule.type = rule.type || DEFAULT_SETTINGS.rules[0].type;
+		rule.negated = normalizeBoolean(originalRule.negated, DEFAULT_SETTINGS.rules[0].negated ?? false);
+
+		// Clean up all type-specific fields before re-populating
+		delete rule.path;
+		delete rule.recursive;
+		delete rule.pathMatchMode;
+		delete rule.tag;
+		delete rule.includeSubtags;
+		delete rule.propertyName;
+		delete rule.propertyValue;
+		delete rule.propertyOperator;
+		delete rule.propertyValueMax;
+		delete rule.fileNameMode;
+		delete rule.fileNamePattern;
+		delete rule.fileExtension;
+		delete rule.linkRelation;
+		delete rule.linkTarget;
+		delete rule.dateField;
+		delete rule.dateOperator;
+		delete rule.dateValue;
+		delete rule.contentCheck;
+		delete rule.contentValue;
+		delete rule.conditions;
+		delete rule.multiConditionLogic;
+		delete rule.dataviewQuery;
+		delete rule.datacoreQuery;
+		delete rule.baseFilePath;
+		delete rule.baseViewName;
+
+		// Normalize based on RuleType, using values from the original rule if they exist
+		if (rule.type === RuleType.Folder) {
+			rule.path = originalRule.path === undefined ? (DEFAULT_SETTINGS.rules[0].path || '') : originalRule.path;
+			// 'recursive' is always true if path is "" (all files)
+			rule.recursive = rule.path === "" ? true : (typeof originalRule.recursive === 'boolean' ? originalRule.recursive : true);
+			rule.pathMatchMode = normalizePathMatchMode(originalRule.pathMatchMode);
+		} else if (rule.type === RuleType.Tag) {
+			rule.tag = originalRule.tag === undefined ? '' : originalRule.tag;
+			rule.includeSubtags = typeof originalRule.includeSubtags === 'boolean' ? originalRule.includeSubtags : false;
+		} else if (rule.type === RuleType.Property) {
+			rule.propertyName = originalRule.propertyName === undefined ? '' : originalRule.propertyName;
+			rule.propertyValue = originalRule.propertyValue === undefined ? '' : originalRule.propertyValue;
+			rule.propertyOperator = normalizePropertyOperator(originalRule.propertyOperator);
+			rule.propertyValueMax = rule.propertyOperator === 'between' ? (originalRule.propertyValueMax || '') : '';
+		} else if (rule.type === RuleType.FileName) {
+			rule.fileNameMode = normalizeFileNameMatchMode(originalRule.fileNameMode);
+			rule.fileNamePattern = originalRule.fileNamePattern || '';
+			rule.fileExtension = originalRule.fileExtension || '';
+		} else if (rule.type === RuleType.Links) {
+			rule.linkRelation = normalizeLinkRelation(originalRule.linkRelation);
+			rule.linkTarget = originalRule.linkTarget || '';
+		} else if (rule.type === RuleType.FileDate) {
+			rule.dateField = originalRule.dateField === 'created' ? 'created' : 'modified';
+			rule.dateOperator = normalizeFileDateOperator(originalRule.dateOperator);
+			rule.dateValue = originalRule.dateValue || '';
+		} else if (rule.type === RuleType.Content) {
+			rule.contentCheck = normalizeContentCheck(originalRule.contentCheck);
+			rule.contentValue = originalRule.contentValue || '';
+		} else if (rule.type === RuleType.Multi) {
+			rule.conditions = Array.isArray(originalRule.conditions)
+				? originalRule.conditions.map((condition) => this.normalizeConditionNode(condition))
+				: [];
+			rule.multiConditionLogic = originalRule.multiConditionLogic === 'all' ? 'all' : 'any';
+		} else if (rule.type === RuleType.Dataview) {
+			rule.dataviewQuery = originalRule.dataviewQuery === undefined ? '' : originalRule.dataviewQuery;
+		} else if (rule.type === RuleType.Datacore) {
+			rule.datacoreQuery = originalRule.datacoreQuery === undefined ? '' : originalRule.datacoreQuery;
+		} else if (rule.type === RuleType.Bases) {
+			rule.baseFilePath = originalRule.baseFilePath || '';
+			rule.baseViewName = originalRule.baseViewName || '';
+		}
+
+		// Normalize content source and related fields
+		rule.contentSource = originalRule.contentSource || DEFAULT_SETTINGS.rules[0].contentSource;
+		rule.footerText = originalRule.footerText || ''; // Retain name for compatibility
+		rule.useTemplater = normalizeBoolean(originalRule.useTemplater, false);
+		rule.renderLocation = originalRule.renderLocation || DEFAULT_SETTINGS.rules[0].renderLocation;
+
+		if (rule.contentSource === ContentSource.File) {
+			rule.footerFilePath = originalRule.footerFilePath || ''; // Retain name for compatibility
+			delete rule.contentPropertyName;
+			delete rule.snippetName;
+		} else if (rule.contentSource === ContentSource.Property) {
+			rule.contentPropertyName = originalRule.contentPropertyName || '';
+			delete rule.footerFilePath;
+			delete rule.snippetName;
+		} else if (rule.contentSource === ContentSource.Snippet) {
+			rule.snippetName = originalRule.snippetName || '';
+			delete rule.footerFilePath;
+			delete rule.contentPropertyName;
+		} else { // ContentSource.Text
+			delete rule.footerFilePath;
+			delete rule.contentPropertyName;
+			delete rule.snippetName;
+		}
+
+		// Normalize sidebar-specific fields
+		if (rule.renderLocation === RenderLocation.Sidebar) {
+			rule.showInSeparateTab = typeof originalRule.showInSeparateTab === 'boolean' ? originalRule.showInSeparateTab : false;
+			rule.sidebarTabName = originalRule.sidebarTabName || '';
+		} else {
+			delete rule.showInSeparateTab;
+			delete rule.sidebarTabName;
+		}
+
+		// Normalize positioning fields based on render location
+		if (rule.renderLocation === RenderLocation.Header) {
+			rule.renderAboveProperties = typeof originalRule.renderAboveProperties === 'boolean' ? originalRule.renderAboveProperties : false;
+			delete rule.renderAboveBacklinks;
+			delete rule.sectionHeaderText;
+			delete rule.sectionHeaderLevel;
+			delete rule.sectionHeaderPlacement;
+		} else if (rule.renderLocation === RenderLocation.Footer) {
+			rule.renderAboveBacklinks = typeof originalRule.renderAboveBacklinks === 'boolean' ? originalRule.renderAboveBacklinks : false;
+			delete rule.renderAboveProperties;
+			delete rule.sectionHeaderText;
+			delete rule.sectionHeaderLevel;
+			delete rule.sectionHeaderPlacement;
+		} else if (rule.renderLocation === RenderLocation.SectionHeader) {
+			rule.sectionHeaderText = originalRule.sectionHeaderText || '';
+			rule.sectionHeaderLevel = /^h[1-6]$/.test(originalRule.sectionHeaderLevel || '') ? originalRule.sectionHeaderLevel : 'h2';
+			rule.sectionHeaderPlacement = originalRule.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top';
+			delete rule.renderAboveProperties;
+			delete rule.renderAboveBacklinks;
+		} else {
+			delete rule.renderAboveProperties;
+			delete rule.renderAboveBacklinks;
+			delete rule.sectionHeaderText;
+			delete rule.sectionHeaderLevel;
+			delete rule.sectionHeaderPlacement;
+		}
+
+		// Normalize popover visibility setting
+		rule.showInPopover = typeof originalRule.showInPopover === 'boolean' ? originalRule.showInPopover : true;
+		rule.showInEmbed = typeof originalRule.showInEmbed === 'boolean' ? originalRule.showInEmbed : true;
+		rule.showInCanvas = typeof originalRule.showInCanvas === 'boolean' ? originalRule.showInCanvas : true;
+	}
+
+	/**
+	 * Normalizes a condition node of a 'Multi' rule, recursing into nested groups.
+	 * @param condition The condition or group to normalize.
+	 * @returns A normalized copy of the condition node.
+	 */
+	private normalizeConditionNode(condition: ConditionNode): ConditionNode {
+		if (condition.type === 'group') {
+			return {
+				...condition,
+				negated: normalizeBoolean(condition.negated, false),
+				logic: condition.logic === 'all' ? 'all' : 'any',
+				conditions: Array.isArray(condition.conditions)
+					? condition.conditions.map((child) => this.normalizeConditionNode(child))
+					: [],
+			};
+		}
+		const normalized: SubCondition = {
+			...condition,
+			negated: normalizeBoolean(condition.negated, false),
+		};
+		if (normalized.type === 'folder') {
+			normalized.pathMatchMode = normalizePathMatchMode(normalized.pathMatchMode);
+		} else if (normalized.type === 'property') {
+			normalized.propertyOperator = normalizePropertyOperator(normalized.propertyOperator);
+		} else if (normalized.type === 'file-name') {
+			normalized.fileNameMode = normalizeFileNameMatchMode(normalized.fileNameMode);
+		} else if (normalized.type === 'links') {
+			normalized.linkRelation = normalizeLinkRelation(normalized.linkRelation);
+		} else if (normalized.type === 'file-date') {
+			normalized.dateField = normalized.dateField === 'created' ? 'created' : 'modified';
+			normalized.dateOperator = normalizeFileDateOperator(normalized.dateOperator);
+		} else if (normalized.type === 'content') {
+			normalized.contentCheck = normalizeContentCheck(normalized.contentCheck);
+		}
+		return normalized;
+	}
+
+	/**
+	 * Saves the current plugin settings to storage and triggers a view refresh.
+	 * @param refreshAllViews Whether to refresh every open note, embed and popover instead of only the active note,
+	 * for changes such as snippet edits that can affect notes in the background.
+	 */
+	async saveSettings(refreshAllViews = false) {
+		// Ensure all rules are normalized before saving
+		this.settings.rules.forEach(rule => this.normalizeRule(rule));
+		this.ruleIndex = null; // Recompile rules on next match
+		await this.saveData(this.settings);
+		this.registerDynamicViews(); // Re-register views in case names/rules changed
+		if (refreshAllViews) {
+			this.refreshNotesShowingContent(null);
+		} else {
+			this.handleActiveViewChange(); // Refresh views to apply changes
+		}
+		this.app.workspace.getLeavesOfType(RULE_EXPLAINER_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof RuleExplainerView) {
+				void leaf.view.update();
+			}
+		});
+	}
+
+	async activateView(viewId: string) {
+		this.app.workspace.detachLeavesOfType(viewId);
+
+		const leaf = this.app.workspace.getRightLeaf(true);
+		if (leaf) {
+			await leaf.setViewState({
+				type: viewId,
+				active: true,
+			});
+
+			await this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	private activateAllSidebarViews() {
+		void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
+		this.settings.rules.forEach(rule => {
+			if (rule.enabled && rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
+				void this.activateView(this.getSeparateViewId(rule));
+			}
+		});
+	}
+
+	private updateAllSidebarViews() {
+		const leaves = this.app.workspace.getLeavesOfType(VIRTUAL_CONTENT_VIEW_TYPE);
+		for (const leaf of leaves) {
+			if (leaf.view instanceof VirtualContentView) {
+				leaf.view.update();
+			}
+		}
+		this.settings.rules.forEach(rule => {
+			if (rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
+				const viewId = this.getSeparateViewId(rule);
+				const separateLeaves = this.app.workspace.getLeavesOfType(viewId);
+				for (const leaf of separateLeaves) {
+					if (leaf.view instanceof VirtualContentView) {
+						leaf.view.update();
+					}
+				}
+			}
+		});
+	}
+
+	public getLastSidebarContent(): { content: string, sourcePath: string } | null {
+		return this.lastSidebarContent;
+	}
+
+	public getSeparateTabContent(viewId: string): { content: string, sourcePath: string } | null {
+		return this.lastSeparateTabContents.get(viewId) || null;
+	}
+
+	private getSeparateViewId(rule: Rule): string {
+		return `${VIRTUAL_CONTENT_SEPARATE_VIEW_TYPE_PREFIX}${rule.id}`;
+	}
+
+	/**
+	 * Gets the title of a rule's separate sidebar tab, looked up when the tab is opened so that renames and reordering apply.
+	 */
+	private getSeparateTabName(ruleId: string): string {
+		const index = this.settings.rules.findIndex(rule => rule.id === ruleId);
+		const tabName = this.settings.rules[index]?.sidebarTabName?.trim();
+		return tabName ? `Virtual Content: ${tabName}` : `Virtual Content: Rule ${index + 1}`;
+	}
+
+	private registerDynamicViews() {
+		const activeViewIds = new Set<string>();
+		this.settings.rules.forEach(rule => {
+			if (rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
+				const viewId = this.getSeparateViewId(rule);
+				const ruleId = rule.id;
+				activeViewIds.add(viewId);
+				if (this.registeredSeparateViewIds.has(viewId)) {
+					return;
+				}
+				this.registeredSeparateViewIds.add(viewId);
+
+				try {
+					this.registerView(
+						viewId,
+						(leaf) => new VirtualContentView(leaf, this, viewId, this.getSeparateTabName(ruleId), () => this.getSeparateTabContent(viewId))
+					);
+				} catch {
+					// Calling `this.registerView` when the view already exists, the following error occurs.
+					// This error doesn't need special handling, but if it is left unhandled, the Settings UI will not update properly.
+
+					// console.error(error) // `Error: Attempting to register an existing view type "virtual-content-separate-view-1"`
+				}
+			}
+		});
+
+		// Close and unregister the tabs of rules that were deleted or no longer use a separate tab
+		for (const viewId of this.registeredSeparateViewIds) {
+			if (activeViewIds.has(viewId)) {
+				continue;
+			}
+			this.app.workspace.detachLeavesOfType(viewId);
+			// @ts-ignore - unregisterView is an undocumented API; registerView only unregisters on unload
+			this.app.viewRegistry?.unregisterView?.(viewId);
+			this.registeredSeparateViewIds.delete(viewId);
+			this.lastSeparateTabContents.delete(viewId);
+		}
+	}
+}
+
+// --- Settings Tab Class ---
+
+type RuleEditorProviders = {
+	getAvailableFolderPaths: () => Set<string>;
+	getAvailableTags: () => Set<string>;
+	getAvailableMarkdownFilePaths: () => Set<string>;
+	getAvailablePropertyNames: () => Set<string>;
+	getAvailableBaseFilePaths: () => Set<string>;
+};
+
+type RuleEditorOptions = {
+	title: string;
+	onSave: (rule: Rule) => Promise<void> | void;
+	onCancel?: () => void;
+	providers: RuleEditorProviders;
+};
+
+class RuleEditorModal extends Modal {
+	private workingRule: Rule;
+	private didSave = false;
+	/** Problems found when saving was first attempted, or null if the rule hasn't been validated yet. */
+	private validationWarnings: string[] | null = null;
+	/** The rule as it was when `validationWarnings` were found, so that an edited rule is checked again before saving. */
+	private validatedRuleKey: string | null = null;
+	/** The note the content preview is rendered for. */
+	private previewFilePath: string;
+	private previewEl: HTMLElement | null = null;
+	private previewComponent: Component | null = null;
+	private previewTimeout: number | null = null;
+	/** Incremented on each preview render, so that outdated renders are discarded. */
+	private previewGeneration = 0;
+	/** The rule and note the preview was last rendered for, so that events that change neither don't re-render it. */
+	private lastPreviewKey: string | null = null;
+	/** Pending match count updates for path pattern settings, so that the vault isn't scanned on every keystroke. */
+	private pathMatchCountTimeouts: Map<Setting, number> = new Map();
+
+	constructor(app: App, private plugin: VirtualFooterPlugin, rule: Rule, private options: RuleEditorOptions) {
+		super(app);
+		this.workingRule = RuleEditorModal.cloneRule(rule);
+		this.previewFilePath = app.workspace.getActiveFile()?.path ?? '';
+		this.setTitle(options.title);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('mod-lg');
+		this.render();
+	}
+
+	onClose(): void {
+		if (this.previewTimeout !== null) {
+			window.clearTimeout(this.previewTimeout);
+			this.previewTimeout = null;
+		}
+		this.pathMatchCountTimeouts.forEach(timeout => window.clearTimeout(timeout));
+		this.pathMatchCountTimeouts.clear();
+		this.previewComponent?.unload();
+		this.previewComponent = null;
+		this.contentEl.empty();
+		if (!this.didSave) {
+			this.options.onCancel?.();
+		}
+	}
+
+	private static cloneRule(rule: Rule): Rule {
+		return JSON.parse(JSON.stringify(rule));
+	}
+
+	private render(): void {
+		this.contentEl.empty();
+		const layoutEl = this.contentEl.createDiv({ cls: 'virtual-footer-rule-editor-layout' });
+		const settingsEl = layoutEl.createDiv({ cls: 'virtual-footer-rule-editor-settings' });
+		// Any edit of the conditions can change whether the rule applies to the preview note
+		for (const eventType of ['input', 'change', 'click']) {
+			settingsEl.addEventListener(eventType, () => this.schedulePreviewUpdate());
+		}
+		this.renderRuleEditor(settingsEl);
+		this.renderPreviewPane(layoutEl.createDiv({ cls: 'virtual-footer-rule-editor-preview' }));
+		this.renderValidationWarnings(this.contentEl);
+		this.renderButtons(this.contentEl);
+	}
+
+	private renderPreviewPane(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Preview')
+			.setDesc('The content as it renders for the selected note.')
+			.setHeading();
+		new Setting(containerEl)
+			.setName('Preview note')
+			.addText(text => {
+				text.setPlaceholder('e.g., Projects/Example.md')
+					.setValue(this.previewFilePath)
+					.onChange((value) => {
+						this.previewFilePath = value;
+						this.schedulePreviewUpdate();
+					});
+				new MultiSuggest(text.inputEl, this.options.providers.getAvailableMarkdownFilePaths(), (selectedPath) => {
+					this.previewFilePath = selectedPath;
+					text.setValue(selectedPath);
+					this.schedulePreviewUpdate();
+				}, this.plugin.app);
+			});
+		this.previewEl = containerEl.createDiv({ cls: 'virtual-footer-rule-preview-content' });
+		this.lastPreviewKey = null;
+		void this.updatePreview();
+	}
+
+	/**
+	 * Re-renders the preview shortly after the last change, so that typing stays responsive.
+	 */
+	private schedulePreviewUpdate(): void {
+		if (this.previewTimeout !== null) {
+			window.clearTimeout(this.previewTimeout);
+		}
+		this.previewTimeout = window.setTimeout(() => {
+			this.previewTimeout = null;
+			void this.updatePreview();
+		}, 300);
+	}
+
+	private async updatePreview(): Promise<void> {
+		const previewEl = this.previewEl;
+		if (!previewEl) {
+			return;
+		}
+		const previewKey = JSON.stringify([this.previewFilePath, this.workingRule]);
+		if (previewKey === this.lastPreviewKey) {
+			return;
+		}
+		this.lastPreviewKey = previewKey;
+		const generation = ++this.previewGeneration;
+		const file = this.app.vault.getAbstractFileByPath(this.previewFilePath);
+		if (!(file instanceof TFile)) {
+			previewEl.empty();
+			previewEl.createEl('p', { text: 'Choose a note to preview the content for.', cls: 'virtual-footer-rule-preview-note' });
+			return;
+		}
+
+		try {
+			const previewRule = RuleEditorModal.cloneRule(this.workingRule);
+			this.plugin.normalizeRule(previewRule);
+			const [applies, content] = await Promise.all([
+				this.plugin.ruleAppliesToNote(previewRule, file),
+				this.plugin.getRuleContentForNote(previewRule, file),
+			]);
+			if (generation !== this.previewGeneration) {
+				return;
+			}
+
+			this.previewComponent?.unload();
+			const component = new Component();
+			component.load();
+			this.previewComponent = component;
+			previewEl.empty();
+			if (!applies) {
+				previewEl.createEl('p', { text: 'The rule does not apply to this note. Its content is shown anyway.', cls: 'virtual-footer-rule-preview-note' });
+			}
+			if (content.trim() === '') {
+				previewEl.createEl('p', { text: 'The content is empty.', cls: 'virtual-footer-rule-preview-note' });
+				return;
+			}
+			await MarkdownRenderer.render(this.app, content, previewEl.createDiv(), file.path, component);
+		} catch (error) {
+			console.error(`VirtualFooter: Error rendering the rule preview for ${file.path}:`, error);
+			if (generation === this.previewGeneration) {
+				previewEl.empty();
+				previewEl.createEl('p', {
+					text: `The preview could not be rendered: ${error instanceof Error ? error.message : String(error)}`,
+					cls: 'virtual-footer-rule-preview-note',
+				});
+			}
+			// Allow retrying the same rule, e.g. after fixing the note
+			this.lastPreviewKey = null;
+		}
+	}
+
+	private renderValidationWarnings(containerEl: HTMLElement): void {
+		if (!this.validationWarnings || this.validationWarnings.length === 0) {
+			return;
+		}
+		const warningsEl = containerEl.createDiv({ cls: 'virtual-footer-rule-warnings' });
+		warningsEl.createEl('p', { text: 'This rule may not show any content:' });
+		const listEl = warningsEl.createEl('ul');
+		this.validationWarnings.forEach(warning => listEl.createEl('li', { text: warning }));
+	}
+
+	private renderButtons(containerEl: HTMLElement): void {
+		const buttonsEl = containerEl.createDiv({ cls: 'modal-button-container' });
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Preview matches')
+			.onClick(() => {
+				const previewRule = RuleEditorModal.cloneRule(this.workingRule);
+				this.plugin.normalizeRule(previewRule);
+				new RuleMatchPreviewModal(this.app, this.plugin, previewRule).open();
+			});
+		if (this.validationWarnings && this.validationWarnings.length > 0) {
+			new ButtonComponent(buttonsEl)
+				.setButtonText('Check again')
+				.onClick(() => void this.checkRule());
+		}
+		new ButtonComponent(buttonsEl)
+			.setButtonText(this.validationWarnings && this.validationWarnings.length > 0 ? 'Save anyway' : 'Save')
+			.setCta()
+			.onClick(() => void this.handleSave());
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Cancel')
+			.onClick(() => this.close());
+	}
+
+	/**
+	 * Validates the rule again and shows the problems found, without saving it.
+	 */
+	private async checkRule(): Promise<void> {
+		this.plugin.normalizeRule(this.workingRule);
+		this.validationWarnings = await this.plugin.validateRule(this.workingRule);
+		this.validatedRuleKey = JSON.stringify(this.workingRule);
+		this.render();
+	}
+
+	private async handleSave(): Promise<void> {
+		this.plugin.normalizeRule(this.workingRule);
+		// Warn about problems once; saving the same rule again with the warnings shown saves anyway
+		const ruleKey = JSON.stringify(this.workingRule);
+		if (this.validationWarnings === null || ruleKey !== this.validatedRuleKey) {
+			this.validationWarnings = await this.plugin.validateRule(this.workingRule);
+			this.validatedRuleKey = ruleKey;
+			if (this.validationWarnings.length > 0) {
+				this.render();
+				return;
+			}
+		}
+		this.didSave = true;
+		await this.options.onSave(this.workingRule);
+		this.close();
+	}
+
+	private renderRuleEditor(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Rule name')
+			.setDesc('A descriptive name for this rule.')
+			.addText(text => text
+				.setPlaceholder('e.g., Project notes footer')
+				.setValue(this.workingRule.name || '')
+				.onChange((value) => {
+					this.workingRule.name = value;
+				}));
+
+		new Setting(containerEl)
+			.setName('Enabled')
+			.setDesc('If disabled, this rule will not be applied.')
+			.addToggle(toggle => toggle
+				.setValue(this.workingRule.enabled ?? true)
+				.onChange((value) => {
+					this.workingRule.enabled = value;
+				}));
+
+		new Setting(containerEl)
+			.setName('Rule type')
+			.setDesc('Apply this rule based on folder, tag, property, file name, links, file dates, note content, or a combination.')
+			.addDropdown(dropdown => dropdown
+				.addOption(RuleType.Folder, 'Folder')
+				.addOption(RuleType.Tag, 'Tag')
+				.addOption(RuleType.Property, 'Property')
+				.addOption(RuleType.FileName, 'File name')
+				.addOption(RuleType.Links, 'Links')
+				.addOption(RuleType.FileDate, 'File date')
+				.addOption(RuleType.Content, 'Note content')
+				.addOption(RuleType.Multi, 'Multi-condition')
+				.addOption(RuleType.Dataview, 'Dataview')
+				.addOption(RuleType.Datacore, 'Datacore')
+				.addOption(RuleType.Bases, 'Bases')
+				.setValue(this.workingRule.type)
+				.onChange((value: string) => {
+					this.workingRule.type = value as RuleType;
+					if (this.workingRule.type === RuleType.Multi && !this.workingRule.conditions) {
+						this.workingRule.conditions = [];
+					}
+					this.plugin.normalizeRule(this.workingRule);
+					this.render();
+				}));
+
+		this.renderTypeSpecificControls(containerEl);
+
+		new Setting(containerEl)
+			.setName('Content source')
+			.setDesc('Where to get the content from: direct text input, a separate Markdown file, a property of each note, or a snippet from the snippet library.')
+			.addDropdown(dropdown => dropdown
+				.addOption(ContentSource.Text, 'Direct text')
+				.addOption(ContentSource.File, 'Markdown file')
+				.addOption(ContentSource.Property, 'Note property')
+				.addOption(ContentSource.Snippet, 'Snippet')
+				.setValue(this.workingRule.contentSource || ContentSource.Text)
+				.onChange((value: string) => {
+					this.workingRule.contentSource = value as ContentSource;
+					this.plugin.normalizeRule(this.workingRule);
+					this.render();
+				}));
+
+		if (this.workingRule.contentSource === ContentSource.File) {
+			new Setting(containerEl)
+				.setName('Content file path')
+				.setDesc('Path to the .md file to use as content (e.g., "templates/common-footer.md"). Add #Heading or #^block-id to use only that part of the note.')
+				.addText(text => {
+					text.setPlaceholder('e.g., templates/common-footer.md')
+						.setValue(this.workingRule.footerFilePath || '')
+						.onChange((value) => {
+							this.workingRule.footerFilePath = value;
+							this.schedulePreviewUpdate();
+						});
+					new ContentFileSuggest(text.inputEl, this.plugin, this.options.providers.getAvailableMarkdownFilePaths(), (selectedPath) => {
+						this.workingRule.footerFilePath = selectedPath;
+						this.schedulePreviewUpdate();
+						text.setValue(selectedPath);
+					});
+				});
+		} else if (this.workingRule.contentSource === ContentSource.Property) {
+			new Setting(containerEl)
+				.setName('Content property')
+				.setDesc('The note property that holds a link to the content file (e.g., "[[Templates/Client footer]]") or Markdown text.')
+				.addText(text => {
+					text.setPlaceholder('e.g., virtual-footer')
+						.setValue(this.workingRule.contentPropertyName || '')
+						.onChange((value) => {
+							this.workingRule.contentPropertyName = value;
+							this.schedulePreviewUpdate();
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailablePropertyNames(), (selectedName) => {
+						this.workingRule.contentPropertyName = selectedName;
+						this.schedulePreviewUpdate();
+						text.setValue(selectedName);
+					}, this.plugin.app);
+				});
+
+			new Setting(containerEl)
+				.setName('Fallback text')
+				.setDesc('Markdown text to display for notes without the property. Leave empty to show nothing.')
+				.addTextArea(text => text
+					.setPlaceholder('Enter your markdown content here...')
+					.setValue(this.workingRule.footerText || '')
+					.onChange((value) => {
+						this.workingRule.footerText = value;
+						this.schedulePreviewUpdate();
+					}));
+		} else if (this.workingRule.contentSource === ContentSource.Snippet) {
+			const snippetNames = (this.plugin.settings.snippets ?? []).map(snippet => snippet.name);
+			new Setting(containerEl)
+				.setName('Snippet')
+				.setDesc(snippetNames.length > 0
+					? 'The snippet from the snippet library to display. Edits to the snippet apply to every rule that uses it.'
+					: 'The snippet library is empty. Add snippets in the plugin settings first.')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Select a snippet');
+					snippetNames.forEach(name => dropdown.addOption(name, name));
+					// Keep a reference to a snippet that no longer exists visible instead of silently clearing it
+					if (this.workingRule.snippetName && !snippetNames.includes(this.workingRule.snippetName)) {
+						dropdown.addOption(this.workingRule.snippetName, `${this.workingRule.snippetName} (missing)`);
+					}
+					dropdown
+						.setValue(this.workingRule.snippetName || '')
+						.onChange((value) => {
+							this.workingRule.snippetName = value;
+							this.schedulePreviewUpdate();
+						});
+				});
+		} else {
+			new Setting(containerEl)
+				.setName('Content text')
+				.setDesc('Markdown text to display. This will be rendered.')
+				.addTextArea(text => text
+					.setPlaceholder('Enter your markdown content here...')
+					.setValue(this.workingRule.footerText || '')
+					.onChange((value) => {
+						this.workingRule.footerText = value;
+						this.schedulePreviewUpdate();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Process with Templater')
+			.setDesc('Run the content through Templater for each note it is shown on. The note itself is never modified. Requires the Templater plugin.')
+			.addToggle(toggle => toggle
+				.setValue(this.workingRule.useTemplater ?? false)
+				.onChange((value) => {
+					this.workingRule.useTemplater = value;
+					this.schedulePreviewUpdate();
+				}));
+
+		new Setting(containerEl)
+			.setName('Render location')
+			.setDesc('Choose whether this rule renders its content in the note header, footer, a selected section, or a dedicated sidebar tab.')
+			.addDropdown(dropdown => dropdown
+				.addOption(RenderLocation.Footer, 'Footer')
+				.addOption(RenderLocation.Header, 'Header')
+				.addOption(RenderLocation.SectionHeader, 'Section header')
+				.addOption(RenderLocation.Sidebar, 'Sidebar')
+				.setValue(this.workingRule.renderLocation || RenderLocation.Footer)
+				.onChange((value: string) => {
+					this.workingRule.renderLocation = value as RenderLocation;
+					this.plugin.normalizeRule(this.workingRule);
+					this.render();
+				}));
+
+		this.renderLocationSpecificControls(containerEl);
+
+		new Setting(containerEl)
+			.setName('Show in popover views')
+			.setDesc('If enabled, this rule\'s content will be shown when viewing notes in hover popovers.')
+			.addToggle(toggle => toggle
+				.setValue(this.workingRule.showInPopover !== undefined ? this.workingRule.showInPopover : true)
+				.onChange((value) => {
+					this.workingRule.showInPopover = value;
+				}));
+
+		new Setting(containerEl)
+			.setName('Show in embedded notes')
+			.setDesc('If enabled, this rule\'s content will be shown inside embedded notes such as ![[Link]].')
+			.addToggle(toggle => toggle
+				.setValue(this.workingRule.showInEmbed !== undefined ? this.workingRule.showInEmbed : true)
+				.onChange((value) => {
+					this.workingRule.showInEmbed = value;
+				}));
+
+		new Setting(containerEl)
+			.setName('Show in canvas cards')
+			.setDesc('If enabled, this rule\'s content will be shown inside note cards on Canvas.')
+			.addToggle(toggle => toggle
+				.setValue(this.workingRule.showInCanvas !== undefined ? this.workingRule.showInCanvas : true)
+				.onChange((value) => {
+					this.workingRule.showInCanvas = value;
+				}));
+	}
+
+	private renderTypeSpecificControls(containerEl: HTMLElement): void {
+		if (this.workingRule.type === RuleType.Folder) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
+
+			new Setting(containerEl)
+				.setName('Path matching')
+				.setDesc('Match a folder, a glob pattern (e.g. "Projects/**/Meetings/*.md"), or a regular expression against the full file path.')
+				.addDropdown(dropdown => dropdown
+					.addOption('folder', 'Folder')
+					.addOption('glob', 'Glob pattern')
+					.addOption('regex', 'Regular expression')
+					.setValue(this.workingRule.pathMatchMode || 'folder')
+					.onChange((value: string) => {
+						setPathMatchMode(this.workingRule, value as PathMatchMode);
+						this.render();
+					}));
+
+			const pathMatchMode = this.workingRule.pathMatchMode || 'folder';
+			if (pathMatchMode === 'folder') {
+				new Setting(containerEl)
+					.setName('Folder path')
+					.setDesc('Leave empty for all files, "/" for root, or "FolderName/" for a specific folder.')
+					.addText(text => {
+						text.setPlaceholder('e.g., Meetings/, /, or empty for all')
+							.setValue(this.workingRule.path || '')
+							.onChange((value) => {
+								this.workingRule.path = value;
+								this.plugin.normalizeRule(this.workingRule);
+								this.render();
+							});
+						new MultiSuggest(text.inputEl, this.options.providers.getAvailableFolderPaths(), (selectedPath) => {
+							this.workingRule.path = selectedPath;
+							this.plugin.normalizeRule(this.workingRule);
+							text.setValue(selectedPath);
+							this.render();
+						}, this.plugin.app);
+					});
+
+				new Setting(containerEl)
+					.setName('Include subfolders (recursive)')
+					.setDesc('If enabled, the rule applies to files in subfolders.')
+					.addToggle(toggle => {
+						toggle.setValue(this.workingRule.recursive ?? true)
+							.onChange((value) => {
+								this.workingRule.recursive = value;
+							});
+						if (this.workingRule.path === '') {
+							toggle.setDisabled(true);
+						}
+					});
+			} else {
+				const patternSetting = new Setting(containerEl)
+					.setName(pathMatchMode === 'glob' ? 'Glob pattern' : 'Regular expression')
+					.addText(text => text
+						.setPlaceholder(pathMatchMode === 'glob' ? 'e.g., */Archive/**' : 'e.g., ^Projects/.+/Meetings/')
+						.setValue(this.workingRule.path || '')
+						.onChange((value) => {
+							this.workingRule.path = value;
+							this.schedulePathMatchCount(patternSetting, this.workingRule);
+						}));
+				this.updatePathMatchCount(patternSetting, this.workingRule);
+			}
+		} else if (this.workingRule.type === RuleType.Tag) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
+
+			new Setting(containerEl)
+				.setName('Tag value')
+				.setDesc('Tag to match (without the # prefix).')
+				.addText(text => {
+					text.setPlaceholder('e.g., important or project/alpha')
+						.setValue(this.workingRule.tag || '')
+						.onChange((value) => {
+							this.workingRule.tag = value.startsWith('#') ? value.substring(1) : value;
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailableTags(), (selectedTag) => {
+						const normalizedTag = selectedTag.startsWith('#') ? selectedTag.substring(1) : selectedTag;
+						this.workingRule.tag = normalizedTag;
+						this.schedulePreviewUpdate();
+						text.setValue(normalizedTag);
+					}, this.plugin.app);
+				});
+
+			new Setting(containerEl)
+				.setName('Include subtags')
+				.setDesc('If enabled, a rule for "tag" applies to "tag/subtag" values.')
+				.addToggle(toggle => toggle
+					.setValue(this.workingRule.includeSubtags ?? false)
+					.onChange((value) => {
+						this.workingRule.includeSubtags = value;
+					}));
+		} else if (this.workingRule.type === RuleType.Property) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
+
+			new Setting(containerEl)
+				.setName('Property name')
+				.setDesc('The name of the Obsidian property to match.')
+				.addText(text => {
+					text.setPlaceholder('e.g., status, type, author')
+						.setValue(this.workingRule.propertyName || '')
+						.onChange((value) => {
+							this.workingRule.propertyName = value;
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailablePropertyNames(), (selectedName) => {
+						this.workingRule.propertyName = selectedName;
+						this.schedulePreviewUpdate();
+						text.setValue(selectedName);
+					}, this.plugin.app);
+				});
+
+			new Setting(containerEl)
+				.setName('Operator')
+				.setDesc('How the property value is compared. Operators apply to each item of list properties.')
+				.addDropdown(dropdown => {
+					this.addPropertyOperatorOptions(dropdown);
+					dropdown
+						.setValue(this.workingRule.propertyOperator || 'equals')
+						.onChange((value: string) => {
+							this.workingRule.propertyOperator = value as PropertyOperator;
+							this.render();
+						});
+				});
+
+			const operator = this.workingRule.propertyOperator || 'equals';
+			new Setting(containerEl)
+				.setName(operator === 'between' ? 'Minimum value' : 'Property value')
+				.setDesc(this.getPropertyValueDescription(operator))
+				.addText(text => text
+					.setPlaceholder(this.getPropertyValuePlaceholder(operator))
+					.setValue(this.workingRule.propertyValue || '')
+					.onChange((value) => {
+						this.workingRule.propertyValue = value;
+					}));
+
+			if (operator === 'between') {
+				new Setting(containerEl)
+					.setName('Maximum value')
+					.setDesc('The inclusive upper bound.')
+					.addText(text => text
+						.setPlaceholder('e.g., 100')
+						.setValue(this.workingRule.propertyValueMax || '')
+						.onChange((value) => {
+							this.workingRule.propertyValueMax = value;
+						}));
+			}
+		} else if (this.workingRule.type === RuleType.FileName) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-		// Ensure basic fields have default values
-		rule.name = rule.name === undefined ? DEFAULT_SETTINGS.rules[0].name : rule.name;
-		rule.enabled = typeof rule.enabled === 'boolean' ? rule.enabled : DEFAULT_SETTINGS.rules[0].enabled!;
-		rule.type = rule.type || DEFAULT_SETTINGS.rules[0].type;
-		rule.negated = normalizeBoolean(originalRule.negated, DEFAULT_SETTINGS.rules[0].negated ?? false);
+			new Setting(containerEl)
+				.setName('Match mode')
+				.setDesc('How the note name (without extension) is compared. Text comparisons ignore case.')
+				.addDropdown(dropdown => {
+					this.addFileNameModeOptions(dropdown);
+					dropdown
+						.setValue(this.workingRule.fileNameMode || 'exact')
+						.onChange((value: string) => {
+							this.workingRule.fileNameMode = value as FileNameMatchMode;
+							this.render();
+						});
+				});
 
-		// Clean up all type-specific fields before re-populating
-		delete rule.path;
-		delete rule.recursive;
-		delete rule.tag;
-		delete rule.includeSubtags;
-		delete rule.propertyName;
-		delete rule.propertyValue;
-		delete rule.conditions;
-		delete rule.multiConditionLogic;
-		delete rule.dataviewQuery;
+			const fileNameMode = this.workingRule.fileNameMode || 'exact';
+			new Setting(containerEl)
+				.setName(fileNameMode === 'date-format' ? 'Date format' : 'File name pattern')
+				.setDesc(fileNameMode === 'date-format'
+					? 'A moment.js format the whole note name must match, e.g. YYYY-MM-DD for daily notes.'
+					: 'Leave empty to match any name with one of the extensions below.')
+				.addText(text => text
+					.setPlaceholder(this.getFileNamePatternPlaceholder(fileNameMode))
+					.setValue(this.workingRule.fileNamePattern || '')
+					.onChange((value) => {
+						this.workingRule.fileNamePattern = value;
+					}));
 
-		// Normalize based on RuleType, using values from the original rule if they exist
-		if (rule.type === RuleType.Folder) {
-			rule.path = originalRule.path === undefined ? (DEFAULT_SETTINGS.rules[0].path || '') : originalRule.path;
-			// 'recursive' is always true if path is "" (all files)
-			rule.recursive = rule.path === "" ? true : (typeof originalRule.recursive === 'boolean' ? originalRule.recursive : true);
-		} else if (rule.type === RuleType.Tag) {
-			rule.tag = originalRule.tag === undefined ? '' : originalRule.tag;
-			rule.includeSubtags = typeof originalRule.includeSubtags === 'boolean' ? originalRule.includeSubtags : false;
-		} else if (rule.type === RuleType.Property) {
-			rule.propertyName = originalRule.propertyName === undefined ? '' : originalRule.propertyName;
-			rule.propertyValue = originalRule.propertyValue === undefined ? '' : originalRule.propertyValue;
-		} else if (rule.type === RuleType.Multi) {
-			rule.conditions = Array.isArray(originalRule.conditions)
-				? originalRule.conditions.map((condition) => ({
-					...condition,
-					negated: normalizeBoolean(condition.negated, false),
-				}))
-				: [];
-			rule.multiConditionLogic = originalRule.multiConditionLogic === 'all' ? 'all' : 'any';
-		} else if (rule.type === RuleType.Dataview) {
-			rule.dataviewQuery = originalRule.dataviewQuery === undefined ? '' : originalRule.dataviewQuery;
-		}
+			new Setting(containerEl)
+				.setName('File extensions')
+				.setDesc('Optional comma-separated list of extensions to restrict the rule to.')
+				.addText(text => text
+					.setPlaceholder('e.g., md, canvas')
+					.setValue(this.workingRule.fileExtension || '')
+					.onChange((value) => {
+						this.workingRule.fileExtension = value;
+					}));
+		} else if (this.workingRule.type === RuleType.Links) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-		// Normalize content source and related fields
-		rule.contentSource = originalRule.contentSource || DEFAULT_SETTINGS.rules[0].contentSource;
-		rule.footerText = originalRule.footerText || ''; // Retain name for compatibility
-		rule.renderLocation = originalRule.renderLocation || DEFAULT_SETTINGS.rules[0].renderLocation;
+			new Setting(containerEl)
+				.setName('Link relation')
+				.setDesc('How the note must relate to other notes through links.')
+				.addDropdown(dropdown => {
+					this.addLinkRelationOptions(dropdown);
+					dropdown
+						.setValue(this.workingRule.linkRelation || 'links-to')
+						.onChange((value: string) => {
+							this.workingRule.linkRelation = value as LinkRelation;
+							this.render();
+						});
+				});
 
-		if (rule.contentSource === ContentSource.File) {
-			rule.footerFilePath = originalRule.footerFilePath || ''; // Retain name for compatibility
-		} else { // ContentSource.Text
-			delete rule.footerFilePath;
-		}
+			if (this.linkRelationNeedsTarget(this.workingRule.linkRelation)) {
+				new Setting(containerEl)
+					.setName('Target note')
+					.setDesc('The note that must be linked to, or that must link to the current note.')
+					.addText(text => {
+						text.setPlaceholder('e.g., Index.md')
+							.setValue(this.workingRule.linkTarget || '')
+							.onChange((value) => {
+								this.workingRule.linkTarget = value;
+							});
+						new MultiSuggest(text.inputEl, this.options.providers.getAvailableMarkdownFilePaths(), (selectedPath) => {
+							this.workingRule.linkTarget = selectedPath;
+							this.schedulePreviewUpdate();
+							text.setValue(selectedPath);
+						}, this.plugin.app);
+					});
+			}
+		} else if (this.workingRule.type === RuleType.FileDate) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-		// Normalize sidebar-specific fields
-		if (rule.renderLocation === RenderLocation.Sidebar) {
-			rule.showInSeparateTab = typeof originalRule.showInSeparateTab === 'boolean' ? originalRule.showInSeparateTab : false;
-			rule.sidebarTabName = originalRule.sidebarTabName || '';
-		} else {
-			delete rule.showInSeparateTab;
-			delete rule.sidebarTabName;
-		}
+			new Setting(containerEl)
+				.setName('Date')
+				.setDesc('Which file timestamp to check, and how to compare it. Open notes are re-checked every minute.')
+				.addDropdown(dropdown => dropdown
+					.addOption('modified', 'Modified')
+					.addOption('created', 'Created')
+					.setValue(this.workingRule.dateField || 'modified')
+					.onChange((value: string) => {
+						this.workingRule.dateField = value as FileDateField;
+					}))
+				.addDropdown(dropdown => {
+					this.addFileDateOperatorOptions(dropdown);
+					dropdown
+						.setValue(this.workingRule.dateOperator || 'older-than-days')
+						.onChange((value: string) => {
+							this.workingRule.dateOperator = value as FileDateOperator;
+							this.render();
+						});
+				});
 
-		// Normalize positioning fields based on render location
-		if (rule.renderLocation === RenderLocation.Header) {
-			rule.renderAboveProperties = typeof originalRule.renderAboveProperties === 'boolean' ? originalRule.renderAboveProperties : false;
-			delete rule.renderAboveBacklinks;
-			delete rule.sectionHeaderText;
-			delete rule.sectionHeaderLevel;
-			delete rule.sectionHeaderPlacement;
-		} else if (rule.renderLocation === RenderLocation.Footer) {
-			rule.renderAboveBacklinks = typeof originalRule.renderAboveBacklinks === 'boolean' ? originalRule.renderAboveBacklinks : false;
-			delete rule.renderAboveProperties;
-			delete rule.sectionHeaderText;
-			delete rule.sectionHeaderLevel;
-			delete rule.sectionHeaderPlacement;
-		} else if (rule.renderLocation === RenderLocation.SectionHeader) {
-			rule.sectionHeaderText = originalRule.sectionHeaderText || '';
-			rule.sectionHeaderLevel = /^h[1-6]$/.test(originalRule.sectionHeaderLevel || '') ? originalRule.sectionHeaderLevel : 'h2';
-			rule.sectionHeaderPlacement = originalRule.sectionHeaderPlacement === 'bottom' ? 'bottom' : 'top';
-			delete rule.renderAboveProperties;
-			delete rule.renderAboveBacklinks;
-		} else {
-			delete rule.renderAboveProperties;
-			delete rule.renderAboveBacklinks;
-			delete rule.sectionHeaderText;
-			delete rule.sectionHeaderLevel;
-			delete rule.sectionHeaderPlacement;
-		}
+			const dateOperator = this.workingRule.dateOperator || 'older-than-days';
+			new Setting(containerEl)
+				.setName(this.fileDateOperatorUsesDays(dateOperator) ? 'Number of days' : 'Date')
+				.setDesc(this.fileDateOperatorUsesDays(dateOperator)
+					? 'Use 0 with "within last N days" to match notes from today.'
+					: 'A date in YYYY-MM-DD format, or "today".')
+				.addText(text => text
+					.setPlaceholder(this.fileDateOperatorUsesDays(dateOperator) ? 'e.g., 90' : 'e.g., 2024-01-31')
+					.setValue(this.workingRule.dateValue || '')
+					.onChange((value) => {
+						this.workingRule.dateValue = value;
+					}));
+		} else if (this.workingRule.type === RuleType.Content) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-		// Normalize popover visibility setting
-		rule.showInPopover = typeof originalRule.showInPopover === 'boolean' ? originalRule.showInPopover : true;
-		rule.showInEmbed = typeof originalRule.showInEmbed === 'boolean' ? originalRule.showInEmbed : true;
-		rule.showInCanvas = typeof originalRule.showInCanvas === 'boolean' ? originalRule.showInCanvas : true;
-	}
+			const contentCheck = this.workingRule.contentCheck || 'has-heading';
+			new Setting(containerEl)
+				.setName('Note content')
+				.setDesc('What to look for inside the note. Body checks read the note file, so they are slower than heading and task checks.')
+				.addDropdown(dropdown => {
+					this.addContentCheckOptions(dropdown);
+					dropdown
+						.setValue(contentCheck)
+						.onChange((value: string) => {
+							this.workingRule.contentCheck = value as ContentCheck;
+							this.render();
+						});
+				});
 
-	/**
-	 * Saves the current plugin settings to storage and triggers a view refresh.
-	 */
-	async saveSettings() {
-		// Ensure all rules are normalized before saving
-		this.settings.rules.forEach(rule => this.normalizeRule(rule));
-		await this.saveData(this.settings);
-		this.registerDynamicViews(); // Re-register views in case names/rules changed
-		this.handleActiveViewChange(); // Refresh views to apply changes
-	}
+			if (this.contentCheckNeedsValue(contentCheck)) {
+				new Setting(containerEl)
+					.setName(this.getContentValueName(contentCheck))
+					.setDesc(contentCheck === 'body-regex'
+						? 'A JavaScript regular expression, tested against the note body without frontmatter.'
+						: 'Text comparisons ignore case.')
+					.addText(text => text
+						.setPlaceholder(this.getContentValuePlaceholder(contentCheck))
+						.setValue(this.workingRule.contentValue || '')
+						.onChange((value) => {
+							this.workingRule.contentValue = value;
+						}));
+			}
+		} else if (this.workingRule.type === RuleType.Multi) {
+			this.renderMultiConditionControls(containerEl);
+		} else if (this.workingRule.type === RuleType.Dataview) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-	async activateView(viewId: string) {
-		this.app.workspace.detachLeavesOfType(viewId);
+			new Setting(containerEl)
+				.setName('Dataview query')
+				.setDesc('Enter a Dataview LIST query to match notes where this rule should apply.')
+				.addTextArea(text => text
+					.setPlaceholder('LIST FROM "References/Authors" WHERE startswith(file.name, "Example")')
+					.setValue(this.workingRule.dataviewQuery || '')
+					.onChange((value) => {
+						this.workingRule.dataviewQuery = value;
+					}));
 
-		const leaf = this.app.workspace.getRightLeaf(true);
-		if (leaf) {
-			await leaf.setViewState({
-				type: viewId,
-				active: true,
+			const infoDiv = containerEl.createDiv('dataview-info');
+			infoDiv.createEl('p', {
+				text: 'Note: The Dataview plugin must be installed for this rule type to work.',
+				cls: 'setting-item-description',
 			});
+		} else if (this.workingRule.type === RuleType.Datacore) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-			await this.app.workspace.revealLeaf(leaf);
-		}
-	}
-
-	private activateAllSidebarViews() {
-		void this.activateView(VIRTUAL_CONTENT_VIEW_TYPE);
-		this.settings.rules.forEach((rule, index) => {
-			if (rule.enabled && rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
-				void this.activateView(this.getSeparateViewId(index));
-			}
-		});
-	}
+			new Setting(containerEl)
+				.setName('Datacore query')
+				.setDesc('Enter a Datacore query to match notes where this rule should apply. Matching sections or blocks count as a match for their note.')
+				.addTextArea(text => text
+					.setPlaceholder('@page and path("References/Authors")')
+					.setValue(this.workingRule.datacoreQuery || '')
+					.onChange((value) => {
+						this.workingRule.datacoreQuery = value;
+					}));
 
-	private updateAllSidebarViews() {
-		const leaves = this.app.workspace.getLeavesOfType(VIRTUAL_CONTENT_VIEW_TYPE);
-		for (const leaf of leaves) {
-			if (leaf.view instanceof VirtualContentView) {
-				leaf.view.update();
-			}
-		}
-		this.settings.rules.forEach((rule, index) => {
-			if (rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
-				const viewId = this.getSeparateViewId(index);
-				const separateLeaves = this.app.workspace.getLeavesOfType(viewId);
-				for (const leaf of separateLeaves) {
-					if (leaf.view instanceof VirtualContentView) {
-						leaf.view.update();
-					}
-				}
-			}
-		});
-	}
+			const infoDiv = containerEl.createDiv('dataview-info');
+			infoDiv.createEl('p', {
+				text: 'Note: The Datacore plugin must be installed for this rule type to work.',
+				cls: 'setting-item-description',
+			});
+		} else if (this.workingRule.type === RuleType.Bases) {
+			new Setting(containerEl)
+				.setName('Condition')
+				.setDesc('Choose whether this condition should be met or not met.')
+				.addDropdown(dropdown => dropdown
+					.addOption('is', 'is')
+					.addOption('not', 'not')
+					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.onChange((value: string) => {
+						this.workingRule.negated = value === 'not';
+					}));
 
-	public getLastSidebarContent(): { content: string, sourcePath: string } | null {
-		return this.lastSidebarContent;
-	}
+			new Setting(containerEl)
+				.setName('Base file')
+				.setDesc('The rule applies to notes included by this base\'s filters.')
+				.addText(text => {
+					text.setPlaceholder('e.g., Bases/Reading list.base')
+						.setValue(this.workingRule.baseFilePath || '')
+						.onChange((value) => {
+							this.workingRule.baseFilePath = value;
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailableBaseFilePaths(), (selectedPath) => {
+						this.workingRule.baseFilePath = selectedPath;
+						this.workingRule.baseViewName = '';
+						text.setValue(selectedPath);
+						this.render();
+					}, this.plugin.app);
+				});
 
-	public getSeparateTabContent(viewId: string): { content: string, sourcePath: string } | null {
-		return this.lastSeparateTabContents.get(viewId) || null;
-	}
+			new Setting(containerEl)
+				.setName('View')
+				.setDesc('Optionally also apply the filters of one view in the base.')
+				.addDropdown(dropdown => {
+					const selectedView = this.workingRule.baseViewName || '';
+					dropdown.addOption('', 'All views (base filters only)');
+					if (selectedView) {
+						dropdown.addOption(selectedView, selectedView);
+					}
+					dropdown
+						.setValue(selectedView)
+						.onChange((value: string) => {
+							this.workingRule.baseViewName = value;
+						});
+					if (this.workingRule.baseFilePath) {
+						void this.plugin.getBaseViewNames(this.workingRule.baseFilePath).then(viewNames => {
+							viewNames
+								.filter(name => name !== selectedView)
+								.forEach(name => dropdown.addOption(name, name));
+						});
+					}
+				});
 
-	private getSeparateViewId(ruleIndex: number): string {
-		return `${VIRTUAL_CONTENT_SEPARATE_VIEW_TYPE_PREFIX}${ruleIndex}`;
+			const infoDiv = containerEl.createDiv('dataview-info');
+			infoDiv.createEl('p', {
+				text: 'Note: Filters using formulas or "this" are not supported and will not match.',
+				cls: 'setting-item-description',
+			});
+		}
 	}
 
-	private registerDynamicViews() {
-		this.settings.rules.forEach((rule, index) => {
-			if (rule.renderLocation === RenderLocation.Sidebar && rule.showInSeparateTab) {
-				const viewId = this.getSeparateViewId(index);
-				const tabName = rule.sidebarTabName?.trim() ? `Virtual Content: ${rule.sidebarTabName}` : `Virtual Content: Rule ${index + 1}`;
+	private renderMultiConditionControls(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Condition logic')
+			.setDesc('Choose whether any condition or all conditions must be met. Use groups to combine AND/OR logic.')
+			.addDropdown(dropdown => dropdown
+				.addOption('any', 'Any condition')
+				.addOption('all', 'All conditions')
+				.setValue(this.workingRule.multiConditionLogic || 'any')
+				.onChange((value) => {
+					this.workingRule.multiConditionLogic = value as 'any' | 'all';
+				}));
 
-				try {
-					this.registerView(
-						viewId,
-						(leaf) => new VirtualContentView(leaf, this, viewId, tabName, () => this.getSeparateTabContent(viewId))
-					);
-				} catch {
-					// Calling `this.registerView` when the view already exists, the following error occurs.
-					// This error doesn't need special handling, but if it is left unhandled, the Settings UI will not update properly.
+		this.workingRule.conditions = this.workingRule.conditions ?? [];
+		const conditionsContainer = containerEl.createDiv('virtual-footer-conditions-container');
+		this.renderConditionList(this.workingRule.conditions, conditionsContainer);
+		this.renderAddConditionButtons(this.workingRule.conditions, containerEl);
+	}
 
-					// console.error(error) // `Error: Attempting to register an existing view type "virtual-content-separate-view-1"`
-				}
+	private renderConditionList(conditions: ConditionNode[], containerEl: HTMLElement): void {
+		conditions.forEach((condition, index) => {
+			if (condition.type === 'group') {
+				this.renderConditionGroupControls(condition, conditions, index, containerEl);
+			} else {
+				this.renderSubConditionControls(condition, conditions, index, containerEl);
 			}
 		});
 	}
-}
-
-// --- Settings Tab Class ---
 
-type RuleEditorProviders = {
-	getAvailableFolderPaths: () => Set<string>;
-	getAvailableTags: () => Set<string>;
-	getAvailableMarkdownFilePaths: () => Set<string>;
-	getAvailablePropertyNames: () => Set<string>;
-};
-
-type RuleEditorOptions = {
-	title: string;
-	onSave: (rule: Rule) => Promise<void> | void;
-	onCancel?: () => void;
-	providers: RuleEditorProviders;
-};
+	private renderAddConditionButtons(conditions: ConditionNode[], containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add condition')
+				.setCta()
+				.onClick(() => {
+					conditions.push({ type: 'folder', path: '', recursive: true, pathMatchMode: 'folder', negated: false });
+					this.render();
+				}))
+			.addButton(button => button
+				.setButtonText('Add group')
+				.onClick(() => {
+					conditions.push({ type: 'group', logic: 'all', negated: false, conditions: [] });
+					this.render();
+				}));
+	}
 
-class RuleEditorModal extends Modal {
-	private workingRule: Rule;
-	private didSave = false;
+	private renderConditionGroupControls(group: ConditionGroup, siblings: ConditionNode[], index: number, containerEl: HTMLElement): void {
+		const groupDiv = containerEl.createDiv('virtual-footer-condition-group');
+		new Setting(groupDiv)
+			.setName('Group')
+			.addDropdown(dropdown => dropdown
+				.addOption('is', 'is')
+				.addOption('not', 'not')
+				.setValue(group.negated ? 'not' : 'is')
+				.onChange((value: string) => {
+					group.negated = value === 'not';
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('any', 'Any condition')
+				.addOption('all', 'All conditions')
+				.setValue(group.logic || 'any')
+				.onChange((value) => {
+					group.logic = value as 'any' | 'all';
+				}))
+			.addButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete group')
+				.setDestructive()
+				.onClick(() => {
+					siblings.splice(index, 1);
+					this.render();
+				}));
 
-	constructor(app: App, private plugin: VirtualFooterPlugin, rule: Rule, private options: RuleEditorOptions) {
-		super(app);
-		this.workingRule = RuleEditorModal.cloneRule(rule);
-		this.setTitle(options.title);
+		const childrenContainer = groupDiv.createDiv('virtual-footer-conditions-container');
+		this.renderConditionList(group.conditions, childrenContainer);
+		this.renderAddConditionButtons(group.conditions, groupDiv);
 	}
 
-	onOpen(): void {
-		this.modalEl.addClass('mod-lg');
-		this.render();
-	}
+	private renderSubConditionControls(condition: SubCondition, siblings: ConditionNode[], index: number, containerEl: HTMLElement): void {
+		const conditionDiv = containerEl.createDiv('virtual-footer-sub-condition-item');
+		const setting = new Setting(conditionDiv)
+			.addDropdown(dropdown => dropdown
+				.addOption('is', 'is')
+				.addOption('not', 'not')
+				.setValue(condition.negated ? 'not' : 'is')
+				.onChange((value: string) => {
+					condition.negated = value === 'not';
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('folder', 'Folder')
+				.addOption('tag', 'Tag')
+				.addOption('property', 'Property')
+				.addOption('file-name', 'File name')
+				.addOption('links', 'Links')
+				.addOption('file-date', 'File date')
+				.addOption('content', 'Note content')
+				.setValue(condition.type)
+				.onChange((value: string) => {
+					condition.type = value as SubConditionType;
+					delete condition.path;
+					delete condition.recursive;
+					delete condition.tag;
+					delete condition.includeSubtags;
+					delete condition.propertyName;
+					delete condition.propertyValue;
+					delete condition.propertyOperator;
+					delete condition.propertyValueMax;
+					delete condition.fileNameMode;
+					delete condition.fileNamePattern;
+					delete condition.fileExtension;
+					delete condition.linkRelation;
+					delete condition.linkTarget;
+					delete condition.dateField;
+					delete condition.dateOperator;
+					delete condition.dateValue;
+					delete condition.contentCheck;
+					delete condition.contentValue;
+					if (condition.type === 'property') {
+						condition.propertyOperator = 'equals';
+					} else if (condition.type === 'file-name') {
+						condition.fileNameMode = 'exact';
+					} else if (condition.type === 'links') {
+						condition.linkRelation = 'links-to';
+					} else if (condition.type === 'file-date') {
+						condition.dateField = 'modified';
+						condition.dateOperator = 'older-than-days';
+					} else if (condition.type === 'content') {
+						condition.contentCheck = 'has-heading';
+					}
+					this.render();
+				}));
 
-	onClose(): void {
-		this.contentEl.empty();
-		if (!this.didSave) {
-			this.options.onCancel?.();
+		if (condition.type === 'folder') {
+			const pathMatchMode = condition.pathMatchMode || 'folder';
+			setting.addDropdown(dropdown => dropdown
+				.addOption('folder', 'in folder')
+				.addOption('glob', 'matches glob')
+				.addOption('regex', 'matches regex')
+				.setValue(pathMatchMode)
+				.onChange((value: string) => {
+					setPathMatchMode(condition, value as PathMatchMode);
+					this.render();
+				}));
+			if (pathMatchMode === 'folder') {
+				setting.addText(text => {
+					text.setPlaceholder('Folder path')
+						.setValue(condition.path || '')
+						.onChange((value) => {
+							condition.path = value;
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailableFolderPaths(), (selected) => {
+						condition.path = selected;
+						this.schedulePreviewUpdate();
+						text.setValue(selected);
+					}, this.plugin.app);
+				});
+				setting.addToggle(toggle => toggle
+					.setTooltip('Include subfolders')
+					.setValue(condition.recursive ?? true)
+					.onChange((value) => {
+						condition.recursive = value;
+					}));
+			} else {
+				setting.addText(text => text
+					.setPlaceholder(pathMatchMode === 'glob' ? 'Glob pattern' : 'Regular expression')
+					.setValue(condition.path || '')
+					.onChange((value) => {
+						condition.path = value;
+						this.schedulePathMatchCount(setting, condition);
+					}));
+				this.updatePathMatchCount(setting, condition);
+			}
+		} else if (condition.type === 'tag') {
+			setting.addText(text => {
+				text.setPlaceholder('Tag value (no #)')
+					.setValue(condition.tag || '')
+					.onChange((value) => {
+						condition.tag = value.startsWith('#') ? value.substring(1) : value;
+					});
+				new MultiSuggest(text.inputEl, this.options.providers.getAvailableTags(), (selected) => {
+					const normalized = selected.startsWith('#') ? selected.substring(1) : selected;
+					condition.tag = normalized;
+					this.schedulePreviewUpdate();
+					text.setValue(normalized);
+				}, this.plugin.app);
+			});
+			setting.addToggle(toggle => toggle
+				.setTooltip('Include subtags')
+				.setValue(condition.includeSubtags ?? false)
+				.onChange((value) => {
+					condition.includeSubtags = value;
+				}));
+		} else if (condition.type === 'property') {
+			setting.addText(text => {
+				text.setPlaceholder('Property name')
+					.setValue(condition.propertyName || '')
+					.onChange((value) => {
+						condition.propertyName = value;
+					});
+				new MultiSuggest(text.inputEl, this.options.providers.getAvailablePropertyNames(), (selected) => {
+					condition.propertyName = selected;
+					this.schedulePreviewUpdate();
+					text.setValue(selected);
+				}, this.plugin.app);
+			});
+			setting.addDropdown(dropdown => {
+				this.addPropertyOperatorOptions(dropdown);
+				dropdown
+					.setValue(condition.propertyOperator || 'equals')
+					.onChange((value: string) => {
+						condition.propertyOperator = value as PropertyOperator;
+						this.render();
+					});
+			});
+			const operator = condition.propertyOperator || 'equals';
+			setting.addText(text => text
+				.setPlaceholder(operator === 'equals' ? 'Property value (optional)' : this.getPropertyValuePlaceholder(operator))
+				.setValue(condition.propertyValue || '')
+				.onChange((value) => {
+					condition.propertyValue = value;
+				}));
+			if (operator === 'between') {
+				setting.addText(text => text
+					.setPlaceholder('Maximum')
+					.setValue(condition.propertyValueMax || '')
+					.onChange((value) => {
+						condition.propertyValueMax = value;
+					}));
+			}
+		} else if (condition.type === 'file-name') {
+			const fileNameMode = condition.fileNameMode || 'exact';
+			setting.addDropdown(dropdown => {
+				this.addFileNameModeOptions(dropdown);
+				dropdown
+					.setValue(fileNameMode)
+					.onChange((value: string) => {
+						condition.fileNameMode = value as FileNameMatchMode;
+						this.render();
+					});
+			});
+			setting.addText(text => text
+				.setPlaceholder(this.getFileNamePatternPlaceholder(fileNameMode))
+				.setValue(condition.fileNamePattern || '')
+				.onChange((value) => {
+					condition.fileNamePattern = value;
+				}));
+			setting.addText(text => text
+				.setPlaceholder('Extensions (optional)')
+				.setValue(condition.fileExtension || '')
+				.onChange((value) => {
+					condition.fileExtension = value;
+				}));
+		} else if (condition.type === 'links') {
+			setting.addDropdown(dropdown => {
+				this.addLinkRelationOptions(dropdown);
+				dropdown
+					.setValue(condition.linkRelation || 'links-to')
+					.onChange((value: string) => {
+						condition.linkRelation = value as LinkRelation;
+						this.render();
+					});
+			});
+			if (this.linkRelationNeedsTarget(condition.linkRelation)) {
+				setting.addText(text => {
+					text.setPlaceholder('Target note')
+						.setValue(condition.linkTarget || '')
+						.onChange((value) => {
+							condition.linkTarget = value;
+						});
+					new MultiSuggest(text.inputEl, this.options.providers.getAvailableMarkdownFilePaths(), (selected) => {
+						condition.linkTarget = selected;
+						this.schedulePreviewUpdate();
+						text.setValue(selected);
+					}, this.plugin.app);
+				});
+			}
+		} else if (condition.type === 'file-date') {
+			setting.addDropdown(dropdown => dropdown
+				.addOption('modified', 'Modified')
+				.addOption('created', 'Created')
+				.setValue(condition.dateField || 'modified')
+				.onChange((value: string) => {
+					condition.dateField = value as FileDateField;
+				}));
+			const dateOperator = condition.dateOperator || 'older-than-days';
+			setting.addDropdown(dropdown => {
+				this.addFileDateOperatorOptions(dropdown);
+				dropdown
+					.setValue(dateOperator)
+					.onChange((value: string) => {
+						condition.dateOperator = value as FileDateOperator;
+						this.render();
+					});
+			});
+			setting.addText(text => text
+				.setPlaceholder(this.fileDateOperatorUsesDays(dateOperator) ? 'Days' : 'YYYY-MM-DD or today')
+				.setValue(condition.dateValue || '')
+				.onChange((value) => {
+					condition.dateValue = value;
+				}));
+		} else if (condition.type === 'content') {
+			const contentCheck = condition.contentCheck || 'has-heading';
+			setting.addDropdown(dropdown => {
+				this.addContentCheckOptions(dropdown);
+				dropdown
+					.setValue(contentCheck)
+					.onChange((value: string) => {
+						condition.contentCheck = value as ContentCheck;
+						this.render();
+					});
+			});
+			if (this.contentCheckNeedsValue(contentCheck)) {
+				setting.addText(text => text
+					.setPlaceholder(this.getContentValuePlaceholder(contentCheck))
+					.setValue(condition.contentValue || '')
+					.onChange((value) => {
+						condition.contentValue = value;
+					}));
+			}
 		}
-	}
 
-	private static cloneRule(rule: Rule): Rule {
-		return JSON.parse(JSON.stringify(rule));
+		setting.addButton(button => button
+			.setIcon('trash')
+			.setTooltip('Delete condition')
+			.setDestructive()
+			.onClick(() => {
+				siblings.splice(index, 1);
+				this.render();
+			}));
 	}
 
-	private render(): void {
-		this.contentEl.empty();
-		this.renderRuleEditor(this.contentEl);
-		this.renderButtons(this.contentEl);
+	private updatePathMatchCount(setting: Setting, condition: { path?: string, recursive?: boolean, pathMatchMode?: PathMatchMode }): void {
+		if (!condition.path?.trim()) {
+			setting.setDesc('Enter a pattern to see how many notes it matches.');
+			return;
+		}
+		const count = this.plugin.countFilesMatchingFolderCondition(condition);
+		if (count === null) {
+			setting.setDesc(`Not a valid ${condition.pathMatchMode === 'glob' ? 'glob pattern' : 'regular expression'}.`);
+			return;
+		}
+		setting.setDesc(`Matches ${count} note${count === 1 ? '' : 's'}.`);
 	}
 
-	private renderButtons(containerEl: HTMLElement): void {
-		const buttonsEl = containerEl.createDiv({ cls: 'modal-button-container' });
-		new ButtonComponent(buttonsEl)
-			.setButtonText('Save')
-			.setCta()
-			.onClick(() => void this.handleSave());
-		new ButtonComponent(buttonsEl)
-			.setButtonText('Cancel')
-			.onClick(() => this.close());
+	/**
+	 * Updates a path pattern's match count shortly after the last keystroke.
+	 */
+	private schedulePathMatchCount(setting: Setting, condition: { path?: string, recursive?: boolean, pathMatchMode?: PathMatchMode }): void {
+		const pending = this.pathMatchCountTimeouts.get(setting);
+		if (pending !== undefined) {
+			window.clearTimeout(pending);
+		}
+		this.pathMatchCountTimeouts.set(setting, window.setTimeout(() => {
+			this.pathMatchCountTimeouts.delete(setting);
+			this.updatePathMatchCount(setting, condition);
+		}, 300));
 	}
 
-	private async handleSave(): Promise<void> {
-		this.didSave = true;
-		this.plugin.normalizeRule(this.workingRule);
-		await this.options.onSave(this.workingRule);
-		this.close();
+	private addContentCheckOptions(dropdown: DropdownComponent): void {
+		(Object.keys(CONTENT_CHECK_LABELS) as ContentCheck[]).forEach(check => {
+			dropdown.addOption(check, CONTENT_CHECK_LABELS[check]);
+		});
 	}
 
-	private renderRuleEditor(containerEl: HTMLElement): void {
-		new Setting(containerEl)
-			.setName('Rule name')
-			.setDesc('A descriptive name for this rule.')
-			.addText(text => text
-				.setPlaceholder('e.g., Project notes footer')
-				.setValue(this.workingRule.name || '')
-				.onChange((value) => {
-					this.workingRule.name = value;
-				}));
+	private contentCheckNeedsValue(check: ContentCheck): boolean {
+		return check !== 'has-open-tasks' && check !== 'all-tasks-complete';
+	}
 
-		new Setting(containerEl)
-			.setName('Enabled')
-			.setDesc('If disabled, this rule will not be applied.')
-			.addToggle(toggle => toggle
-				.setValue(this.workingRule.enabled ?? true)
-				.onChange((value) => {
-					this.workingRule.enabled = value;
-				}));
+	private getContentValueName(check: ContentCheck): string {
+		switch (check) {
+			case 'has-heading': return 'Heading';
+			case 'body-regex': return 'Regular expression';
+			case 'word-count-above': return 'Word count';
+			default: return 'Text';
+		}
+	}
 
-		new Setting(containerEl)
-			.setName('Rule type')
-			.setDesc('Apply this rule based on folder, tag, property, or a combination.')
-			.addDropdown(dropdown => dropdown
-				.addOption(RuleType.Folder, 'Folder')
-				.addOption(RuleType.Tag, 'Tag')
-				.addOption(RuleType.Property, 'Property')
-				.addOption(RuleType.Multi, 'Multi-condition')
-				.addOption(RuleType.Dataview, 'Dataview')
-				.setValue(this.workingRule.type)
-				.onChange((value: string) => {
-					this.workingRule.type = value as RuleType;
-					if (this.workingRule.type === RuleType.Multi && !this.workingRule.conditions) {
-						this.workingRule.conditions = [];
-					}
-					this.plugin.normalizeRule(this.workingRule);
-					this.render();
-				}));
+	private getContentValuePlaceholder(check: ContentCheck): string {
+		switch (check) {
+			case 'has-heading': return 'e.g., Summary';
+			case 'body-regex': return 'e.g., ^Status:\\s*draft';
+			case 'word-count-above': return 'e.g., 500';
+			default: return 'e.g., TODO';
+		}
+	}
 
-		this.renderTypeSpecificControls(containerEl);
+	private addFileDateOperatorOptions(dropdown: DropdownComponent): void {
+		(Object.keys(FILE_DATE_OPERATOR_LABELS) as FileDateOperator[]).forEach(operator => {
+			dropdown.addOption(operator, FILE_DATE_OPERATOR_LABELS[operator]);
+		});
+	}
 
-		new Setting(containerEl)
-			.setName('Content source')
-			.setDesc('Where to get the content from: direct text input or a separate Markdown file.')
-			.addDropdown(dropdown => dropdown
-				.addOption(ContentSource.Text, 'Direct text')
-				.addOption(ContentSource.File, 'Markdown file')
-				.setValue(this.workingRule.contentSource || ContentSource.Text)
-				.onChange((value: string) => {
-					this.workingRule.contentSource = value as ContentSource;
-					this.plugin.normalizeRule(this.workingRule);
-					this.render();
-				}));
+	private fileDateOperatorUsesDays(operator: FileDateOperator): boolean {
+		return operator === 'within-last-days' || operator === 'older-than-days';
+	}
 
-		if (this.workingRule.contentSource === ContentSource.File) {
-			new Setting(containerEl)
-				.setName('Content file path')
-				.setDesc('Path to the .md file to use as content (e.g., "templates/common-footer.md").')
-				.addText(text => {
-					text.setPlaceholder('e.g., templates/common-footer.md')
-						.setValue(this.workingRule.footerFilePath || '')
-						.onChange((value) => {
-							this.workingRule.footerFilePath = value;
-						});
-					new MultiSuggest(text.inputEl, this.options.providers.getAvailableMarkdownFilePaths(), (selectedPath) => {
-						this.workingRule.footerFilePath = selectedPath;
-						text.setValue(selectedPath);
-					}, this.plugin.app);
-				});
-		} else {
-			new Setting(containerEl)
-				.setName('Content text')
-				.setDesc('Markdown text to display. This will be rendered.')
-				.addTextArea(text => text
-					.setPlaceholder('Enter your markdown content here...')
-					.setValue(this.workingRule.footerText || '')
-					.onChange((value) => {
-						this.workingRule.footerText = value;
-					}));
-		}
+	private addLinkRelationOptions(dropdown: DropdownComponent): void {
+		(Object.keys(LINK_RELATION_LABELS) as LinkRelation[]).forEach(relation => {
+			dropdown.addOption(relation, LINK_RELATION_LABELS[relation]);
+		});
+	}
 
-		new Setting(containerEl)
-			.setName('Render location')
-			.setDesc('Choose whether this rule renders its content in the note header, footer, a selected section, or a dedicated sidebar tab.')
-			.addDropdown(dropdown => dropdown
-				.addOption(RenderLocation.Footer, 'Footer')
-				.addOption(RenderLocation.Header, 'Header')
-				.addOption(RenderLocation.SectionHeader, 'Section header')
-				.addOption(RenderLocation.Sidebar, 'Sidebar')
-				.setValue(this.workingRule.renderLocation || RenderLocation.Footer)
-				.onChange((value: string) => {
-					this.workingRule.renderLocation = value as RenderLocation;
-					this.plugin.normalizeRule(this.workingRule);
-					this.render();
-				}));
+	private linkRelationNeedsTarget(relation: LinkRelation | undefined): boolean {
+		return relation === undefined || relation === 'links-to' || relation === 'linked-from';
+	}
 
-		this.renderLocationSpecificControls(containerEl);
+	private addFileNameModeOptions(dropdown: DropdownComponent): void {
+		(Object.keys(FILE_NAME_MATCH_MODE_LABELS) as FileNameMatchMode[]).forEach(mode => {
+			dropdown.addOption(mode, FILE_NAME_MATCH_MODE_LABELS[mode]);
+		});
+	}
 
-		new Setting(containerEl)
-			.setName('Show in popover views')
-			.setDesc('If enabled, this rule\'s content will be shown when viewing notes in hover popovers.')
-			.addToggle(toggle => toggle
-				.setValue(this.workingRule.showInPopover !== undefined ? this.workingRule.showInPopover : true)
-				.onChange((value) => {
-					this.workingRule.showInPopover = value;
-				}));
+	private getFileNamePatternPlaceholder(mode: FileNameMatchMode): string {
+		switch (mode) {
+			case 'prefix':
+				return 'e.g., MOC -';
+			case 'suffix':
+				return 'e.g., (draft)';
+			case 'regex':
+				return 'e.g., ^\\d{4}-W\\d{2}$';
+			case 'date-format':
+				return 'e.g., YYYY-MM-DD';
+			default:
+				return 'e.g., Index';
+		}
+	}
 
-		new Setting(containerEl)
-			.setName('Show in embedded notes')
-			.setDesc('If enabled, this rule\'s content will be shown inside embedded notes such as ![[Link]].')
-			.addToggle(toggle => toggle
-				.setValue(this.workingRule.showInEmbed !== undefined ? this.workingRule.showInEmbed : true)
-				.onChange((value) => {
-					this.workingRule.showInEmbed = value;
-				}));
+	private addPropertyOperatorOptions(dropdown: DropdownComponent): void {
+		(Object.keys(PROPERTY_OPERATOR_LABELS) as PropertyOperator[]).forEach(operator => {
+			dropdown.addOption(operator, PROPERTY_OPERATOR_LABELS[operator]);
+		});
+	}
 
-		new Setting(containerEl)
-			.setName('Show in canvas cards')
-			.setDesc('If enabled, this rule\'s content will be shown inside note cards on Canvas.')
-			.addToggle(toggle => toggle
-				.setValue(this.workingRule.showInCanvas !== undefined ? this.workingRule.showInCanvas : true)
-				.onChange((value) => {
-					this.workingRule.showInCanvas = value;
-				}));
+	private getPropertyValueDescription(operator: PropertyOperator): string {
+		switch (operator) {
+			case 'equals':
+				return 'Leave empty to match any file that has the property.';
+			case 'not-equals':
+				return 'Also matches files without the property. Leave empty to match files that do not have the property.';
+			case 'regex':
+				return 'A JavaScript regular expression tested against the value.';
+			case 'greater-than':
+			case 'less-than':
+			case 'between':
+				return 'A number. Values that are not numbers never match.';
+			case 'date-before':
+			case 'date-after':
+				return 'A date in YYYY-MM-DD format, or "today".';
+			case 'date-within-last-days':
+				return 'The number of days. Matches dates from that many days ago up to today.';
+			default:
+				return 'Text to compare against, ignoring case.';
+		}
 	}
 
-	private renderTypeSpecificControls(containerEl: HTMLElement): void {
-		if (this.workingRule.type === RuleType.Folder) {
-			new Setting(containerEl)
-				.setName('Condition')
-				.setDesc('Choose whether this condition should be met or not met.')
-				.addDropdown(dropdown => dropdown
-					.addOption('is', 'is')
-					.addOption('not', 'not')
-					.setValue(this.workingRule.negated ? 'not' : 'is')
-					.onChange((value: string) => {
-						this.workingRule.negated = value === 'not';
-					}));
+	private getPropertyValuePlaceholder(operator: PropertyOperator): string {
+		switch (operator) {
+			case 'regex':
+				return 'e.g., ^draft-\\d+$';
+			case 'greater-than':
+			case 'less-than':
+			case 'between':
+				return 'e.g., 10';
+			case 'date-before':
+			case 'date-after':
+				return 'e.g., 2024-01-31 or today';
+			case 'date-within-last-days':
+				return 'e.g., 7';
+			default:
+				return 'e.g., complete, article, John Doe';
+		}
+	}
 
+	private renderLocationSpecificControls(containerEl: HTMLElement): void {
+		if (this.workingRule.renderLocation === RenderLocation.Sidebar) {
 			new Setting(containerEl)
-				.setName('Folder path')
-				.setDesc('Leave empty for all files, "/" for root, or "FolderName/" for a specific folder.')
-				.addText(text => {
-					text.setPlaceholder('e.g., Meetings/, /, or empty for all')
-						.setValue(this.workingRule.path || '')
-						.onChange((value) => {
-							this.workingRule.path = value;
-							this.plugin.normalizeRule(this.workingRule);
-							this.render();
-						});
-					new MultiSuggest(text.inputEl, this.options.providers.getAvailableFolderPaths(), (selectedPath) => {
-						this.workingRule.path = selectedPath;
-						this.plugin.normalizeRule(this.workingRule);
-						text.setValue(selectedPath);
+				.setName('Show in separate tab')
+				.setDesc('If enabled, this content appears in its own sidebar tab.')
+				.addToggle(toggle => toggle
+					.setValue(this.workingRule.showInSeparateTab ?? false)
+					.onChange((value) => {
+						this.workingRule.showInSeparateTab = value;
 						this.render();
-					}, this.plugin.app);
-				});
-
-			new Setting(containerEl)
-				.setName('Include subfolders (recursive)')
-				.setDesc('If enabled, the rule applies to files in subfolders.')
-				.addToggle(toggle => {
-					toggle.setValue(this.workingRule.recursive ?? true)
-						.onChange((value) => {
-							this.workingRule.recursive = value;
-						});
-					if (this.workingRule.path === '') {
-						toggle.setDisabled(true);
-					}
-				});
-		} else if (this.workingRule.type === RuleType.Tag) {
-			new Setting(containerEl)
-				.setName('Condition')
-				.setDesc('Choose whether this condition should be met or not met.')
-				.addDropdown(dropdown => dropdown
-					.addOption('is', 'is')
-					.addOption('not', 'not')
-					.setValue(this.workingRule.negated ? 'not' : 'is')
-					.onChange((value: string) => {
-						this.workingRule.negated = value === 'not';
 					}));
 
-			new Setting(containerEl)
-				.setName('Tag value')
-				.setDesc('Tag to match (without the # prefix).')
-				.addText(text => {
-					text.setPlaceholder('e.g., important or project/alpha')
-						.setValue(this.workingRule.tag || '')
+			if (this.workingRule.showInSeparateTab) {
+				new Setting(containerEl)
+					.setName('Sidebar tab name')
+					.setDesc('If empty, a default name is used.')
+					.addText(text => text
+						.setPlaceholder('e.g., Related notes')
+						.setValue(this.workingRule.sidebarTabName || '')
 						.onChange((value) => {
-							this.workingRule.tag = value.startsWith('#') ? value.substring(1) : value;
-						});
-					new MultiSuggest(text.inputEl, this.options.providers.getAvailableTags(), (selectedTag) => {
-						const normalizedTag = selectedTag.startsWith('#') ? selectedTag.substring(1) : selectedTag;
-						this.workingRule.tag = normalizedTag;
-						text.setValue(normalizedTag);
-					}, this.plugin.app);
-				});
+							this.workingRule.sidebarTabName = value;
+						}));
+			}
+		}
 
+		if (this.workingRule.renderLocation === RenderLocation.Header) {
 			new Setting(containerEl)
-				.setName('Include subtags')
-				.setDesc('If enabled, a rule for "tag" applies to "tag/subtag" values.')
+				.setName('Render above properties')
+				.setDesc('If enabled, header content renders above frontmatter properties.')
 				.addToggle(toggle => toggle
-					.setValue(this.workingRule.includeSubtags ?? false)
+					.setValue(this.workingRule.renderAboveProperties || false)
 					.onChange((value) => {
-						this.workingRule.includeSubtags = value;
-					}));
-		} else if (this.workingRule.type === RuleType.Property) {
-			new Setting(containerEl)
-				.setName('Condition')
-				.setDesc('Choose whether this condition should be met or not met.')
-				.addDropdown(dropdown => dropdown
-					.addOption('is', 'is')
-					.addOption('not', 'not')
-					.setValue(this.workingRule.negated ? 'not' : 'is')
-					.onChange((value: string) => {
-						this.workingRule.negated = value === 'not';
+						this.workingRule.renderAboveProperties = value;
 					}));
+		}
 
+		if (this.workingRule.renderLocation === RenderLocation.SectionHeader) {
 			new Setting(containerEl)
-				.setName('Property name')
-				.setDesc('The name of the Obsidian property to match.')
-				.addText(text => {
-					text.setPlaceholder('e.g., status, type, author')
-						.setValue(this.workingRule.propertyName || '')
-						.onChange((value) => {
-							this.workingRule.propertyName = value;
-						});
-					new MultiSuggest(text.inputEl, this.options.providers.getAvailablePropertyNames(), (selectedName) => {
-						this.workingRule.propertyName = selectedName;
-						text.setValue(selectedName);
-					}, this.plugin.app);
-				});
-
-			new Setting(containerEl)
-				.setName('Property value')
-				.setDesc('Leave empty to match any file that has the property.')
+				.setName('Header text')
+				.setDesc('The exact heading text to target, without leading # characters.')
 				.addText(text => text
-					.setPlaceholder('e.g., complete, article, John Doe')
-					.setValue(this.workingRule.propertyValue || '')
+					.setPlaceholder('e.g., Tasks')
+					.setValue(this.workingRule.sectionHeaderText || '')
 					.onChange((value) => {
-						this.workingRule.propertyValue = value;
+						this.workingRule.sectionHeaderText = value;
+					}));
+
+			new Setting(containerEl)
+				.setName('Header type')
+				.setDesc('Choose which heading level should be matched.')
+				.addDropdown(dropdown => dropdown
+					.addOption('h1', 'H1')
+					.addOption('h2', 'H2')
+					.addOption('h3', 'H3')
+					.addOption('h4', 'H4')
+					.addOption('h5', 'H5')
+					.addOption('h6', 'H6')
+					.setValue(this.workingRule.sectionHeaderLevel || 'h2')
+					.onChange((value: string) => {
+						this.workingRule.sectionHeaderLevel = value;
 					}));
-		} else if (this.workingRule.type === RuleType.Multi) {
-			this.renderMultiConditionControls(containerEl);
-		} else if (this.workingRule.type === RuleType.Dataview) {
+
 			new Setting(containerEl)
-				.setName('Condition')
-				.setDesc('Choose whether this condition should be met or not met.')
+				.setName('Section placement')
+				.setDesc('Choose whether content appears at the top or bottom of the section.')
 				.addDropdown(dropdown => dropdown
-					.addOption('is', 'is')
-					.addOption('not', 'not')
-					.setValue(this.workingRule.negated ? 'not' : 'is')
+					.addOption('top', 'Top of section')
+					.addOption('bottom', 'Bottom of section')
+					.setValue(this.workingRule.sectionHeaderPlacement || 'top')
 					.onChange((value: string) => {
-						this.workingRule.negated = value === 'not';
+						this.workingRule.sectionHeaderPlacement = value as SectionHeaderPlacement;
 					}));
+		}
 
+		if (this.workingRule.renderLocation === RenderLocation.Footer) {
 			new Setting(containerEl)
-				.setName('Dataview query')
-				.setDesc('Enter a Dataview LIST query to match notes where this rule should apply.')
-				.addTextArea(text => text
-					.setPlaceholder('LIST FROM "References/Authors" WHERE startswith(file.name, "Example")')
-					.setValue(this.workingRule.dataviewQuery || '')
+				.setName('Render above backlinks')
+				.setDesc('If enabled, footer content renders above embedded backlinks.')
+				.addToggle(toggle => toggle
+					.setValue(this.workingRule.renderAboveBacklinks || false)
 					.onChange((value) => {
-						this.workingRule.dataviewQuery = value;
+						this.workingRule.renderAboveBacklinks = value;
 					}));
+		}
+	}
+}
 
-			const infoDiv = containerEl.createDiv('dataview-info');
-			infoDiv.createEl('p', {
-				text: 'Note: The Dataview plugin must be installed for this rule type to work.',
-				cls: 'setting-item-description',
+/**
+ * Modal listing the notes in the vault that a rule applies to, before it is saved.
+ */
+class RuleMatchPreviewModal extends Modal {
+	/** The most notes listed at once, to keep the list responsive in large vaults. */
+	private static readonly MAX_LISTED_NOTES = 500;
+	private matchingNotes: TFile[] | null = null;
+	private filter = '';
+	private listEl: HTMLElement | null = null;
+
+	constructor(app: App, private plugin: VirtualFooterPlugin, private rule: Rule) {
+		super(app);
+		this.setTitle(rule.name?.trim() ? `Notes matching "${rule.name.trim()}"` : 'Notes matching this rule');
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const summaryEl = contentEl.createEl('p', { text: 'Evaluating the rule against all notes...' });
+		void this.plugin.findMatchingNotes(this.rule).then(notes => {
+			if (!contentEl.isConnected) {
+				return; // Closed while evaluating
+			}
+			this.matchingNotes = notes;
+			summaryEl.setText(notes.length === 1 ? '1 note matches this rule.' : `${notes.length} notes match this rule.`);
+			if (notes.length === 0) {
+				return;
+			}
+			new Setting(contentEl)
+				.setName('Search')
+				.addSearch(search => search
+					.setPlaceholder('Filter by path')
+					.onChange((value) => {
+						this.filter = value;
+						this.renderList();
+					}));
+			this.listEl = contentEl.createEl('ul', { cls: 'virtual-footer-match-preview-list' });
+			this.renderList();
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderList(): void {
+		if (!this.listEl || !this.matchingNotes) {
+			return;
+		}
+		this.listEl.empty();
+		const filter = this.filter.trim().toLowerCase();
+		const notes = filter ? this.matchingNotes.filter(note => note.path.toLowerCase().includes(filter)) : this.matchingNotes;
+		for (const note of notes.slice(0, RuleMatchPreviewModal.MAX_LISTED_NOTES)) {
+			const linkEl = this.listEl.createEl('li').createEl('a', { text: note.path, href: '#' });
+			linkEl.addEventListener('click', (event) => {
+				event.preventDefault();
+				void this.app.workspace.openLinkText(note.path, '', event.ctrlKey || event.metaKey);
+				this.close();
+			});
+		}
+		if (notes.length > RuleMatchPreviewModal.MAX_LISTED_NOTES) {
+			this.listEl.createEl('li', {
+				text: `...and ${notes.length - RuleMatchPreviewModal.MAX_LISTED_NOTES} more. Refine the search to see them.`,
+				cls: 'virtual-footer-match-preview-more'
 			});
+		} else if (notes.length === 0) {
+			this.listEl.createEl('li', { text: 'No matching notes contain the search text.', cls: 'virtual-footer-match-preview-more' });
 		}
 	}
+}
 
-	private renderMultiConditionControls(containerEl: HTMLElement): void {
-		new Setting(containerEl)
-			.setName('Condition logic')
-			.setDesc('Choose whether any condition or all conditions must be met.')
-			.addDropdown(dropdown => dropdown
-				.addOption('any', 'Any condition')
-				.addOption('all', 'All conditions')
-				.setValue(this.workingRule.multiConditionLogic || 'any')
+/**
+ * Modal listing the problems found by validating all rules.
+ */
+class RuleValidationReportModal extends Modal {
+	constructor(app: App, private results: Array<{ name: string, enabled: boolean, warnings: string[] }>) {
+		super(app);
+		this.setTitle('Rule validation');
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const problemResults = this.results.filter(result => result.warnings.length > 0);
+		if (problemResults.length === 0) {
+			contentEl.createEl('p', { text: this.results.length === 1 ? 'The rule has no problems.' : `All ${this.results.length} rules have no problems.` });
+			return;
+		}
+		contentEl.createEl('p', {
+			text: `${problemResults.length} of ${this.results.length} ${this.results.length === 1 ? 'rule has' : 'rules have'} problems that may prevent them from showing content.`,
+		});
+		for (const result of problemResults) {
+			contentEl.createEl('h4', { text: result.enabled ? result.name : `${result.name} (disabled)` });
+			const listEl = contentEl.createEl('ul');
+			result.warnings.forEach(warning => listEl.createEl('li', { text: warning }));
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+type ConfirmationOptions = {
+	title: string;
+	message: string;
+	/** Things affected by the action, listed below the message. */
+	items?: string[];
+	confirmText: string;
+	onConfirm: () => Promise<void> | void;
+	onCancel?: () => void;
+};
+
+/**
+ * Modal asking the user to confirm an action that affects other settings.
+ */
+class ConfirmationModal extends Modal {
+	private confirmed = false;
+
+	constructor(app: App, private options: ConfirmationOptions) {
+		super(app);
+		this.setTitle(options.title);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl('p', { text: this.options.message });
+		if (this.options.items && this.options.items.length > 0) {
+			const listEl = contentEl.createEl('ul');
+			this.options.items.forEach(item => listEl.createEl('li', { text: item }));
+		}
+
+		const buttonsEl = contentEl.createDiv({ cls: 'modal-button-container' });
+		new ButtonComponent(buttonsEl)
+			.setButtonText(this.options.confirmText)
+			.setWarning()
+			.onClick(() => {
+				this.confirmed = true;
+				this.close();
+				void this.options.onConfirm();
+			});
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Cancel')
+			.onClick(() => this.close());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.confirmed) {
+			this.options.onCancel?.();
+		}
+	}
+}
+
+type SnippetEditorOptions = {
+	title: string;
+	/** The names of the other snippets, which the edited snippet's name must not collide with. */
+	takenNames: string[];
+	onSave: (snippet: ContentSnippet) => Promise<void> | void;
+};
+
+/**
+ * Modal for adding or editing a snippet of the snippet library.
+ */
+class SnippetEditorModal extends Modal {
+	private workingSnippet: ContentSnippet;
+
+	constructor(app: App, snippet: ContentSnippet, private options: SnippetEditorOptions) {
+		super(app);
+		this.workingSnippet = { ...snippet };
+		this.setTitle(options.title);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('mod-lg');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Snippet name')
+			.setDesc('Rules select the snippet by this name, and other content can embed it with {{> name}}.')
+			.addText(text => text
+				.setPlaceholder('e.g., Related notes')
+				.setValue(this.workingSnippet.name)
 				.onChange((value) => {
-					this.workingRule.multiConditionLogic = value as 'any' | 'all';
+					this.workingSnippet.name = value;
 				}));
 
-		const conditionsContainer = containerEl.createDiv('virtual-footer-conditions-container');
-		const conditions = this.workingRule.conditions ?? [];
-		conditions.forEach((condition, index) => {
-			this.renderSubConditionControls(condition, index, conditionsContainer);
-		});
+		new Setting(contentEl)
+			.setName('Snippet content')
+			.setDesc('Markdown text of the snippet. It can use template variables and embed other snippets.')
+			.addTextArea(text => text
+				.setPlaceholder('Enter your markdown content here...')
+				.setValue(this.workingSnippet.content)
+				.onChange((value) => {
+					this.workingSnippet.content = value;
+				}));
 
-		new Setting(containerEl)
+		const buttonsEl = contentEl.createDiv({ cls: 'modal-button-container' });
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Save')
+			.setCta()
+			.onClick(() => void this.handleSave());
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Cancel')
+			.onClick(() => this.close());
+	}
+
+	private async handleSave(): Promise<void> {
+		const name = this.workingSnippet.name.trim();
+		if (!name) {
+			new Notice('Virtual Content: Snippet name cannot be empty.');
+			return;
+		}
+		if (this.options.takenNames.includes(name)) {
+			new Notice(`Virtual Content: A snippet named "${name}" already exists.`);
+			return;
+		}
+		await this.options.onSave({ name, content: this.workingSnippet.content });
+		this.close();
+	}
+}
+
+/** Formats a count of rules, e.g. "1 rule" or "3 rules". */
+function formatRuleCount(count: number): string {
+	return count === 1 ? '1 rule' : `${count} rules`;
+}
+
+/**
+ * Modal for exporting selected rules, and the snippets they use, to a file in the vault or to the clipboard.
+ */
+class RuleExportModal extends Modal {
+	private selectedRuleIds: Set<string>;
+	private format: RuleExportFormat = 'json';
+	private filePath = 'virtual-content-rules.json';
+
+	constructor(app: App, private plugin: VirtualFooterPlugin) {
+		super(app);
+		this.selectedRuleIds = new Set(plugin.settings.rules.map(rule => rule.id));
+		this.setTitle('Export rules');
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		const rules = this.plugin.settings.rules;
+
+		new Setting(contentEl)
+			.setName('Rules')
+			.setDesc('The rules to export. Snippets used by these rules are exported with them.')
 			.addButton(button => button
-				.setButtonText('Add condition')
-				.setCta()
+				.setButtonText('Select all')
 				.onClick(() => {
-					this.workingRule.conditions = this.workingRule.conditions || [];
-					this.workingRule.conditions.push({ type: 'folder', path: '', recursive: true, negated: false });
+					rules.forEach(rule => this.selectedRuleIds.add(rule.id));
 					this.render();
-				}));
-	}
-
-	private renderSubConditionControls(condition: SubCondition, index: number, containerEl: HTMLElement): void {
-		const conditionDiv = containerEl.createDiv('virtual-footer-sub-condition-item');
-		const setting = new Setting(conditionDiv)
-			.addDropdown(dropdown => dropdown
-				.addOption('is', 'is')
-				.addOption('not', 'not')
-				.setValue(condition.negated ? 'not' : 'is')
-				.onChange((value: string) => {
-					condition.negated = value === 'not';
 				}))
-			.addDropdown(dropdown => dropdown
-				.addOption('folder', 'Folder')
-				.addOption('tag', 'Tag')
-				.addOption('property', 'Property')
-				.setValue(condition.type)
-				.onChange((value: string) => {
-					condition.type = value as 'folder' | 'tag' | 'property';
-					delete condition.path;
-					delete condition.recursive;
-					delete condition.tag;
-					delete condition.includeSubtags;
-					delete condition.propertyName;
-					delete condition.propertyValue;
+			.addButton(button => button
+				.setButtonText('Select none')
+				.onClick(() => {
+					this.selectedRuleIds.clear();
 					this.render();
 				}));
 
-		if (condition.type === 'folder') {
-			setting.addText(text => {
-				text.setPlaceholder('Folder path')
-					.setValue(condition.path || '')
-					.onChange((value) => {
-						condition.path = value;
-					});
-				new MultiSuggest(text.inputEl, this.options.providers.getAvailableFolderPaths(), (selected) => {
-					condition.path = selected;
-					text.setValue(selected);
-				}, this.plugin.app);
-			});
-			setting.addToggle(toggle => toggle
-				.setTooltip('Include subfolders')
-				.setValue(condition.recursive ?? true)
-				.onChange((value) => {
-					condition.recursive = value;
-				}));
-		} else if (condition.type === 'tag') {
-			setting.addText(text => {
-				text.setPlaceholder('Tag value (no #)')
-					.setValue(condition.tag || '')
+		const listEl = contentEl.createDiv({ cls: 'virtual-footer-rule-transfer-list' });
+		rules.forEach((rule, index) => {
+			new Setting(listEl)
+				.setName(rule.name?.trim() || `Rule ${index + 1}`)
+				.setDesc(summarizeRule(rule))
+				.addToggle(toggle => toggle
+					.setValue(this.selectedRuleIds.has(rule.id))
 					.onChange((value) => {
-						condition.tag = value.startsWith('#') ? value.substring(1) : value;
-					});
-				new MultiSuggest(text.inputEl, this.options.providers.getAvailableTags(), (selected) => {
-					const normalized = selected.startsWith('#') ? selected.substring(1) : selected;
-					condition.tag = normalized;
-					text.setValue(normalized);
-				}, this.plugin.app);
-			});
-			setting.addToggle(toggle => toggle
-				.setTooltip('Include subtags')
-				.setValue(condition.includeSubtags ?? false)
+						if (value) {
+							this.selectedRuleIds.add(rule.id);
+						} else {
+							this.selectedRuleIds.delete(rule.id);
+						}
+					}));
+		});
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(dropdown => dropdown
+				.addOption('json', 'JSON')
+				.addOption('yaml', 'YAML')
+				.setValue(this.format)
 				.onChange((value) => {
-					condition.includeSubtags = value;
+					this.format = value as RuleExportFormat;
+					this.filePath = this.filePath.replace(/\.(json|ya?ml)$/i, '') + (this.format === 'yaml' ? '.yaml' : '.json');
+					this.render();
 				}));
-		} else if (condition.type === 'property') {
-			setting.addText(text => {
-				text.setPlaceholder('Property name')
-					.setValue(condition.propertyName || '')
-					.onChange((value) => {
-						condition.propertyName = value;
-					});
-				new MultiSuggest(text.inputEl, this.options.providers.getAvailablePropertyNames(), (selected) => {
-					condition.propertyName = selected;
-					text.setValue(selected);
-				}, this.plugin.app);
-			});
-			setting.addText(text => text
-				.setPlaceholder('Property value (optional)')
-				.setValue(condition.propertyValue || '')
+
+		new Setting(contentEl)
+			.setName('File')
+			.setDesc('Path of the file in the vault to save the export to. An existing file is overwritten.')
+			.addText(text => text
+				.setPlaceholder('e.g., Shared/virtual-content-rules.json')
+				.setValue(this.filePath)
 				.onChange((value) => {
-					condition.propertyValue = value;
+					this.filePath = value.trim();
 				}));
-		}
 
-		setting.addButton(button => button
-			.setIcon('trash')
-			.setTooltip('Delete condition')
-			.setDestructive()
-			.onClick(() => {
-				this.workingRule.conditions?.splice(index, 1);
-				this.render();
-			}));
+		const buttonsEl = contentEl.createDiv({ cls: 'modal-button-container' });
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Save to file')
+			.setCta()
+			.onClick(() => void this.saveToFile());
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Copy to clipboard')
+			.onClick(() => void this.copyToClipboard());
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Cancel')
+			.onClick(() => this.close());
 	}
 
-	private renderLocationSpecificControls(containerEl: HTMLElement): void {
-		if (this.workingRule.renderLocation === RenderLocation.Sidebar) {
-			new Setting(containerEl)
-				.setName('Show in separate tab')
-				.setDesc('If enabled, this content appears in its own sidebar tab.')
-				.addToggle(toggle => toggle
-					.setValue(this.workingRule.showInSeparateTab ?? false)
-					.onChange((value) => {
-						this.workingRule.showInSeparateTab = value;
-						this.render();
-					}));
+	private getSelectedRules(): Rule[] {
+		return this.plugin.settings.rules.filter(rule => this.selectedRuleIds.has(rule.id));
+	}
 
-			if (this.workingRule.showInSeparateTab) {
-				new Setting(containerEl)
-					.setName('Sidebar tab name')
-					.setDesc('If empty, a default name is used.')
-					.addText(text => text
-						.setPlaceholder('e.g., Related notes')
-						.setValue(this.workingRule.sidebarTabName || '')
-						.onChange((value) => {
-							this.workingRule.sidebarTabName = value;
-						}));
+	private async saveToFile(): Promise<void> {
+		const rules = this.getSelectedRules();
+		if (rules.length === 0) {
+			new Notice('Virtual Content: Select at least one rule to export.');
+			return;
+		}
+		const path = normalizePath(this.filePath);
+		if (!this.filePath || path === '/') {
+			new Notice('Virtual Content: Enter the path of the file to export to.');
+			return;
+		}
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing && !(existing instanceof TFile)) {
+			new Notice(`Virtual Content: "${path}" is a folder.`);
+			return;
+		}
+
+		const text = this.plugin.exportRules(rules, this.format);
+		try {
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, text);
+			} else {
+				await this.app.vault.create(path, text);
 			}
+		} catch (error) {
+			console.error(`VirtualFooter: Error exporting rules to ${path}:`, error);
+			new Notice(`Virtual Content: Could not save the export to "${path}". Check that its folder exists.`);
+			return;
 		}
+		new Notice(`Virtual Content: Exported ${formatRuleCount(rules.length)} to "${path}".`);
+		this.close();
+	}
 
-		if (this.workingRule.renderLocation === RenderLocation.Header) {
-			new Setting(containerEl)
-				.setName('Render above properties')
-				.setDesc('If enabled, header content renders above frontmatter properties.')
-				.addToggle(toggle => toggle
-					.setValue(this.workingRule.renderAboveProperties || false)
+	private async copyToClipboard(): Promise<void> {
+		const rules = this.getSelectedRules();
+		if (rules.length === 0) {
+			new Notice('Virtual Content: Select at least one rule to export.');
+			return;
+		}
+		try {
+			await navigator.clipboard.writeText(this.plugin.exportRules(rules, this.format));
+		} catch (error) {
+			console.error('VirtualFooter: Error copying rules to the clipboard:', error);
+			new Notice('Virtual Content: Could not copy the rules to the clipboard.');
+			return;
+		}
+		new Notice(`Virtual Content: Copied ${formatRuleCount(rules.length)} to the clipboard.`);
+		this.close();
+	}
+}
+
+/**
+ * Modal for importing rules exported from another vault, from a file in the vault or from pasted text.
+ */
+class RuleImportModal extends Modal {
+	private filePath = '';
+	private text = '';
+	private textArea: TextAreaComponent | null = null;
+	private previewEl: HTMLElement | null = null;
+	/** The rules read from the text, or null if nothing has been read yet. */
+	private ruleImport: RuleImport | null = null;
+	private readError: string | null = null;
+	/** Whether each rule of the import is selected, by position. */
+	private selected: boolean[] = [];
+	private conflictMode: RuleImportConflictMode = 'skip';
+
+	constructor(app: App, private plugin: VirtualFooterPlugin, private onImported?: () => void) {
+		super(app);
+		this.setTitle('Import rules');
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('mod-lg');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Import from file')
+			.setDesc('A JSON or YAML file in the vault, such as an export from another vault.')
+			.addText(text => {
+				text.setPlaceholder('e.g., Shared/virtual-content-rules.json')
+					.setValue(this.filePath)
 					.onChange((value) => {
-						this.workingRule.renderAboveProperties = value;
-					}));
+						this.filePath = value.trim();
+					});
+				const exportFilePaths = new Set(this.app.vault.getFiles()
+					.filter(file => ['json', 'yaml', 'yml'].includes(file.extension))
+					.map(file => file.path));
+				new MultiSuggest(text.inputEl, exportFilePaths, (selectedPath) => {
+					this.filePath = selectedPath;
+					text.setValue(selectedPath);
+				}, this.app);
+			})
+			.addButton(button => button
+				.setButtonText('Load')
+				.onClick(() => void this.loadFile()));
+
+		new Setting(contentEl)
+			.setName('Rules to import')
+			.setDesc('Exported rules in JSON or YAML. Rules from older versions of the plugin are updated to the current format.')
+			.addButton(button => button
+				.setButtonText('Paste from clipboard')
+				.onClick(() => void this.pasteFromClipboard()));
+		this.textArea = new TextAreaComponent(contentEl)
+			.setPlaceholder('Paste exported rules here...')
+			.setValue(this.text)
+			.onChange((value) => {
+				this.setText(value, false);
+			});
+		this.textArea.inputEl.addClass('virtual-footer-rule-import-text');
+
+		this.previewEl = contentEl.createDiv();
+		this.renderPreview();
+
+		const buttonsEl = contentEl.createDiv({ cls: 'modal-button-container' });
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Import')
+			.setCta()
+			.onClick(() => void this.handleImport());
+		new ButtonComponent(buttonsEl)
+			.setButtonText('Cancel')
+			.onClick(() => this.close());
+	}
+
+	private renderPreview(): void {
+		const previewEl = this.previewEl;
+		if (!previewEl) {
+			return;
+		}
+		previewEl.empty();
+		if (this.readError) {
+			previewEl.createDiv({ cls: 'virtual-footer-rule-warnings', text: this.readError });
+			return;
+		}
+		if (!this.ruleImport) {
+			return;
 		}
 
-		if (this.workingRule.renderLocation === RenderLocation.SectionHeader) {
-			new Setting(containerEl)
-				.setName('Header text')
-				.setDesc('The exact heading text to target, without leading # characters.')
-				.addText(text => text
-					.setPlaceholder('e.g., Tasks')
-					.setValue(this.workingRule.sectionHeaderText || '')
+		const { rules, snippets } = this.ruleImport;
+		const existingIds = new Set(this.plugin.settings.rules.map(rule => rule.id));
+		const conflictCount = rules.filter(rule => existingIds.has(rule.id)).length;
+		previewEl.createEl('p', {
+			text: conflictCount > 0
+				? `Found ${formatRuleCount(rules.length)}, ${conflictCount} of which already ${conflictCount === 1 ? 'exists' : 'exist'} in this vault.`
+				: `Found ${formatRuleCount(rules.length)}.`,
+		});
+
+		const listEl = previewEl.createDiv({ cls: 'virtual-footer-rule-transfer-list' });
+		rules.forEach((rule, index) => {
+			const summary = summarizeRule(rule);
+			new Setting(listEl)
+				.setName(rule.name?.trim() || `Rule ${index + 1}`)
+				.setDesc(existingIds.has(rule.id) ? `${summary} | Already in this vault` : summary)
+				.addToggle(toggle => toggle
+					.setValue(this.selected[index] ?? true)
 					.onChange((value) => {
-						this.workingRule.sectionHeaderText = value;
+						this.selected[index] = value;
 					}));
+		});
 
-			new Setting(containerEl)
-				.setName('Header type')
-				.setDesc('Choose which heading level should be matched.')
+		if (conflictCount > 0) {
+			new Setting(previewEl)
+				.setName('Rules that already exist')
+				.setDesc('Rules are matched by their ID, which stays the same when a rule is renamed or exported.')
 				.addDropdown(dropdown => dropdown
-					.addOption('h1', 'H1')
-					.addOption('h2', 'H2')
-					.addOption('h3', 'H3')
-					.addOption('h4', 'H4')
-					.addOption('h5', 'H5')
-					.addOption('h6', 'H6')
-					.setValue(this.workingRule.sectionHeaderLevel || 'h2')
-					.onChange((value: string) => {
-						this.workingRule.sectionHeaderLevel = value;
+					.addOption('skip', 'Skip')
+					.addOption('replace', 'Replace the existing rule')
+					.addOption('duplicate', 'Import as a copy')
+					.setValue(this.conflictMode)
+					.onChange((value) => {
+						this.conflictMode = value as RuleImportConflictMode;
 					}));
+		}
 
-			new Setting(containerEl)
-				.setName('Section placement')
-				.setDesc('Choose whether content appears at the top or bottom of the section.')
-				.addDropdown(dropdown => dropdown
-					.addOption('top', 'Top of section')
-					.addOption('bottom', 'Bottom of section')
-					.setValue(this.workingRule.sectionHeaderPlacement || 'top')
-					.onChange((value: string) => {
-						this.workingRule.sectionHeaderPlacement = value as SectionHeaderPlacement;
-					}));
+		if (snippets.length > 0) {
+			previewEl.createEl('p', {
+				cls: 'setting-item-description',
+				text: `Includes the snippets ${snippets.map(snippet => `"${snippet.name}"`).join(', ')}. Snippets are only imported if no snippet has the same name.`,
+			});
 		}
+	}
 
-		if (this.workingRule.renderLocation === RenderLocation.Footer) {
-			new Setting(containerEl)
-				.setName('Render above backlinks')
-				.setDesc('If enabled, footer content renders above embedded backlinks.')
-				.addToggle(toggle => toggle
-					.setValue(this.workingRule.renderAboveBacklinks || false)
-					.onChange((value) => {
-						this.workingRule.renderAboveBacklinks = value;
-					}));
+	/**
+	 * Reads the rules from new text, updating the text area unless the text came from it.
+	 */
+	private setText(text: string, updateTextArea = true): void {
+		this.text = text;
+		if (updateTextArea) {
+			this.textArea?.setValue(text);
+		}
+		this.ruleImport = null;
+		this.readError = null;
+		if (text.trim()) {
+			try {
+				this.ruleImport = this.plugin.readRuleExport(text);
+			} catch (error) {
+				this.readError = error instanceof Error ? error.message : String(error);
+			}
+		}
+		this.selected = this.ruleImport?.rules.map(() => true) ?? [];
+		this.renderPreview();
+	}
+
+	private async loadFile(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(this.filePath));
+		if (!(file instanceof TFile)) {
+			new Notice(`Virtual Content: File not found: "${this.filePath}".`);
+			return;
+		}
+		try {
+			this.setText(await this.app.vault.cachedRead(file));
+		} catch (error) {
+			console.error(`VirtualFooter: Error reading rules from ${file.path}:`, error);
+			new Notice(`Virtual Content: Could not read "${file.path}".`);
+		}
+	}
+
+	private async pasteFromClipboard(): Promise<void> {
+		try {
+			this.setText(await navigator.clipboard.readText());
+		} catch (error) {
+			console.error('VirtualFooter: Error reading rules from the clipboard:', error);
+			new Notice('Virtual Content: Could not read the clipboard.');
+		}
+	}
+
+	private async handleImport(): Promise<void> {
+		if (!this.ruleImport) {
+			new Notice('Virtual Content: Paste or load the rules to import first.');
+			return;
+		}
+		const rules = this.ruleImport.rules.filter((_, index) => this.selected[index] !== false);
+		if (rules.length === 0) {
+			new Notice('Virtual Content: Select at least one rule to import.');
+			return;
 		}
+
+		const result = await this.plugin.importRules({ rules, snippets: this.ruleImport.snippets }, this.conflictMode);
+		const parts = [`imported ${formatRuleCount(result.added)}`];
+		if (result.replaced > 0) parts.push(`replaced ${formatRuleCount(result.replaced)}`);
+		if (result.skipped > 0) parts.push(`skipped ${formatRuleCount(result.skipped)}`);
+		if (result.snippetsAdded > 0) parts.push(`added ${result.snippetsAdded === 1 ? '1 snippet' : `${result.snippetsAdded} snippets`}`);
+		const summary = parts.join(', ');
+		new Notice(`Virtual Content: ${summary.charAt(0).toUpperCase()}${summary.slice(1)}.`);
+		this.onImported?.();
+		this.close();
 	}
 }
 
@@ -3804,6 +8768,14 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 		return collectedTags;
 	}
 
+	/**
+	 * Gets all `.base` file paths in the vault.
+	 * @returns A set of available base file paths.
+	 */
+	private getAvailableBaseFilePaths(): Set<string> {
+		return new Set(this.app.vault.getFiles().filter(file => file.extension === 'base').map(file => file.path));
+	}
+
 	/**
 	 * Lazily gets and caches all Markdown file paths in the vault.
 	 * @returns A set of available Markdown file paths.
@@ -3890,6 +8862,15 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 					desc: this.getRuleSummary(rule),
 					searchable: false,
 					render: (setting: Setting) => {
+						void this.plugin.validateRule(rule, false).then(warnings => {
+							if (warnings.length > 0) {
+								setting.nameEl.createSpan({
+									cls: 'virtual-footer-rule-warning-badge',
+									text: warnings.length === 1 ? '1 warning' : `${warnings.length} warnings`,
+									attr: { 'aria-label': warnings.join('\n') },
+								});
+							}
+						});
 						setting.addButton(button => button
 							.setButtonText('Edit')
 							.setCta()
@@ -3900,6 +8881,43 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 					},
 				})),
 			},
+			{
+				type: 'list',
+				heading: 'Snippets',
+				emptyState: 'No snippets yet.',
+				addItem: {
+					name: 'Add snippet',
+					action: () => this.openNewSnippetModal(),
+				},
+				onDelete: (idx: number) => this.deleteSnippet(idx),
+				items: (this.plugin.settings.snippets ?? []).map((snippet, index) => ({
+					name: snippet.name,
+					desc: this.getSnippetSummary(snippet),
+					searchable: false,
+					render: (setting: Setting) => {
+						setting.addButton(button => button
+							.setButtonText('Edit')
+							.setCta()
+							.onClick(() => this.openEditSnippetModal(index)));
+					},
+				})),
+			},
+			{
+				type: 'group',
+				heading: 'Import and export',
+				items: [
+					{
+						name: 'Export rules',
+						desc: 'Save selected rules, and the snippets they use, to a JSON or YAML file in the vault or copy them to the clipboard.',
+						action: () => new RuleExportModal(this.app, this.plugin).open(),
+					},
+					{
+						name: 'Import rules',
+						desc: 'Add rules exported from another vault, from a file in the vault or the clipboard.',
+						action: () => new RuleImportModal(this.app, this.plugin, () => this.refreshSettingsUi()).open(),
+					},
+				],
+			},
 			{
 				type: 'group',
 				heading: 'Developer',
@@ -3947,7 +8965,10 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 		const rule = this.plugin.settings.rules[index];
 		if (!rule) return;
 		this.openRuleModal('Edit rule', rule, async (updatedRule) => {
-			this.plugin.settings.rules[index] = updatedRule;
+			// Look the rule up again, since the list may have changed while the editor was open
+			const currentIndex = this.plugin.settings.rules.findIndex(existing => existing.id === updatedRule.id);
+			if (currentIndex === -1) return;
+			this.plugin.settings.rules[currentIndex] = updatedRule;
 			await this.plugin.saveSettings();
 			this.refreshSettingsUi();
 		});
@@ -3962,6 +8983,7 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 				getAvailableTags: () => this.getAvailableTags(),
 				getAvailableMarkdownFilePaths: () => this.getAvailableMarkdownFilePaths(),
 				getAvailablePropertyNames: () => this.getAvailablePropertyNames(),
+				getAvailableBaseFilePaths: () => this.getAvailableBaseFilePaths(),
 			},
 		});
 		modal.open();
@@ -3971,6 +8993,7 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 		const rule = this.plugin.settings.rules[index];
 		if (!rule) return;
 		const duplicate = JSON.parse(JSON.stringify(rule)) as Rule;
+		duplicate.id = generateRuleId();
 		if (duplicate.name) {
 			duplicate.name = `${duplicate.name} copy`;
 		}
@@ -3994,6 +9017,104 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 		this.refreshSettingsUi();
 	}
 
+	private openNewSnippetModal(): void {
+		const snippets = this.plugin.settings.snippets ?? [];
+		new SnippetEditorModal(this.app, { name: '', content: '' }, {
+			title: 'Add snippet',
+			takenNames: snippets.map(snippet => snippet.name),
+			onSave: async (snippet) => {
+				this.plugin.settings.snippets = [...snippets, snippet];
+				await this.plugin.saveSettings(true);
+				this.refreshSettingsUi();
+			},
+		}).open();
+	}
+
+	private openEditSnippetModal(index: number): void {
+		const snippets = this.plugin.settings.snippets ?? [];
+		const snippet = snippets[index];
+		if (!snippet) return;
+		new SnippetEditorModal(this.app, snippet, {
+			title: 'Edit snippet',
+			takenNames: snippets.filter((_, otherIndex) => otherIndex !== index).map(other => other.name),
+			onSave: async (updatedSnippet) => {
+				snippets[index] = updatedSnippet;
+				// Keep rules and snippets that use the snippet pointing at it when it is renamed
+				if (updatedSnippet.name !== snippet.name) {
+					this.plugin.settings.rules.forEach(rule => {
+						if (rule.contentSource === ContentSource.Snippet && rule.snippetName === snippet.name) {
+							rule.snippetName = updatedSnippet.name;
+						}
+						if (rule.footerText) {
+							rule.footerText = renameSnippetEmbeds(rule.footerText, snippet.name, updatedSnippet.name);
+						}
+					});
+					snippets.forEach(other => {
+						other.content = renameSnippetEmbeds(other.content, snippet.name, updatedSnippet.name);
+					});
+				}
+				await this.plugin.saveSettings(true);
+				this.refreshSettingsUi();
+			},
+		}).open();
+	}
+
+	/**
+	 * Deletes a snippet, after asking for confirmation if rules or other snippets use it.
+	 */
+	private deleteSnippet(index: number): void {
+		const snippets = this.plugin.settings.snippets ?? [];
+		const snippet = snippets[index];
+		if (!snippet) return;
+		const remove = async () => {
+			snippets.splice(index, 1);
+			await this.plugin.saveSettings(true);
+			this.refreshSettingsUi();
+		};
+
+		const { ruleNames, snippetNames } = this.getSnippetUsers(snippet.name);
+		if (ruleNames.length === 0 && snippetNames.length === 0) {
+			void remove();
+			return;
+		}
+		new ConfirmationModal(this.app, {
+			title: 'Delete snippet',
+			message: `"${snippet.name}" is still used. After it is deleted, these show a "Snippet not found" comment instead of its content:`,
+			items: [
+				...ruleNames.map(name => `Rule: ${name}`),
+				...snippetNames.map(name => `Snippet: ${name}`),
+			],
+			confirmText: 'Delete',
+			onConfirm: remove,
+			// The list may already show the snippet as removed
+			onCancel: () => this.refreshSettingsUi(),
+		}).open();
+	}
+
+	/**
+	 * Finds the rules and other snippets that use a snippet, either as the content source or through {{> name}} embeds.
+	 * @param name The snippet's name.
+	 * @returns The display names of the rules and the names of the snippets.
+	 */
+	private getSnippetUsers(name: string): { ruleNames: string[], snippetNames: string[] } {
+		const ruleNames = this.plugin.settings.rules
+			.map((rule, index) => ({ rule, index }))
+			.filter(({ rule }) => (rule.contentSource === ContentSource.Snippet && rule.snippetName === name)
+				|| contentEmbedsSnippet(rule.footerText || '', name))
+			.map(({ rule, index }) => this.getRuleDisplayName(rule, index));
+		const snippetNames = (this.plugin.settings.snippets ?? [])
+			.filter(other => other.name !== name && contentEmbedsSnippet(other.content, name))
+			.map(other => other.name);
+		return { ruleNames, snippetNames };
+	}
+
+	private getSnippetSummary(snippet: ContentSnippet): string {
+		const users = this.getSnippetUsers(snippet.name).ruleNames.length;
+		const firstLine = snippet.content.trim().split('\n')[0] ?? '';
+		const preview = firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+		return [users === 1 ? 'Used by 1 rule' : `Used by ${users} rules`, preview || '(empty)'].join(' | ');
+	}
+
 	private getRuleDisplayName(rule: Rule, index: number): string {
 		const name = rule.name?.trim();
 		return name ? name : `Rule ${index + 1}`;
@@ -4002,50 +9123,34 @@ class VirtualFooterSettingTab extends PluginSettingTab {
 	private getRuleSummary(rule: Rule): string {
 		const parts: string[] = [];
 		if (rule.enabled === false) parts.push('Disabled');
-		parts.push(this.getRuleTypeSummary(rule));
+		// Tags and snippets are not updated when they are renamed, so missing ones mark the rule as broken too
+		const missingTargets = [
+			...this.plugin.getMissingRuleTargets(rule).map(({ reference }) => reference),
+			...this.plugin.getUnusedRuleTags(rule).map(tag => `#${tag}`),
+		];
+		if (rule.contentSource === ContentSource.Snippet && rule.snippetName
+			&& !this.plugin.settings.snippets?.some(snippet => snippet.name === rule.snippetName)) {
+			missingTargets.push(`snippet "${rule.snippetName}"`);
+		}
+		if (missingTargets.length > 0) parts.push(`Broken: ${missingTargets.join(', ')} not found`);
+		parts.push(summarizeRule(rule));
 		parts.push(this.getRuleContentSummary(rule));
 		parts.push(this.getRuleLocationSummary(rule));
 		return parts.filter(Boolean).join(' | ');
 	}
 
-	private getRuleTypeSummary(rule: Rule): string {
-		switch (rule.type) {
-			case RuleType.Folder: {
-				const path = rule.path?.trim() || 'all files';
-				const condition = rule.negated ? 'not in' : 'in';
-				const recursive = rule.path === '' ? '' : (rule.recursive ? ' (recursive)' : '');
-				return `Folder ${condition} ${path}${recursive}`;
-			}
-			case RuleType.Tag: {
-				const tag = rule.tag?.trim() || 'tag';
-				const condition = rule.negated ? 'not tagged' : 'tagged';
-				const subtags = rule.includeSubtags ? ' (include subtags)' : '';
-				return `Tag ${condition} #${tag}${subtags}`;
-			}
-			case RuleType.Property: {
-				const name = rule.propertyName?.trim() || 'property';
-				const condition = rule.negated ? 'not' : 'has';
-				const value = rule.propertyValue?.trim() ? ` = ${rule.propertyValue.trim()}` : '';
-				return `Property ${condition} ${name}${value}`;
-			}
-			case RuleType.Multi: {
-				const logic = rule.multiConditionLogic === 'all' ? 'all' : 'any';
-				const count = rule.conditions?.length ?? 0;
-				return `Multi (${logic}, ${count} condition${count === 1 ? '' : 's'})`;
-			}
-			case RuleType.Dataview: {
-				return 'Dataview query';
-			}
-			default:
-				return 'Rule';
-		}
-	}
-
 	private getRuleContentSummary(rule: Rule): string {
+		const templater = rule.useTemplater ? ' (Templater)' : '';
 		if (rule.contentSource === ContentSource.File) {
-			return rule.footerFilePath?.trim() ? `File: ${rule.footerFilePath.trim()}` : 'File content';
+			return (rule.footerFilePath?.trim() ? `File: ${rule.footerFilePath.trim()}` : 'File content') + templater;
+		}
+		if (rule.contentSource === ContentSource.Property) {
+			return (rule.contentPropertyName?.trim() ? `Property: ${rule.contentPropertyName.trim()}` : 'Property content') + templater;
+		}
+		if (rule.contentSource === ContentSource.Snippet) {
+			return (rule.snippetName ? `Snippet: ${rule.snippetName}` : 'Snippet content') + templater;
 		}
-		return 'Text content';
+		return 'Text content' + templater;
 	}
 
 	private getRuleLocationSummary(rule: Rule): string {